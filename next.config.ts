@@ -1,5 +1,15 @@
 // next.config.ts
 import type { NextConfig } from "next";
+import withPWAInit from "next-pwa";
+
+// Service worker generato da next-pwa (workbox) in /public/sw.js al build.
+// Niente registrazione/skipWaiting automatici: li gestisce <PwaUpdatePrompt /> (workbox-window) per chiedere il reload.
+const withPWA = withPWAInit({
+  dest: "public",
+  register: false,
+  skipWaiting: false,
+  disable: process.env.NODE_ENV === "development",
+});
 
 const nextConfig: NextConfig = {
   reactStrictMode: true,
@@ -11,4 +21,4 @@ const nextConfig: NextConfig = {
   typescript: { ignoreBuildErrors: true },
 };
 
-export default nextConfig;
+export default withPWA(nextConfig);
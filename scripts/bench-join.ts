@@ -0,0 +1,60 @@
+/**
+ * Benchmark del join: tempo per decifrare la cronologia di una stanza
+ * con il key schedule legacy (PBKDF2 per messaggio) vs per-stanza (PBKDF2 + HKDF).
+ *
+ *   npm run bench:join            # 1000 messaggi
+ *   npm run bench:join -- 200     # N messaggi
+ */
+import {
+  decryptMessage,
+  deriveRoomKeyring,
+  encryptMessage,
+  encryptTextLegacy,
+  generateRoomSalt,
+  type EnvelopeContext,
+} from "../src/lib/e2ee";
+
+const N = Number(process.argv[2] ?? 1000);
+const PASSWORD = "correct horse battery staple";
+const CTX = { room: "bench", author: "bench" };
+
+type Row = { content: string; ctx: EnvelopeContext };
+
+async function main() {
+  const salt = generateRoomSalt();
+  const writer = await deriveRoomKeyring(PASSWORD, salt);
+
+  console.log(`Preparo ${N} messaggi per schedule…`);
+  const legacy: Row[] = [];
+  const current: Row[] = [];
+  for (let i = 0; i < N; i++) {
+    const text = `messaggio #${i}`;
+    legacy.push({ content: JSON.stringify(await encryptTextLegacy(text, PASSWORD)), ctx: { ...CTX, id: `legacy-${i}` } });
+    const env = await encryptMessage({ text }, writer, CTX);
+    current.push({ content: JSON.stringify(env), ctx: { ...CTX, id: env.mid } });
+  }
+
+  // join = derivazione chiavi + decifratura di tutta la cronologia
+  // (i client legacy non derivavano chiavi stanza: la usiamo solo per la password)
+  const legacyRing = await deriveRoomKeyring(PASSWORD, salt);
+  let t0 = performance.now();
+  await Promise.all(legacy.map((r) => decryptMessage(r.content, legacyRing, r.ctx)));
+  const legacyMs = performance.now() - t0;
+
+  t0 = performance.now();
+  const ring = await deriveRoomKeyring(PASSWORD, salt);
+  const seen = new Set<string>();
+  await Promise.all(current.map((r) => decryptMessage(r.content, ring, r.ctx, seen)));
+  const currentMs = performance.now() - t0;
+
+  console.table([
+    { schedule: "legacy (PBKDF2/msg)", messaggi: N, join_ms: Math.round(legacyMs), ms_msg: +(legacyMs / N).toFixed(2) },
+    { schedule: "per-stanza (HKDF)", messaggi: N, join_ms: Math.round(currentMs), ms_msg: +(currentMs / N).toFixed(2) },
+  ]);
+  console.log(`Speedup: ${(legacyMs / currentMs).toFixed(1)}x`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
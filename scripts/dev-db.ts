@@ -0,0 +1,85 @@
+/**
+ * Stand-in locale di Supabase per lo sviluppo: avvia lo stack della Supabase CLI (Postgres,
+ * PostgREST, Realtime, Storage) in Docker applicando `supabase/migrations`, poi semina una stanza
+ * di prova e stampa le variabili da copiare in `.env.local`.
+ *
+ *   npm run db:dev                 # avvia (se serve) e semina la stanza "demo"
+ *   npm run db:dev -- --reset      # riparte da un database vuoto (supabase db reset)
+ *   npm run db:dev -- --no-start   # solo seed, su uno stack già avviato
+ */
+import { spawnSync } from "node:child_process";
+import { createClient } from "@supabase/supabase-js";
+import type { Database } from "../src/lib/database.types";
+import { deriveAccessVerifier, deriveRoomKeyring, encryptMessage, generateRoomSalt } from "../src/lib/e2ee";
+import { hashVerifier } from "../src/lib/server/verifier";
+
+const ROOM = "demo";
+const PASSWORD = "demo-password";
+const CONVERSATION: [author: string, text: string][] = [
+  ["alice", "Ciao! Questa stanza è stata creata da npm run db:dev."],
+  ["bob", "Il server vede solo ciphertext: prova a guardare la tabella messages."],
+  ["alice", "La password è demo-password."],
+];
+
+function supabaseCli(...args: string[]): string {
+  const res = spawnSync("npx", ["--yes", "supabase", ...args], { encoding: "utf8", stdio: ["inherit", "pipe", "inherit"] });
+  if (res.status !== 0) throw new Error(`supabase ${args.join(" ")} fallito (serve Docker in esecuzione)`);
+  return res.stdout;
+}
+
+/** `supabase status -o env` → { API_URL, ANON_KEY, SERVICE_ROLE_KEY, JWT_SECRET, … } */
+function localEnv(): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const line of supabaseCli("status", "-o", "env").split("\n")) {
+    const m = line.match(/^([A-Z_]+)="?(.*?)"?$/);
+    if (m) env[m[1]] = m[2];
+  }
+  return env;
+}
+
+async function seed(url: string, serviceKey: string) {
+  const db = createClient<Database>(url, serviceKey, { auth: { persistSession: false } });
+
+  const { data: existing, error: selErr } = await db.from("rooms").select("room").eq("room", ROOM).maybeSingle();
+  if (selErr) throw new Error(`Errore DB (rooms): ${selErr.message}`);
+  if (existing) {
+    console.log(`Stanza "${ROOM}" già presente: niente da seminare.`);
+    return;
+  }
+
+  const kdfSalt = generateRoomSalt();
+  const keyring = await deriveRoomKeyring(PASSWORD, kdfSalt);
+  const verifier = await hashVerifier(await deriveAccessVerifier(keyring));
+  const { error: roomErr } = await db.from("rooms").insert({ room: ROOM, kdf_salt: kdfSalt, verifier, ttl_seconds: null });
+  if (roomErr) throw new Error(`Errore creazione stanza: ${roomErr.message}`);
+
+  const rows = [];
+  for (const [author, text] of CONVERSATION) {
+    const env = await encryptMessage({ text }, keyring, { room: ROOM, author });
+    rows.push({ id: env.mid, room: ROOM, author, content: JSON.stringify(env), created_at: env.ts });
+  }
+  const { error: msgErr } = await db.from("messages").insert(rows);
+  if (msgErr) throw new Error(`Errore DB (messages): ${msgErr.message}`);
+  console.log(`Stanza "${ROOM}" creata (password "${PASSWORD}", ${rows.length} messaggi non firmati, senza scadenza).`);
+}
+
+async function main() {
+  const args = new Set(process.argv.slice(2));
+  if (!args.has("--no-start")) supabaseCli("start");
+  if (args.has("--reset")) supabaseCli("db", "reset");
+
+  const env = localEnv();
+  if (!env.API_URL || !env.SERVICE_ROLE_KEY) throw new Error("Stack locale non avviato: manca l'output di supabase status.");
+  await seed(env.API_URL, env.SERVICE_ROLE_KEY);
+
+  console.log("\n# .env.local");
+  console.log(`NEXT_PUBLIC_SUPABASE_URL=${env.API_URL}`);
+  console.log(`NEXT_PUBLIC_SUPABASE_ANON_KEY=${env.ANON_KEY}`);
+  console.log(`SUPABASE_SERVICE_ROLE_KEY=${env.SERVICE_ROLE_KEY}`);
+  console.log(`SUPABASE_JWT_SECRET=${env.JWT_SECRET}`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
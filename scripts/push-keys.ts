@@ -0,0 +1,14 @@
+/**
+ * Genera una coppia di chiavi VAPID e un segreto per il webhook, da incollare in `.env.local`.
+ *
+ *   npm run push:keys
+ */
+import { randomBytes } from "node:crypto";
+import webpush from "web-push";
+
+const { publicKey, privateKey } = webpush.generateVAPIDKeys();
+
+console.log(`NEXT_PUBLIC_VAPID_PUBLIC_KEY=${publicKey}`);
+console.log(`VAPID_PRIVATE_KEY=${privateKey}`);
+console.log(`VAPID_SUBJECT=mailto:admin@localhost`);
+console.log(`PUSH_WEBHOOK_SECRET=${randomBytes(24).toString("base64url")}`);
@@ -0,0 +1,152 @@
+import assert from "node:assert/strict";
+import { spawn, type ChildProcess } from "node:child_process";
+import { once } from "node:events";
+import { mkdtemp, rm } from "node:fs/promises";
+import { createServer } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { WebSocket } from "ws";
+import type { ClientFrame, ServerFrame } from "../src/lib/transport/protocol";
+
+/* ========== Server chat: id dei messaggi, limite sui broadcast ed espulsioni, via WebSocket ========== */
+
+process.env.SUPABASE_JWT_SECRET ??= "segreto-di-test";
+const ADMIN_SECRET = "admin-di-test";
+const ROOM = "stanza";
+
+async function freePort(): Promise<number> {
+  const srv = createServer().listen(0);
+  await once(srv, "listening");
+  const { port } = srv.address() as { port: number };
+  srv.close();
+  return port;
+}
+
+/** Un client col suo elenco di frame ricevuti; `next` aspetta il primo che soddisfa `match` */
+async function connect(port: number) {
+  const ws = new WebSocket(`ws://127.0.0.1:${port}`);
+  const frames: ServerFrame[] = [];
+  const waiters: { match: (f: ServerFrame) => boolean; resolve: (f: ServerFrame) => void }[] = [];
+  ws.on("message", (data) => {
+    const frame = JSON.parse(String(data)) as ServerFrame;
+    frames.push(frame);
+    for (const w of waiters.splice(0)) {
+      if (w.match(frame)) w.resolve(frame);
+      else waiters.push(w);
+    }
+  });
+  await once(ws, "open");
+  return {
+    ws,
+    frames,
+    send: (frame: ClientFrame) => ws.send(JSON.stringify(frame)),
+    next: (match: (f: ServerFrame) => boolean) =>
+      new Promise<ServerFrame>((resolve, reject) => {
+        const found = frames.find(match);
+        if (found) return resolve(found);
+        waiters.push({ match, resolve });
+        setTimeout(() => reject(new Error("frame atteso non arrivato")), 5000).unref();
+      }),
+  };
+}
+
+describe("chat-server", () => {
+  let dir: string;
+  let server: ChildProcess;
+  let port: number;
+  let token: (pk: string) => string;
+
+  before(async () => {
+    const { signRoomToken } = await import("../src/lib/server/room-token");
+    token = (pk) => signRoomToken(ROOM, pk)!.token;
+    dir = await mkdtemp(path.join(tmpdir(), "chat-server-"));
+    port = await freePort();
+    server = spawn(process.execPath, ["--import", "tsx", "server/chat-server.ts"], {
+      env: {
+        ...process.env,
+        CHAT_SERVER_PORT: String(port),
+        CHAT_DB_PATH: path.join(dir, "chat.sqlite"),
+        CHAT_SERVER_SECRET: ADMIN_SECRET,
+        PUSH_WEBHOOK_URL: "",
+      },
+      stdio: "ignore",
+    });
+    for (let i = 0; ; i++) {
+      const ok = await fetch(`http://127.0.0.1:${port}/health`).then((r) => r.ok, () => false);
+      if (ok) break;
+      if (i > 100) throw new Error("il server chat non parte");
+      await new Promise((r) => setTimeout(r, 100));
+    }
+  });
+  after(async () => {
+    if (server.exitCode === null) {
+      server.kill();
+      await once(server, "exit");
+    }
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("accetta solo id UUID, come /api/messages", async () => {
+    const c = await connect(port);
+    const row = { room: ROOM, author: "ann", content: "busta" };
+    c.send({ op: "insert", req: 1, token: token("pkA"), table: "messages", row: { ...row, id: "../altro" } });
+    c.send({ op: "insert", req: 2, token: token("pkA"), table: "messages", row: { ...row, id: crypto.randomUUID() } });
+    assert.deepEqual(await c.next((f) => f.op === "reply" && f.req === 1), {
+      op: "reply",
+      req: 1,
+      ok: false,
+      error: "Riga non valida.",
+    });
+    assert.deepEqual(await c.next((f) => f.op === "reply" && f.req === 2), { op: "reply", req: 2, ok: true });
+    c.ws.close();
+  });
+
+  it("i broadcast oltre la raffica del client si perdono", async () => {
+    const a = await connect(port);
+    const b = await connect(port);
+    a.send({ op: "join", room: ROOM, key: "a", token: token("pkA") });
+    b.send({ op: "join", room: ROOM, key: "b", token: token("pkB") });
+    b.send({ op: "track", room: ROOM, meta: { nick: "bob" } });
+    await a.next((f) => f.op === "presence" && "b" in f.state);
+
+    for (let i = 0; i < 40; i++) a.send({ op: "broadcast", room: ROOM, event: "typing", payload: { i } });
+    a.send({ op: "track", room: ROOM, meta: { nick: "ann" } }); // i frame arrivano in ordine: dopo questo, basta
+    await b.next((f) => f.op === "presence" && "a" in f.state);
+    const received = b.frames.filter((f) => f.op === "broadcast").length;
+    assert.ok(received >= 20 && received < 25, `ricevuti ${received} broadcast`);
+    a.ws.close();
+    b.ws.close();
+  });
+
+  it("l'espulsione chiude le connessioni della chiave e la toglie dalla presence", async () => {
+    const a = await connect(port);
+    const b = await connect(port);
+    a.send({ op: "join", room: ROOM, key: "a", token: token("pkA") });
+    b.send({ op: "subscribe", room: ROOM, token: token("pkB") });
+    b.send({ op: "join", room: ROOM, key: "b", token: token("pkB") });
+    b.send({ op: "track", room: ROOM, meta: { nick: "bob" } });
+    await a.next((f) => f.op === "presence" && "b" in f.state);
+
+    const closed = once(b.ws, "close");
+    const res = await fetch(`http://127.0.0.1:${port}/admin/kick`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${ADMIN_SECRET}` },
+      body: JSON.stringify({ room: ROOM, pk: "pkB" }),
+    });
+    assert.equal(res.status, 200);
+    assert.deepEqual(await b.next((f) => f.op === "kicked"), { op: "kicked", room: ROOM });
+    const [code] = (await closed) as [number];
+    assert.equal(code, 4003);
+    await a.next((f) => f.op === "presence" && !("b" in f.state));
+
+    // col token di prima non rientra: nessuna riga nuova gli arriva
+    const again = await connect(port);
+    again.send({ op: "subscribe", room: ROOM, token: token("pkB") });
+    again.send({ op: "insert", req: 1, token: token("pkB"), table: "messages", row: { id: crypto.randomUUID(), room: ROOM, author: "bob", content: "x" } });
+    const reply = await again.next((f) => f.op === "reply");
+    assert.equal(reply.op === "reply" && !reply.ok && reply.code, "kicked");
+    a.ws.close();
+    again.ws.close();
+  });
+});
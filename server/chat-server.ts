@@ -0,0 +1,390 @@
+/**
+ * Server chat self-hosted: WebSocket + SQLite, alternativo a Supabase solo per messaggi,
+ * reazioni, presence e broadcast. Stanze, ruoli, espulsioni, inviti, push e allegati restano
+ * sulle route Next e quindi su Supabase: questo server non ne sostituisce lo stack.
+ *
+ *   npm run chat:server
+ *
+ * Vede solo ciphertext: la cifratura resta tutta nel browser.
+ */
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import { WebSocketServer, type WebSocket } from "ws";
+import type { MessageRow } from "../src/lib/messages";
+import type { ChatTable, PresenceState, RowCursor } from "../src/lib/transport/types";
+import { CHAT_TABLES, type ClientFrame, type ClientRequest, type ServerFrame } from "../src/lib/transport/protocol";
+import {
+  LIMITS,
+  MAX_AUTHOR_LENGTH,
+  MAX_CONTENT_BYTES,
+  MAX_PREVIEW_BYTES,
+  clientKey,
+  createRateLimiter,
+  slowDownMessage,
+  trustedProxyHops,
+} from "../src/lib/server/rate-limit";
+import { verifyRoomToken, type RoomClaims } from "../src/lib/server/room-token";
+import { UUID_RE, bearerToken, secretMatches } from "../src/lib/server/http";
+import { DuplicateRowError, openStore } from "./store";
+
+const PORT = Number(process.env.CHAT_SERVER_PORT ?? 8787);
+const DB_PATH = process.env.CHAT_DB_PATH ?? ".data/chat.sqlite";
+const SECRET = process.env.CHAT_SERVER_SECRET;
+// i token di stanza li firma `/api/rooms/join` con questo segreto: server chat e route Next lo condividono
+const ROOM_TOKENS = Boolean(process.env.SUPABASE_JWT_SECRET);
+// route Next che invia le notifiche push (vedi README, "Notifiche push")
+const PUSH_WEBHOOK_URL = process.env.PUSH_WEBHOOK_URL;
+const PUSH_WEBHOOK_SECRET = process.env.PUSH_WEBHOOK_SECRET;
+
+const MAX_FRAME_BYTES = 256 * 1024;
+const PROXY_HOPS = trustedProxyHops(0); // default: nessun proxy, conta l'indirizzo del socket
+
+const store = openStore(DB_PATH);
+
+type Client = {
+  ws: WebSocket;
+  ip: string;                                                                         // chiave dei rate limit
+  rooms: Map<string, string>;                                                         // iscrizioni alle modifiche → pk
+  channels: Map<string, { key: string; pk: string; meta?: Record<string, unknown> }>; // presence + broadcast → pk
+};
+
+const subscribers = new Map<string, Set<Client>>();
+const members = new Map<string, Set<Client>>();
+
+/* ========== fan-out ========== */
+
+function send(client: Client, frame: ServerFrame) {
+  if (client.ws.readyState === client.ws.OPEN) client.ws.send(JSON.stringify(frame));
+}
+
+function addTo(map: Map<string, Set<Client>>, room: string, client: Client) {
+  let set = map.get(room);
+  if (!set) map.set(room, (set = new Set()));
+  set.add(client);
+}
+function removeFrom(map: Map<string, Set<Client>>, room: string, client: Client) {
+  const set = map.get(room);
+  if (set?.delete(client) && !set.size) map.delete(room);
+}
+
+function emitInsertOrUpdate(table: ChatTable, type: "INSERT" | "UPDATE", row: MessageRow) {
+  for (const c of subscribers.get(row.room) ?? []) send(c, { op: "change", room: row.room, table, type, row });
+}
+function emitDelete(table: ChatTable, room: string, ids: string[]) {
+  for (const c of subscribers.get(room) ?? []) {
+    for (const id of ids) send(c, { op: "change", room, table, type: "DELETE", id });
+  }
+}
+
+/** Come la presence di Supabase: per chiave le sessioni che hanno fatto `track` */
+function syncPresence(room: string) {
+  const state: PresenceState = {};
+  const set = members.get(room);
+  for (const c of set ?? []) {
+    const ch = c.channels.get(room);
+    if (ch?.meta) (state[ch.key] ??= []).push(ch.meta);
+  }
+  for (const c of set ?? []) send(c, { op: "presence", room, state });
+}
+
+/**
+ * Il record porta `pk`, per non notificare chi ha scritto, e l'anteprima cifrata dell'INSERT,
+ * che non si salva
+ */
+function notifyPush(row: MessageRow & { pk: string; preview?: string }) {
+  if (!PUSH_WEBHOOK_URL || !PUSH_WEBHOOK_SECRET) return;
+  fetch(PUSH_WEBHOOK_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "x-push-secret": PUSH_WEBHOOK_SECRET },
+    body: JSON.stringify({ type: "INSERT", table: "messages", record: row }),
+  }).catch((err) => console.error("[chat-server] webhook push non raggiunto", err));
+}
+
+/* ========== richieste dei client ========== */
+
+const isStr = (v: unknown): v is string => typeof v === "string" && v.length > 0;
+const isTable = (v: unknown): v is ChatTable => CHAT_TABLES.includes(v as ChatTable);
+const isCursor = (v: unknown) =>
+  v === undefined || (typeof v === "object" && v !== null && isStr((v as RowCursor).created_at) && isStr((v as RowCursor).id));
+
+class AuthError extends Error {
+  constructor(message: string, public code: "unauthorized" | "kicked") {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+/**
+ * Il token deve essere valido, per questa stanza e di una chiave non espulsa, come `jwt_room()`
+ * nelle policy Supabase
+ */
+function roomClaims(token: unknown, room: string): RoomClaims | null {
+  const claims = typeof token === "string" ? verifyRoomToken(token) : null;
+  return claims?.room === room && !store.isKicked(room, claims.pk) ? claims : null;
+}
+function authorize(token: unknown, room: string): RoomClaims {
+  const claims = typeof token === "string" ? verifyRoomToken(token) : null;
+  if (!claims || claims.room !== room) {
+    throw new AuthError("Token della stanza mancante o scaduto: rientra nella stanza.", "unauthorized");
+  }
+  // stesso testo di KICKED_MESSAGE nelle route Next
+  if (store.isKicked(room, claims.pk)) throw new AuthError("L'owner ha rimosso il tuo accesso a questa stanza.", "kicked");
+  return claims;
+}
+
+/** Stessi limiti di `/api/messages`: il client riceve `code` e `retryAfter` come dalla route */
+class LimitError extends Error {
+  constructor(message: string, public code: "rate_limited" | "too_large", public retryAfter?: number) {
+    super(message);
+    this.name = "LimitError";
+  }
+}
+
+const sendPerClient = createRateLimiter(LIMITS.sendPerClient);
+const sendPerRoom = createRateLimiter(LIMITS.sendPerRoom);
+const broadcastPerClient = createRateLimiter(LIMITS.broadcastPerClient);
+
+function checkInsertLimits(client: Client, room: string, content: string) {
+  if (Buffer.byteLength(content) > MAX_CONTENT_BYTES) {
+    throw new LimitError(`Messaggio troppo lungo (max ${MAX_CONTENT_BYTES / 1024} KB cifrati).`, "too_large");
+  }
+  const clientLimit = sendPerClient.take(client.ip);
+  const limit = clientLimit.ok ? sendPerRoom.take(room) : clientLimit;
+  if (!limit.ok) throw new LimitError(slowDownMessage(limit.retryAfter), "rate_limited", limit.retryAfter);
+}
+
+/**
+ * Stesse regole delle policy RLS: si legge e si scrive solo nella stanza del token, si modificano
+ * solo i propri messaggi e si tolgono solo le proprie reazioni. Cancellazioni e riscritture di
+ * massa (clear, purge, rotazione) passano dalle route Next su `/admin/*`.
+ */
+function handleRequest(client: Client, frame: ClientRequest): unknown {
+  if (!isTable(frame.table)) throw new Error("Tabella non valida.");
+  switch (frame.op) {
+    case "history":
+      if (!isStr(frame.room) || typeof frame.query?.limit !== "number" || !isCursor(frame.query.before) || !isCursor(frame.query.after)) {
+        throw new Error("Richiesta non valida.");
+      }
+      authorize(frame.token, frame.room);
+      return store.history(frame.table, frame.room, frame.query);
+    case "count":
+      if (!isStr(frame.room)) throw new Error("Richiesta non valida.");
+      authorize(frame.token, frame.room);
+      return store.count(frame.table, frame.room);
+    case "insert": {
+      const { id, room, author, content, preview } = frame.row ?? {};
+      if (!isStr(id) || !UUID_RE.test(id) || !isStr(room) || !isStr(author) || !isStr(content) || author.length > MAX_AUTHOR_LENGTH
+        || (preview !== undefined && (!isStr(preview) || Buffer.byteLength(preview) > MAX_PREVIEW_BYTES))) {
+        throw new Error("Riga non valida.");
+      }
+      const { pk } = authorize(frame.token, room);
+      checkInsertLimits(client, room, content);
+      const row = store.insert(frame.table, { id, room, author, content }, pk);
+      emitInsertOrUpdate(frame.table, "INSERT", row);
+      if (frame.table === "messages") notifyPush({ ...row, pk, preview });
+      return;
+    }
+    case "update": {
+      if (!isStr(frame.room) || !isStr(frame.id) || !isStr(frame.author) || !isStr(frame.content)) {
+        throw new Error("Richiesta non valida.");
+      }
+      const { pk } = authorize(frame.token, frame.room);
+      const row = store.update(frame.table, frame.room, frame.id, frame.content, { author: frame.author, pk });
+      // riga altrui, scritta prima della colonna `pk` o già cancellata: come le policy su Supabase
+      if (!row) throw new Error("Questo messaggio non si può più modificare da qui.");
+      emitInsertOrUpdate(frame.table, "UPDATE", row);
+      return;
+    }
+    case "delete": {
+      if (frame.table !== "reactions" || !isStr(frame.room) || !isStr(frame.id)) throw new Error("Richiesta non valida.");
+      const { pk } = authorize(frame.token, frame.room);
+      if (store.removeOwn(frame.table, frame.room, frame.id, pk)) emitDelete(frame.table, frame.room, [frame.id]);
+      return;
+    }
+  }
+}
+
+function handleFrame(client: Client, frame: ClientFrame) {
+  if ("req" in frame) {
+    try {
+      send(client, { op: "reply", req: frame.req, ok: true, data: handleRequest(client, frame) });
+    } catch (err) {
+      const code = err instanceof DuplicateRowError ? "duplicate"
+        : err instanceof LimitError ? err.code
+        : err instanceof AuthError ? err.code
+        : undefined;
+      const retryAfter = err instanceof LimitError ? err.retryAfter : undefined;
+      const error = err instanceof Error ? err.message : String(err);
+      send(client, { op: "reply", req: frame.req, ok: false, error, code, retryAfter });
+    }
+    return;
+  }
+  if (!isStr(frame.room)) return;
+  const { room } = frame;
+  switch (frame.op) {
+    case "subscribe": {
+      // nessuna risposta alle notifiche: senza token valido l'iscrizione semplicemente non c'è
+      const claims = roomClaims(frame.token, room);
+      if (!claims) return;
+      client.rooms.set(room, claims.pk);
+      addTo(subscribers, room, client);
+      return;
+    }
+    case "unsubscribe":
+      client.rooms.delete(room);
+      removeFrom(subscribers, room, client);
+      return;
+    case "join": {
+      const claims = roomClaims(frame.token, room);
+      if (!isStr(frame.key) || !claims) return;
+      client.channels.set(room, { key: frame.key, pk: claims.pk });
+      addTo(members, room, client);
+      syncPresence(room);
+      return;
+    }
+    case "track": {
+      const ch = client.channels.get(room);
+      if (!ch || typeof frame.meta !== "object" || !frame.meta) return;
+      ch.meta = frame.meta;
+      syncPresence(room);
+      return;
+    }
+    case "leave":
+      client.channels.delete(room);
+      removeFrom(members, room, client);
+      syncPresence(room);
+      return;
+    case "broadcast":
+      // come Supabase con `self: false`: chi trasmette non riceve il proprio broadcast.
+      // Oltre il limite si perde, come ogni broadcast: nessuna risposta da mandare
+      if (!client.channels.has(room) || !isStr(frame.event) || !broadcastPerClient.take(client.ip).ok) return;
+      for (const c of members.get(room) ?? []) {
+        if (c !== client) send(c, { op: "broadcast", room, event: frame.event, payload: frame.payload });
+      }
+      return;
+  }
+}
+
+/**
+ * Le sessioni con la chiave espulsa escono da modifiche, presence e broadcast, come con
+ * `jwt_room()` su Supabase: ricevono `kicked` e la connessione si chiude. Rientrare non serve,
+ * `roomClaims` rifiuta la chiave.
+ */
+function dropKicked(room: string, pk: string) {
+  const kicked = new Set<Client>();
+  for (const c of subscribers.get(room) ?? []) if (c.rooms.get(room) === pk) kicked.add(c);
+  for (const c of members.get(room) ?? []) if (c.channels.get(room)?.pk === pk) kicked.add(c);
+  for (const c of kicked) {
+    c.rooms.delete(room);
+    c.channels.delete(room);
+    removeFrom(subscribers, room, c);
+    removeFrom(members, room, c);
+    send(c, { op: "kicked", room });
+    c.ws.close(4003, "kicked");
+  }
+  if (kicked.size) syncPresence(room);
+}
+
+/* ========== HTTP: /health e /admin/* per le route Next (clear, purge, rotazione, espulsioni) ========== */
+
+function json(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(body));
+}
+function authorized(req: IncomingMessage) {
+  return secretMatches(bearerToken(req.headers.authorization), SECRET);
+}
+async function readJson(req: IncomingMessage): Promise<Record<string, unknown> | null> {
+  let raw = "";
+  for await (const chunk of req) {
+    raw += chunk;
+    if (raw.length > MAX_FRAME_BYTES * 4) return null;
+  }
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+async function handleHttp(req: IncomingMessage, res: ServerResponse) {
+  if (req.method === "GET" && req.url === "/health") return json(res, 200, { ok: true });
+  if (req.method !== "POST" || !req.url?.startsWith("/admin/")) return json(res, 404, { error: "Non trovato." });
+  if (!authorized(req)) return json(res, 401, { error: "Non autorizzato." });
+
+  const body = await readJson(req);
+  const { table, room } = body ?? {};
+  if (req.url === "/admin/kick") {
+    if (!isStr(room) || !isStr(body!.pk)) return json(res, 400, { error: "Richiesta non valida." });
+    store.kick(room, body!.pk);
+    dropKicked(room, body!.pk);
+    return json(res, 200, { ok: true });
+  }
+  if (!isTable(table) || !isStr(room)) return json(res, 400, { error: "Richiesta non valida." });
+
+  if (req.url === "/admin/delete") {
+    const before = isStr(body!.before) ? body!.before : undefined;
+    const ids = store.removeBefore(table, room, before);
+    emitDelete(table, room, ids);
+    return json(res, 200, { deleted: ids.length });
+  }
+  if (req.url === "/admin/update") {
+    const { id, content } = body!;
+    if (!isStr(id) || !isStr(content)) return json(res, 400, { error: "Richiesta non valida." });
+    const row = store.update(table, room, id, content);
+    if (row) emitInsertOrUpdate(table, "UPDATE", row);
+    return json(res, 200, { updated: row ? 1 : 0 });
+  }
+  return json(res, 404, { error: "Non trovato." });
+}
+
+/* ========== avvio ========== */
+
+const server = createServer((req, res) => {
+  handleHttp(req, res).catch((err) => {
+    console.error("[chat-server] errore HTTP", err);
+    json(res, 500, { error: "Errore interno." });
+  });
+});
+const wss = new WebSocketServer({ server, maxPayload: MAX_FRAME_BYTES });
+
+wss.on("connection", (ws, req) => {
+  // indirizzo del socket; x-forwarded-for solo con TRUSTED_PROXY_HOPS (proxy fidati davanti)
+  const forwarded = req.headers["x-forwarded-for"];
+  const ip = clientKey(
+    Array.isArray(forwarded) ? forwarded.join(",") : forwarded,
+    req.socket.remoteAddress ?? "unknown",
+    PROXY_HOPS
+  );
+  const client: Client = { ws, ip, rooms: new Map(), channels: new Map() };
+  ws.on("message", (data) => {
+    let frame: ClientFrame;
+    try {
+      frame = JSON.parse(String(data));
+    } catch {
+      return;
+    }
+    if (frame && typeof frame === "object") handleFrame(client, frame);
+  });
+  ws.on("close", () => {
+    for (const room of client.rooms.keys()) removeFrom(subscribers, room, client);
+    for (const room of client.channels.keys()) {
+      removeFrom(members, room, client);
+      syncPresence(room);
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`[chat-server] in ascolto su ws://localhost:${PORT} (db: ${DB_PATH})`);
+  if (!SECRET) console.warn("[chat-server] CHAT_SERVER_SECRET mancante: /admin/* risponde sempre 401");
+  if (!ROOM_TOKENS) console.warn("[chat-server] SUPABASE_JWT_SECRET mancante: nessun token di stanza è valido");
+});
+
+function shutdown() {
+  wss.close();
+  server.close(() => {
+    store.close();
+    process.exit(0);
+  });
+}
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
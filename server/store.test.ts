@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it, mock } from "node:test";
+import { DuplicateRowError, openStore, type RowStore } from "./store";
+
+/* ========== Cronologia a pagine su SQLite: righe a pari merito sul confine ========== */
+
+describe("store.history", () => {
+  let store: RowStore;
+
+  before(() => {
+    store = openStore(":memory:");
+    // cinque messaggi nello stesso millisecondo, poi due più tardi
+    mock.timers.enable({ apis: ["Date"], now: Date.parse("2026-10-19T10:00:00.000Z") });
+    for (const id of ["a3", "a1", "a5", "a2", "a4"]) store.insert("messages", { id, room: "r", author: "ann", content: "c" }, "pkA");
+    mock.timers.tick(1);
+    for (const id of ["b1", "b2"]) store.insert("messages", { id, room: "r", author: "ann", content: "c" }, "pkA");
+    mock.timers.reset();
+  });
+  after(() => store.close());
+
+  it("all'indietro non salta le righe con lo stesso created_at del confine", () => {
+    const ids: string[] = [];
+    let cursor: { created_at: string; id: string } | undefined;
+    for (;;) {
+      const page = store.history("messages", "r", { limit: 2, order: "desc", before: cursor });
+      ids.push(...page.map((r) => r.id));
+      if (page.length < 2) break;
+      cursor = page[page.length - 1];
+    }
+    assert.deepEqual(ids, ["b2", "b1", "a5", "a4", "a3", "a2", "a1"]);
+  });
+
+  it("in avanti riparte subito dopo la riga del cursore", () => {
+    const first = store.history("messages", "r", { limit: 3 });
+    const rest = store.history("messages", "r", { limit: 10, after: first[first.length - 1] });
+    assert.deepEqual([...first, ...rest].map((r) => r.id), ["a1", "a2", "a3", "a4", "a5", "b1", "b2"]);
+  });
+
+  it("rifiuta un id già presente", () => {
+    assert.throws(() => store.insert("messages", { id: "a1", room: "r", author: "ann", content: "c" }, "pkA"), DuplicateRowError);
+  });
+});
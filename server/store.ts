@@ -0,0 +1,147 @@
+import { mkdirSync } from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+import type { MessageRow } from "../src/lib/messages";
+import type { ChatTable, HistoryQuery, NewRow } from "../src/lib/transport/types";
+import { CHAT_TABLES } from "../src/lib/transport/protocol";
+
+/* ========== Righe cifrate in SQLite (stesse colonne delle tabelle Supabase) ========== */
+
+const MAX_LIMIT = 2000;
+// le colonne di MessageRow: `pk` resta sul server, come l'autore verificato in Postgres
+const COLUMNS = "id, room, author, content, created_at";
+
+export class DuplicateRowError extends Error {
+  constructor(id: string) {
+    super(`Riga già presente: ${id}`);
+    this.name = "DuplicateRowError";
+  }
+}
+
+export type RowStore = ReturnType<typeof openStore>;
+
+export function openStore(file: string) {
+  mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+  const db = new Database(file);
+  db.pragma("journal_mode = WAL");
+  for (const table of CHAT_TABLES) {
+    db.exec(`
+      create table if not exists ${table} (
+        id text primary key,
+        room text not null,
+        author text not null,
+        content text not null,
+        created_at text not null,
+        pk text
+      );
+      create index if not exists ${table}_room_created on ${table} (room, created_at, id);
+    `);
+    // database creati prima della colonna `pk`: quelle righe restano senza autore verificato
+    const columns = db.prepare<[], { name: string }>(`pragma table_info(${table})`).all();
+    if (!columns.some((c) => c.name === "pk")) db.exec(`alter table ${table} add column pk text`);
+  }
+  // chiavi espulse dall'owner: la route `/api/rooms/kick` le manda anche qui via `/admin/kick`
+  db.exec(`
+    create table if not exists room_kicks (
+      room text not null,
+      pk text not null,
+      primary key (room, pk)
+    );
+  `);
+  const kickStmts = {
+    insert: db.prepare<[string, string]>("insert or ignore into room_kicks (room, pk) values (?, ?)"),
+    get: db.prepare<[string, string], { pk: string }>("select pk from room_kicks where room = ? and pk = ?"),
+  };
+
+  const prepare = (t: ChatTable) => ({
+    get: db.prepare<[string, string], MessageRow>(`select ${COLUMNS} from ${t} where room = ? and id = ?`),
+    count: db.prepare<[string], { n: number }>(`select count(*) as n from ${t} where room = ?`),
+    insert: db.prepare<[MessageRow & { pk: string }]>(
+      `insert into ${t} (id, room, author, content, created_at, pk) values (@id, @room, @author, @content, @created_at, @pk)`
+    ),
+    update: db.prepare<[string, string, string]>(`update ${t} set content = ? where room = ? and id = ?`),
+    updateOwn: db.prepare<[string, string, string, string, string]>(
+      `update ${t} set content = ? where room = ? and id = ? and author = ? and pk = ?`
+    ),
+    removeOwn: db.prepare<[string, string, string]>(`delete from ${t} where room = ? and id = ? and pk = ?`),
+    idsBefore: db.prepare<[string, string], { id: string }>(`select id from ${t} where room = ? and created_at < ?`),
+    removeBefore: db.prepare<[string, string]>(`delete from ${t} where room = ? and created_at < ?`),
+  });
+  const stmts = { messages: prepare("messages"), reactions: prepare("reactions") } satisfies Record<ChatTable, unknown>;
+
+  return {
+    history(table: ChatTable, room: string, { limit, order = "asc", offset = 0, before, after }: HistoryQuery): MessageRow[] {
+      const dir = order === "desc" ? "desc" : "asc";
+      const params: (string | number)[] = [room];
+      let where = "room = ?";
+      // stesso ordine (created_at, id) dell'order by: a parità di istante decide l'id
+      if (before) {
+        where += " and (created_at < ? or (created_at = ? and id < ?))";
+        params.push(before.created_at, before.created_at, before.id);
+      }
+      if (after) {
+        where += " and (created_at > ? or (created_at = ? and id > ?))";
+        params.push(after.created_at, after.created_at, after.id);
+      }
+      params.push(Math.min(Math.max(1, limit), MAX_LIMIT), Math.max(0, offset));
+      return db
+        .prepare<(string | number)[], MessageRow>(
+          `select ${COLUMNS} from ${table} where ${where} order by created_at ${dir}, id ${dir} limit ? offset ?`
+        )
+        .all(...params);
+    },
+
+    count(table: ChatTable, room: string): number {
+      return stmts[table].count.get(room)!.n;
+    },
+
+    /** `created_at` lo decide il server, come il default di Postgres; `pk` viene dal token di stanza */
+    insert(table: ChatTable, row: NewRow, pk: string): MessageRow {
+      const full: MessageRow = { ...row, created_at: new Date().toISOString() };
+      try {
+        stmts[table].insert.run({ ...full, pk });
+      } catch (err) {
+        if ((err as { code?: string }).code === "SQLITE_CONSTRAINT_PRIMARYKEY") throw new DuplicateRowError(row.id);
+        throw err;
+      }
+      return full;
+    },
+
+    /**
+     * La riga aggiornata, o `null` se non c'è. Con `owner` (richieste dei client) tocca solo le righe
+     * di quell'autore scritte da quella chiave; senza, è la riscrittura di `/admin/update`.
+     */
+    update(table: ChatTable, room: string, id: string, content: string, owner?: { author: string; pk: string }): MessageRow | null {
+      const res = owner
+        ? stmts[table].updateOwn.run(content, room, id, owner.author, owner.pk)
+        : stmts[table].update.run(content, room, id);
+      return res.changes ? stmts[table].get.get(room, id)! : null;
+    },
+
+    /** Solo righe scritte dalla chiave `pk` (il secondo click su una propria reazione) */
+    removeOwn(table: ChatTable, room: string, id: string, pk: string): boolean {
+      return stmts[table].removeOwn.run(room, id, pk).changes > 0;
+    },
+
+    /** Cancella le righe create prima di `before` (tutte se manca) e ne ritorna gli id */
+    removeBefore(table: ChatTable, room: string, before = "\uffff"): string[] {
+      return db.transaction(() => {
+        const ids = stmts[table].idsBefore.all(room, before).map((r) => r.id);
+        stmts[table].removeBefore.run(room, before);
+        return ids;
+      })();
+    },
+
+    kick(room: string, pk: string) {
+      kickStmts.insert.run(room, pk);
+    },
+
+    isKicked(room: string, pk: string): boolean {
+      return !!kickStmts.get.get(room, pk);
+    },
+
+    close() {
+      db.close();
+    },
+  };
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { verifyRoomToken } from "@/lib/server/room-token";
+import { bearerToken, fail } from "@/lib/server/http";
+import { roomFolder } from "@/lib/encoding";
+
+/**
+ * Stand-in locale di Supabase Storage per gli allegati (NEXT_PUBLIC_ATTACHMENT_STORE=local).
+ * Salva solo ciphertext: il server non ha le chiavi dei file. Come le policy del bucket, ogni
+ * richiesta vuole il token della stanza (`Authorization: Bearer …`) e tocca solo la sua cartella,
+ * `roomFolder(room)`. La cartella col nome in chiaro dei file caricati prima resta leggibile.
+ */
+export const runtime = "nodejs";
+
+const ROOT = path.resolve(process.env.ATTACHMENTS_DIR ?? ".data/attachments");
+const SEGMENT_RE = /^[A-Za-z0-9._-]+$/;
+// stesso limite del client (src/lib/attachments.ts)
+const MAX_ATTACHMENT_BYTES = Number(process.env.NEXT_PUBLIC_MAX_ATTACHMENT_MB ?? 10) * 1024 * 1024;
+
+type Ctx = { params: Promise<{ path: string[] }> };
+
+/** Percorso su disco se è valido e sta nella cartella della stanza del token, altrimenti la risposta d'errore */
+async function resolvePath(req: NextRequest, ctx: Ctx, write = false): Promise<{ file: string } | { error: NextResponse }> {
+  if (process.env.NEXT_PUBLIC_ATTACHMENT_STORE !== "local") return { error: fail(404, "Non trovato.") };
+  const { path: segments } = await ctx.params;
+  if (segments?.length !== 2 || !segments.every((s) => SEGMENT_RE.test(s) && s !== "." && s !== "..")) {
+    return { error: fail(400, "Percorso non valido.") };
+  }
+  const claims = verifyRoomToken(bearerToken(req.headers.get("authorization")));
+  if (!claims) return { error: fail(401, "Sessione della stanza scaduta: rientra nella stanza.") };
+  const own = segments[0] === (await roomFolder(claims.room)) || (!write && segments[0] === claims.room);
+  if (!own) return { error: fail(403, "Il token non vale per questa stanza.") };
+  return { file: path.join(ROOT, ...segments) };
+}
+
+export async function GET(req: NextRequest, ctx: Ctx) {
+  const resolved = await resolvePath(req, ctx);
+  if ("error" in resolved) return resolved.error;
+  const { file } = resolved;
+  try {
+    const data = await readFile(file);
+    return new NextResponse(new Uint8Array(data), { headers: { "Content-Type": "application/octet-stream" } });
+  } catch {
+    return fail(404, "Non trovato.");
+  }
+}
+
+export async function PUT(req: NextRequest, ctx: Ctx) {
+  const resolved = await resolvePath(req, ctx, true);
+  if ("error" in resolved) return resolved.error;
+  const { file } = resolved;
+  const body = Buffer.from(await req.arrayBuffer());
+  // ciphertext = file + tag GCM (16 byte)
+  if (body.length > MAX_ATTACHMENT_BYTES + 16) return fail(413, "File troppo grande.");
+  await mkdir(path.dirname(file), { recursive: true });
+  try {
+    await writeFile(file, body, { flag: "wx" }); // i path sono uuid: mai sovrascrivere
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "EEXIST") return fail(409, "Esiste già.");
+    throw err;
+  }
+  return NextResponse.json({ ok: true });
+}
+
+export async function DELETE(req: NextRequest, ctx: Ctx) {
+  const resolved = await resolvePath(req, ctx);
+  if ("error" in resolved) return resolved.error;
+  await rm(resolved.file, { force: true });
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/server/supabase-admin";
+import { requestClient, wrongPassword } from "@/lib/server/room-access";
+import { fail, normalizeRoom } from "@/lib/server/http";
+import type { RedeemInviteRequest, RedeemInviteResponse } from "@/lib/api";
+
+export const runtime = "nodejs";
+
+/**
+ * ========== POST: consegna la password cifrata finché l'invito è valido ==========
+ * Un id sbagliato conta come una password sbagliata (stessi contatori per client e per stanza):
+ * chi prova id a caso finisce nella stessa pausa di chi prova password a caso.
+ */
+export async function POST(req: NextRequest) {
+  const body = (await req.json().catch(() => null)) as Partial<RedeemInviteRequest> | null;
+  const room = normalizeRoom(body?.room);
+  if (!room || typeof body?.id !== "string") return fail(400, "Richiesta non valida.");
+  const client = requestClient(req);
+  const wait = wrongPassword.check(client, room);
+  if (wait) return fail(429, `Troppi tentativi non validi: riprova tra ${wait} s.`, { retryAfter: wait });
+
+  // conteggio usi con controllo ottimistico: due riscatti simultanei di un monouso non passano entrambi
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { data: invite, error } = await supabaseAdmin
+      .from("room_invites")
+      .select("sealed, expires_at, max_uses, uses")
+      .eq("id", body.id)
+      .eq("room", room)
+      .maybeSingle();
+    if (error) return fail(500, `Errore DB (room_invites): ${error.message}`);
+    if (!invite || new Date(invite.expires_at) <= new Date()) {
+      wrongPassword.fail(client, room);
+      return fail(410, "Invito scaduto o non valido.");
+    }
+    if (invite.max_uses !== null && invite.uses >= invite.max_uses) {
+      wrongPassword.fail(client, room);
+      return fail(410, "Invito già usato.");
+    }
+
+    const { data: claimed, error: updErr } = await supabaseAdmin
+      .from("room_invites")
+      .update({ uses: invite.uses + 1 })
+      .eq("id", body.id)
+      .eq("uses", invite.uses)
+      .select("id");
+    if (updErr) return fail(500, `Errore DB (room_invites): ${updErr.message}`);
+    if (claimed?.length) {
+      const res: RedeemInviteResponse = { sealed: invite.sealed };
+      return NextResponse.json(res);
+    }
+  }
+  return fail(409, "Invito in uso da un altro utente, riprova.");
+}
@@ -0,0 +1,38 @@
+import { randomBytes } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/server/supabase-admin";
+import { checkRoomAccess, requestClient } from "@/lib/server/room-access";
+import { fail, normalizeRoom } from "@/lib/server/http";
+import { INVITE_EXPIRIES } from "@/lib/invites";
+import type { CreateInviteRequest, CreateInviteResponse } from "@/lib/api";
+
+export const runtime = "nodejs";
+
+const MAX_SEALED = 1024;
+
+/* ========== POST: un membro crea un invito a scadenza (o monouso) ========== */
+export async function POST(req: NextRequest) {
+  const body = (await req.json().catch(() => null)) as Partial<CreateInviteRequest> | null;
+  const room = normalizeRoom(body?.room);
+  if (typeof body?.sealed !== "string" || body.sealed.length > MAX_SEALED
+    || !INVITE_EXPIRIES.some((e) => e.seconds === body.expiresIn) || typeof body.singleUse !== "boolean") {
+    return fail(400, "Richiesta non valida.");
+  }
+
+  const access = await checkRoomAccess(room, body.verifier, requestClient(req));
+  if (!access.ok) return fail(access.status, access.error);
+
+  const id = randomBytes(16).toString("base64url");
+  const expiresAt = new Date(Date.now() + body.expiresIn! * 1000).toISOString();
+  const { error } = await supabaseAdmin.from("room_invites").insert({
+    id,
+    room,
+    sealed: body.sealed,
+    expires_at: expiresAt,
+    max_uses: body.singleUse ? 1 : null,
+  });
+  if (error) return fail(500, `Errore DB (room_invites): ${error.message}`);
+
+  const res: CreateInviteResponse = { id, expiresAt };
+  return NextResponse.json(res);
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { supabaseAdmin } from "@/lib/server/supabase-admin";
+import { notifyRoom, pushConfigured } from "@/lib/server/push";
+import { requestClient } from "@/lib/server/room-access";
+import { verifyRoomToken } from "@/lib/server/room-token";
+import { KICKED_MESSAGE, isKicked } from "@/lib/server/room-roles";
+import { UUID_RE, bearerToken, fail } from "@/lib/server/http";
+import {
+  LIMITS,
+  MAX_AUTHOR_LENGTH,
+  MAX_CONTENT_BYTES,
+  MAX_PREVIEW_BYTES,
+  createRateLimiter,
+  slowDownMessage,
+} from "@/lib/server/rate-limit";
+import type { InsertRowRequest } from "@/lib/api";
+
+export const runtime = "nodejs";
+
+const perClient = createRateLimiter(LIMITS.sendPerClient);
+const perRoom = createRateLimiter(LIMITS.sendPerRoom);
+
+/**
+ * ========== POST: invio di un messaggio o di una reazione (backend Supabase) ==========
+ * La chiave anon non può più fare INSERT: passa tutto da qui, con il token della stanza
+ * (`Authorization: Bearer …`), limiti di frequenza per client e per stanza e tetto di dimensione.
+ * Un messaggio nuovo parte subito verso le notifiche push, con l'anteprima cifrata da chi scrive:
+ * l'anteprima non si salva.
+ */
+export async function POST(req: NextRequest) {
+  const claims = verifyRoomToken(bearerToken(req.headers.get("authorization")));
+  if (!claims) return fail(401, "Sessione della stanza scaduta: rientra nella stanza.");
+  const { room, pk } = claims;
+
+  const body = (await req.json().catch(() => null)) as Partial<InsertRowRequest> | null;
+  const table = body?.table;
+  const { id, author, content, preview } = body?.row ?? {};
+  if ((table !== "messages" && table !== "reactions")
+    || typeof id !== "string" || !UUID_RE.test(id)
+    || typeof author !== "string" || !author || author.length > MAX_AUTHOR_LENGTH
+    || typeof content !== "string" || !content
+    || (preview !== undefined && (typeof preview !== "string" || Buffer.byteLength(preview) > MAX_PREVIEW_BYTES))) {
+    return fail(400, "Richiesta non valida.");
+  }
+  if (body?.row?.room !== room) return fail(403, "Il token non vale per questa stanza.");
+  if (Buffer.byteLength(content) > MAX_CONTENT_BYTES) {
+    return fail(413, `Messaggio troppo lungo (max ${MAX_CONTENT_BYTES / 1024} KB cifrati).`, { code: "too_large" });
+  }
+
+  // il bucket della stanza si consuma solo se il client è nei limiti
+  const clientLimit = perClient.take(requestClient(req));
+  const limit = clientLimit.ok ? perRoom.take(room) : clientLimit;
+  if (!limit.ok) {
+    return fail(429, slowDownMessage(limit.retryAfter), { code: "rate_limited", retryAfter: limit.retryAfter }, {
+      "Retry-After": String(limit.retryAfter),
+    });
+  }
+
+  // il token vale un'ora: un'espulsione nel frattempo blocca subito gli invii
+  try {
+    if (await isKicked(room, pk)) return fail(403, KICKED_MESSAGE, { code: "kicked" });
+  } catch (err) {
+    return fail(500, err instanceof Error ? err.message : "Errore DB.");
+  }
+
+  // `pk` dal token, non dal client: le policy ammettono modifica e rimozione solo a questa chiave
+  const { data, error } = await supabaseAdmin.from(table).insert({ id, room, author, content, pk }).select("created_at").single();
+  if (error?.code === "23505") return fail(409, "Id già presente.", { code: "duplicate" });
+  if (error) return fail(500, `Errore DB (${table}): ${error.message}`);
+
+  if (table === "messages" && pushConfigured) {
+    after(() =>
+      notifyRoom({ id, room, author, created_at: data.created_at, pk, preview: preview ?? null }).catch((err) =>
+        console.error("[push] notifica non inviata", err)
+      )
+    );
+  }
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { notifyRoom, pushConfigured } from "@/lib/server/push";
+import { fail, secretMatches } from "@/lib/server/http";
+
+export const runtime = "nodejs";
+
+/**
+ * Chiamata dal server chat (`PUSH_WEBHOOK_URL`) a ogni messaggio nuovo, con l'anteprima cifrata
+ * arrivata insieme all'INSERT; col backend Supabase notifica direttamente `/api/messages`.
+ * Autenticata con un segreto condiviso in `x-push-secret`.
+ */
+const SECRET = process.env.PUSH_WEBHOOK_SECRET;
+
+type WebhookBody = {
+  type?: string;
+  table?: string;
+  record?: { id?: string; room?: string; author?: string; created_at?: string; pk?: string | null; preview?: string };
+};
+
+export async function POST(req: NextRequest) {
+  if (!secretMatches(req.headers.get("x-push-secret"), SECRET)) return fail(401, "Non autorizzato.");
+  if (!pushConfigured) return fail(503, "Notifiche push non configurate sul server (chiavi VAPID mancanti).");
+
+  const body = (await req.json().catch(() => null)) as WebhookBody | null;
+  const rec = body?.record;
+  if (body?.type !== "INSERT" || body.table !== "messages") return NextResponse.json({ sent: 0, removed: 0 });
+  if (!rec?.id || !rec.room || !rec.author || !rec.created_at) {
+    return fail(400, "Record non valido.");
+  }
+
+  try {
+    const result = await notifyRoom({
+      id: rec.id,
+      room: rec.room,
+      author: rec.author,
+      created_at: rec.created_at,
+      pk: typeof rec.pk === "string" ? rec.pk : null,
+      preview: typeof rec.preview === "string" ? rec.preview : null,
+    });
+    return NextResponse.json(result);
+  } catch (err) {
+    return fail(500, err instanceof Error ? err.message : "Errore invio notifiche.");
+  }
+}
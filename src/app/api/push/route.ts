@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/server/supabase-admin";
+import { checkRoomAccess, requestClient } from "@/lib/server/room-access";
+import { checkDeviceProof } from "@/lib/server/room-roles";
+import { pushConfigured } from "@/lib/server/push";
+import { fail, normalizeRoom } from "@/lib/server/http";
+import type { PushSubscriptionRequest, PushUnsubscribeRequest } from "@/lib/api";
+
+export const runtime = "nodejs";
+
+function isSubscription(sub: unknown): sub is PushSubscriptionJSON & { endpoint: string } {
+  const s = sub as PushSubscriptionJSON | null;
+  return (
+    typeof s?.endpoint === "string" &&
+    s.endpoint.startsWith("https://") &&
+    typeof s.keys?.p256dh === "string" &&
+    typeof s.keys?.auth === "string"
+  );
+}
+
+/**
+ * ========== POST: iscrive (o aggiorna mute) il browser alle notifiche della stanza ==========
+ * L'iscrizione porta la chiave del dispositivo (firmata, come al join): l'invio esclude chi ha
+ * scritto per chiave, non per nickname.
+ */
+export async function POST(req: NextRequest) {
+  if (!pushConfigured) return fail(503, "Notifiche push non configurate sul server (chiavi VAPID mancanti).");
+
+  const body = (await req.json().catch(() => null)) as Partial<PushSubscriptionRequest> | null;
+  const room = normalizeRoom(body?.room);
+  if (!isSubscription(body?.subscription)) return fail(400, "Richiesta non valida.");
+
+  const access = await checkRoomAccess(room, body?.verifier, requestClient(req));
+  if (!access.ok) return fail(access.status, access.error);
+  const device = await checkDeviceProof(room, body.device);
+  if (!device.ok) return fail(device.status, device.error);
+
+  const { endpoint, keys } = body.subscription;
+  const { error } = await supabaseAdmin.from("push_subscriptions").upsert(
+    { endpoint, room, pk: device.pk, subscription: { endpoint, keys }, muted: body.muted === true },
+    { onConflict: "endpoint,room" }
+  );
+  if (error) return fail(500, `Errore DB (push_subscriptions): ${error.message}`);
+  return NextResponse.json({ ok: true });
+}
+
+/* ========== DELETE: disiscrive il browser dalla stanza ========== */
+export async function DELETE(req: NextRequest) {
+  const body = (await req.json().catch(() => null)) as Partial<PushUnsubscribeRequest> | null;
+  const room = normalizeRoom(body?.room);
+  if (typeof body?.endpoint !== "string") return fail(400, "Richiesta non valida.");
+
+  const access = await checkRoomAccess(room, body.verifier, requestClient(req));
+  if (!access.ok) return fail(access.status, access.error);
+
+  const { error } = await supabaseAdmin
+    .from("push_subscriptions")
+    .delete()
+    .eq("endpoint", body.endpoint)
+    .eq("room", room);
+  if (error) return fail(500, `Errore DB (push_subscriptions): ${error.message}`);
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/server/supabase-admin";
+import { authorizeRoomAction, loadRoomRoles } from "@/lib/server/room-roles";
+import { requestClient } from "@/lib/server/room-access";
+import { B64_RE, fail, normalizeRoom } from "@/lib/server/http";
+import type { GrantAdminRequest, RevokeAdminRequest } from "@/lib/api";
+
+export const runtime = "nodejs";
+
+/* ========== GET: owner e admin della stanza (chiavi pubbliche, già visibili nei messaggi) ========== */
+export async function GET(req: NextRequest) {
+  const room = normalizeRoom(req.nextUrl.searchParams.get("room"));
+  if (!room) return fail(400, "ID stanza mancante.");
+  try {
+    return NextResponse.json(await loadRoomRoles(room));
+  } catch (err) {
+    return fail(500, err instanceof Error ? err.message : "Errore DB.");
+  }
+}
+
+/* ========== POST: l'owner nomina admin un partecipante ========== */
+export async function POST(req: NextRequest) {
+  const body = (await req.json().catch(() => null)) as Partial<GrantAdminRequest> | null;
+  const room = normalizeRoom(body?.room);
+  const target = body?.target;
+  if (typeof target?.pk !== "string" || !B64_RE.test(target.pk) || typeof target.name !== "string" || !target.name.trim()) {
+    return fail(400, "Richiesta non valida.");
+  }
+
+  const auth = await authorizeRoomAction(room, body?.proof, "grant", target, "owner", requestClient(req));
+  if (!auth.ok) return fail(auth.status, auth.error);
+  if (target.pk === auth.roles!.ownerPk) return fail(400, "L'owner ha già tutti i permessi.");
+
+  const { error } = await supabaseAdmin
+    .from("room_admins")
+    .upsert({ room, pk: target.pk, name: target.name.trim() }, { onConflict: "room,pk" });
+  if (error) return fail(500, `Errore DB (room_admins): ${error.message}`);
+  return NextResponse.json(await loadRoomRoles(room));
+}
+
+/* ========== DELETE: l'owner revoca un admin ========== */
+export async function DELETE(req: NextRequest) {
+  const body = (await req.json().catch(() => null)) as Partial<RevokeAdminRequest> | null;
+  const room = normalizeRoom(body?.room);
+  if (typeof body?.pk !== "string") return fail(400, "Richiesta non valida.");
+
+  const auth = await authorizeRoomAction(room, body.proof, "revoke", body.pk, "owner", requestClient(req));
+  if (!auth.ok) return fail(auth.status, auth.error);
+
+  const { error } = await supabaseAdmin.from("room_admins").delete().eq("room", room).eq("pk", body.pk);
+  if (error) return fail(500, `Errore DB (room_admins): ${error.message}`);
+  return NextResponse.json(await loadRoomRoles(room));
+}
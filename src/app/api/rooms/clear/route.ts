@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeRoomAction } from "@/lib/server/room-roles";
+import { requestClient } from "@/lib/server/room-access";
+import { purgeAttachments } from "@/lib/server/purge";
+import { messageStore } from "@/lib/server/message-store";
+import { supabaseAdmin } from "@/lib/server/supabase-admin";
+import { fail, normalizeRoom } from "@/lib/server/http";
+import type { ClearRoomRequest } from "@/lib/api";
+
+export const runtime = "nodejs";
+
+/* ========== POST: cancella tutta la cronologia (solo owner/admin) ========== */
+export async function POST(req: NextRequest) {
+  const body = (await req.json().catch(() => null)) as Partial<ClearRoomRequest> | null;
+  const room = normalizeRoom(body?.room);
+
+  const auth = await authorizeRoomAction(room, body?.proof, "clear", null, "admin", requestClient(req));
+  if (!auth.ok) return fail(auth.status, auth.error);
+
+  try {
+    await Promise.all([messageStore.deleteRows("messages", room), messageStore.deleteRows("reactions", room)]);
+  } catch (err) {
+    return fail(500, err instanceof Error ? err.message : "Errore DELETE.");
+  }
+  // le copie locali salvate prima di adesso non valgono più (vedi `clearedAt` di /api/rooms/join)
+  const { error } = await supabaseAdmin.from("rooms").update({ cleared_at: new Date().toISOString() }).eq("room", room);
+  if (error) return fail(500, `Errore DB (rooms): ${error.message}`);
+  try {
+    await purgeAttachments(room, new Date());
+  } catch (err) {
+    console.error("[clear] allegati non cancellati", err);
+  }
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/server/supabase-admin";
+import { checkLegacyHash, checkVerifier, hashVerifier } from "@/lib/server/verifier";
+import { KICKED_MESSAGE, checkDeviceProof, claimOwnership, isKicked, loadRoomRoles } from "@/lib/server/room-roles";
+import { signRoomToken } from "@/lib/server/room-token";
+import { cooldownMessage, requestClient, wrongPassword } from "@/lib/server/room-access";
+import { LIMITS, createRateLimiter, slowDownMessage } from "@/lib/server/rate-limit";
+import { B64_RE, fail, normalizeRoom } from "@/lib/server/http";
+import { DEFAULT_ROOM_TTL, isAllowedTtl } from "@/lib/ttl";
+import type { JoinRoomRequest, JoinRoomResponse, RoomInfoResponse } from "@/lib/api";
+
+export const runtime = "nodejs";
+
+// stanze nuove per client e in totale: niente script che ne creano migliaia
+const createPerClient = createRateLimiter(LIMITS.createPerClient);
+const createGlobal = createRateLimiter(LIMITS.createGlobal);
+
+async function rolesAfterJoin(room: string, ownerPk: string | null, pk: string) {
+  if (!ownerPk) await claimOwnership(room, pk);
+  return loadRoomRoles(room);
+}
+
+/* ========== GET: salt KDF e stato della stanza (pubblico) ========== */
+// il salt serve per derivare le chiavi; rotazione e cancellazione confermano gli avvisi broadcast
+export async function GET(req: NextRequest) {
+  const room = normalizeRoom(req.nextUrl.searchParams.get("room"));
+  if (!room) return fail(400, "ID stanza mancante.");
+
+  const { data, error } = await supabaseAdmin
+    .from("rooms")
+    .select("kdf_salt, verifier, ttl_seconds, rotation, cleared_at")
+    .eq("room", room)
+    .maybeSingle();
+  if (error) return fail(500, `Errore DB (rooms): ${error.message}`);
+
+  const res: RoomInfoResponse = {
+    exists: !!data,
+    kdfSalt: data?.kdf_salt ?? null,
+    legacy: !!data && !data.verifier,
+    ttlSeconds: data?.ttl_seconds ?? null,
+    rotating: !!data?.rotation,
+    clearedAt: data?.cleared_at ?? null,
+  };
+  return NextResponse.json(res);
+}
+
+/* ========== POST: crea la stanza o verifica il verifier (con migrazione legacy) ========== */
+export async function POST(req: NextRequest) {
+  const body = (await req.json().catch(() => null)) as Partial<JoinRoomRequest> | null;
+  const room = normalizeRoom(body?.room);
+  const { verifier, kdfSalt, legacyHash, ttlSeconds } = body ?? {};
+  if (!room || typeof verifier !== "string" || typeof kdfSalt !== "string"
+    || !B64_RE.test(verifier) || !B64_RE.test(kdfSalt)
+    || (ttlSeconds !== undefined && !isAllowedTtl(ttlSeconds))) {
+    return fail(400, "Richiesta non valida.");
+  }
+  // la chiave va nel token e può diventare owner: serve la firma, non basta dichiararla
+  const device = await checkDeviceProof(room, body?.device);
+  if (!device.ok) return fail(device.status, device.error);
+  const { pk } = device;
+  const client = requestClient(req);
+  const wait = wrongPassword.check(client, room);
+  if (wait) return fail(429, cooldownMessage(wait), { retryAfter: wait });
+
+  const { data: existing, error: selErr } = await supabaseAdmin
+    .from("rooms")
+    .select("room, kdf_salt, verifier, pass_hash, ttl_seconds, owner_pk, cleared_at")
+    .eq("room", room)
+    .maybeSingle();
+  if (selErr) return fail(500, `Errore DB (rooms): ${selErr.message}`);
+
+  // stanza nuova: salvo salt, verifier (scrypt), TTL e owner; nessun hash della password
+  if (!existing) {
+    const perClient = createPerClient.take(client);
+    if (!perClient.ok) return fail(429, slowDownMessage(perClient.retryAfter), { retryAfter: perClient.retryAfter });
+    const global = createGlobal.take("*");
+    if (!global.ok) return fail(429, slowDownMessage(global.retryAfter), { retryAfter: global.retryAfter });
+    const ttl = ttlSeconds ?? DEFAULT_ROOM_TTL;
+    const { error: insErr } = await supabaseAdmin
+      .from("rooms")
+      .insert({ room, kdf_salt: kdfSalt, verifier: await hashVerifier(verifier), ttl_seconds: ttl, owner_pk: pk });
+    if (insErr?.code === "23505") return fail(409, "Stanza appena creata da un altro utente, riprova.");
+    if (insErr) return fail(500, `Errore creazione stanza: ${insErr.message}`);
+    const res: JoinRoomResponse = {
+      created: true,
+      migrated: false,
+      kdfSalt,
+      ttlSeconds: ttl,
+      clearedAt: null,
+      roles: { ownerPk: pk, admins: [] },
+      access: signRoomToken(room, pk),
+    };
+    return NextResponse.json(res);
+  }
+
+  // il client ha derivato con un salt diverso da quello della stanza: lo rimando
+  if (existing.kdf_salt && existing.kdf_salt !== kdfSalt) {
+    return fail(409, "Salt stanza cambiato, riprova.", { kdfSalt: existing.kdf_salt });
+  }
+
+  if (existing.verifier) {
+    if (!(await checkVerifier(verifier, existing.verifier))) {
+      wrongPassword.fail(client, room);
+      return fail(401, "Password stanza sbagliata");
+    }
+    wrongPassword.reset(client, room);
+    // solo dopo la password giusta: chi tira a indovinare non scopre chi è stato espulso
+    try {
+      if (await isKicked(room, pk)) return fail(403, KICKED_MESSAGE, { code: "kicked" });
+    } catch (err) {
+      return fail(500, err instanceof Error ? err.message : "Errore DB.");
+    }
+    const res: JoinRoomResponse = {
+      created: false,
+      migrated: false,
+      kdfSalt,
+      ttlSeconds: existing.ttl_seconds ?? null,
+      clearedAt: existing.cleared_at,
+      roles: await rolesAfterJoin(room, existing.owner_pk, pk),
+      access: signRoomToken(room, pk),
+    };
+    return NextResponse.json(res);
+  }
+
+  // stanza legacy: verifico il vecchio SHA-256 una volta, poi lo sostituisco col verifier
+  if (!existing.pass_hash || typeof legacyHash !== "string" || !checkLegacyHash(legacyHash, existing.pass_hash)) {
+    wrongPassword.fail(client, room);
+    return fail(401, "Password stanza sbagliata");
+  }
+  wrongPassword.reset(client, room);
+  try {
+    if (await isKicked(room, pk)) return fail(403, KICKED_MESSAGE, { code: "kicked" });
+  } catch (err) {
+    return fail(500, err instanceof Error ? err.message : "Errore DB.");
+  }
+  const { data: migrated, error: updErr } = await supabaseAdmin
+    .from("rooms")
+    .update({ kdf_salt: kdfSalt, verifier: await hashVerifier(verifier), pass_hash: null })
+    .eq("room", room)
+    .is("verifier", null)
+    .select("room");
+  if (updErr) return fail(500, `Errore migrazione stanza: ${updErr.message}`);
+  if (!migrated?.length) {
+    // un altro client ha migrato nel frattempo, magari con un altro salt
+    const { data: current } = await supabaseAdmin.from("rooms").select("kdf_salt").eq("room", room).maybeSingle();
+    return fail(409, "Stanza appena aggiornata da un altro utente, riprova.", { kdfSalt: current?.kdf_salt ?? null });
+  }
+
+  const res: JoinRoomResponse = {
+    created: false,
+    migrated: true,
+    kdfSalt,
+    ttlSeconds: existing.ttl_seconds ?? null,
+    clearedAt: existing.cleared_at,
+    roles: await rolesAfterJoin(room, existing.owner_pk, pk),
+    access: signRoomToken(room, pk),
+  };
+  return NextResponse.json(res);
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/server/supabase-admin";
+import { messageStore } from "@/lib/server/message-store";
+import { authorizeRoomAction, loadRoomRoles } from "@/lib/server/room-roles";
+import { requestClient } from "@/lib/server/room-access";
+import { B64_RE, fail, normalizeRoom } from "@/lib/server/http";
+import type { KickRequest } from "@/lib/api";
+
+export const runtime = "nodejs";
+
+/**
+ * ========== POST: l'owner espelle la chiave di un partecipante ==========
+ * Da qui in poi join e rinnovo del token la respingono, `/api/messages` rifiuta i suoi invii e le
+ * policy RLS (o il server chat, col backend `ws`) smettono di mostrarle la stanza. Se era admin
+ * perde anche il ruolo.
+ */
+export async function POST(req: NextRequest) {
+  const body = (await req.json().catch(() => null)) as Partial<KickRequest> | null;
+  const room = normalizeRoom(body?.room);
+  if (typeof body?.pk !== "string" || !B64_RE.test(body.pk)) return fail(400, "Richiesta non valida.");
+
+  const auth = await authorizeRoomAction(room, body.proof, "kick", body.pk, "owner", requestClient(req));
+  if (!auth.ok) return fail(auth.status, auth.error);
+  if (body.pk === auth.roles!.ownerPk) return fail(400, "L'owner non può espellere sé stesso.");
+
+  const { error } = await supabaseAdmin
+    .from("room_kicks")
+    .upsert({ room, pk: body.pk, kicked_by: body.proof!.pk }, { onConflict: "room,pk" });
+  if (error) return fail(500, `Errore DB (room_kicks): ${error.message}`);
+  const { error: adminError } = await supabaseAdmin.from("room_admins").delete().eq("room", room).eq("pk", body.pk);
+  if (adminError) return fail(500, `Errore DB (room_admins): ${adminError.message}`);
+  try {
+    await messageStore.kick(room, body.pk);
+  } catch (err) {
+    return fail(500, err instanceof Error ? err.message : "Errore server chat.");
+  }
+  return NextResponse.json(await loadRoomRoles(room));
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { purgeExpired } from "@/lib/server/purge";
+import { bearerToken, fail, secretMatches } from "@/lib/server/http";
+
+export const runtime = "nodejs";
+
+/**
+ * Da chiamare periodicamente (Vercel Cron, cron di sistema, …) con
+ * `Authorization: Bearer $CRON_SECRET`. Vedi README, "Messaggi a scadenza".
+ */
+const SECRET = process.env.CRON_SECRET;
+
+// GET perché è il metodo usato da Vercel Cron
+export async function GET(req: NextRequest) {
+  if (!secretMatches(bearerToken(req.headers.get("authorization")), SECRET)) return fail(401, "Non autorizzato.");
+  try {
+    return NextResponse.json(await purgeExpired());
+  } catch (err) {
+    return fail(500, err instanceof Error ? err.message : "Errore durante il purge.");
+  }
+}
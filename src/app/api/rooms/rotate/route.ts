@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/server/supabase-admin";
+import { authorizeRoomAction } from "@/lib/server/room-roles";
+import { requestClient } from "@/lib/server/room-access";
+import { messageStore } from "@/lib/server/message-store";
+import { checkVerifier, hashVerifier } from "@/lib/server/verifier";
+import { B64_RE, fail, normalizeRoom } from "@/lib/server/http";
+import type { RekeyedRow, RotateRequest, RotateResponse, RotateStep } from "@/lib/api";
+
+export const runtime = "nodejs";
+
+const MAX_BATCH = 100;
+
+/**
+ * Rotazione della password in tre passi, tutti firmati dall'owner:
+ * `begin` salva salt e verifier nuovi in `rooms.rotation` (la vecchia password vale ancora),
+ * `batch` sostituisce il ciphertext delle righe ricifrate nel browser,
+ * `commit` rende effettiva la nuova password. Chi non la conosce non rientra più.
+ */
+type PendingRotation = { kdfSalt: string; verifier: string; startedAt: string };
+
+function isRow(r: unknown): r is RekeyedRow {
+  const row = r as RekeyedRow | null;
+  return (
+    (row?.table === "messages" || row?.table === "reactions") &&
+    typeof row.id === "string" &&
+    typeof row.content === "string"
+  );
+}
+function validStep(step: Partial<RotateStep> | undefined): step is RotateStep {
+  switch (step?.phase) {
+    case "begin":
+      return typeof step.kdfSalt === "string" && B64_RE.test(step.kdfSalt)
+        && typeof step.verifier === "string" && B64_RE.test(step.verifier);
+    case "batch":
+      return Array.isArray(step.rows) && step.rows.length <= MAX_BATCH && step.rows.every(isRow);
+    case "commit":
+      return typeof step.verifier === "string" && B64_RE.test(step.verifier);
+    default:
+      return false;
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const body = (await req.json().catch(() => null)) as Partial<RotateRequest> | null;
+  const room = normalizeRoom(body?.room);
+  const step = body?.step;
+  if (!validStep(step)) return fail(400, "Richiesta non valida.");
+
+  const auth = await authorizeRoomAction(room, body?.proof, "rotate", step, "owner", requestClient(req));
+  if (!auth.ok) return fail(auth.status, auth.error);
+
+  const { data: roomRow, error: selErr } = await supabaseAdmin.from("rooms").select("rotation").eq("room", room).single();
+  if (selErr) return fail(500, `Errore DB (rooms): ${selErr.message}`);
+  const pending = roomRow.rotation as PendingRotation | null;
+
+  if (step.phase === "begin") {
+    if (pending) {
+      // rotazione interrotta: si riprende solo con la stessa nuova password (e il suo salt)
+      if (pending.kdfSalt !== step.kdfSalt) return fail(409, "Rotazione già avviata, riprova.", { kdfSalt: pending.kdfSalt });
+      if (!(await checkVerifier(step.verifier, pending.verifier))) {
+        return fail(409, "C'è già una rotazione in corso con un'altra password: usa quella.");
+      }
+      const res: RotateResponse = { ok: true };
+      return NextResponse.json(res);
+    }
+    const rotation: PendingRotation = {
+      kdfSalt: step.kdfSalt,
+      verifier: await hashVerifier(step.verifier),
+      startedAt: new Date().toISOString(),
+    };
+    const { error } = await supabaseAdmin.from("rooms").update({ rotation }).eq("room", room);
+    if (error) return fail(500, `Errore DB (rooms): ${error.message}`);
+    const res: RotateResponse = { ok: true };
+    return NextResponse.json(res);
+  }
+
+  if (step.phase === "batch") {
+    try {
+      await Promise.all(step.rows.map((r) => messageStore.replaceContent(r.table, room, r.id, r.content)));
+    } catch (err) {
+      return fail(500, err instanceof Error ? err.message : "Errore UPDATE.");
+    }
+    const res: RotateResponse = { ok: true, updated: step.rows.length };
+    return NextResponse.json(res);
+  }
+
+  // commit
+  if (!pending) return fail(409, "Nessuna rotazione in corso.");
+  if (!(await checkVerifier(step.verifier, pending.verifier))) return fail(401, "Password nuova non corrispondente.");
+  const { error } = await supabaseAdmin
+    .from("rooms")
+    .update({ kdf_salt: pending.kdfSalt, verifier: pending.verifier, pass_hash: null, rotation: null })
+    .eq("room", room);
+  if (error) return fail(500, `Errore DB (rooms): ${error.message}`);
+  // gli inviti custodiscono la vecchia password: non servono più
+  await supabaseAdmin.from("room_invites").delete().eq("room", room);
+  const res: RotateResponse = { ok: true };
+  return NextResponse.json(res);
+}
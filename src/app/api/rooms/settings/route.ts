@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/server/supabase-admin";
+import { authorizeRoomAction } from "@/lib/server/room-roles";
+import { requestClient } from "@/lib/server/room-access";
+import { fail, normalizeRoom } from "@/lib/server/http";
+import { isAllowedTtl } from "@/lib/ttl";
+import type { RoomSettingsRequest } from "@/lib/api";
+
+export const runtime = "nodejs";
+
+/* ========== PATCH: impostazioni della stanza (solo owner/admin) ========== */
+export async function PATCH(req: NextRequest) {
+  const body = (await req.json().catch(() => null)) as Partial<RoomSettingsRequest> | null;
+  const room = normalizeRoom(body?.room);
+  const settings = body?.settings;
+  if (!isAllowedTtl(settings?.ttlSeconds)) return fail(400, "Richiesta non valida.");
+
+  const auth = await authorizeRoomAction(room, body?.proof, "settings", settings, "admin", requestClient(req));
+  if (!auth.ok) return fail(auth.status, auth.error);
+
+  const { error } = await supabaseAdmin.from("rooms").update({ ttl_seconds: settings.ttlSeconds }).eq("room", room);
+  if (error) return fail(500, `Errore DB (rooms): ${error.message}`);
+  return NextResponse.json({ ok: true, settings: { ttlSeconds: settings.ttlSeconds } });
+}
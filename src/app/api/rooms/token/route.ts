@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkRoomAccess, requestClient } from "@/lib/server/room-access";
+import { signRoomToken } from "@/lib/server/room-token";
+import { KICKED_MESSAGE, checkDeviceProof, isKicked } from "@/lib/server/room-roles";
+import { fail, normalizeRoom } from "@/lib/server/http";
+import type { RoomTokenRequest, RoomTokenResponse } from "@/lib/api";
+
+export const runtime = "nodejs";
+
+/**
+ * ========== POST: rinnova il token di stanza prima della scadenza (stesso verifier del join) ==========
+ * Risponde 403 `code: "kicked"` a una chiave espulsa: il client lo usa anche per confermare
+ * l'avviso di espulsione ricevuto in broadcast.
+ */
+export async function POST(req: NextRequest) {
+  const body = (await req.json().catch(() => null)) as Partial<RoomTokenRequest> | null;
+  const room = normalizeRoom(body?.room);
+  const access = await checkRoomAccess(room, body?.verifier, requestClient(req));
+  if (!access.ok) return fail(access.status, access.error);
+  const device = await checkDeviceProof(room, body?.device);
+  if (!device.ok) return fail(device.status, device.error);
+  const { pk } = device;
+  try {
+    if (await isKicked(room, pk)) return fail(403, KICKED_MESSAGE, { code: "kicked" });
+  } catch (err) {
+    return fail(500, err instanceof Error ? err.message : "Errore DB.");
+  }
+
+  const res: RoomTokenResponse = { access: signRoomToken(room, pk) };
+  return NextResponse.json(res);
+}
@@ -1,6 +1,7 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
+import PwaUpdatePrompt from "@/components/PwaUpdatePrompt";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -47,6 +48,10 @@ export const metadata: Metadata = {
   manifest: "/manifest.json",
 };
 
+export const viewport: Viewport = {
+  themeColor: "#0b0f14",
+};
+
 export default function RootLayout({
   children,
 }: Readonly<{
@@ -58,6 +63,7 @@ export default function RootLayout({
         className={`${geistSans.variable} ${geistMono.variable} antialiased bg-[#0b0f14] text-slate-100`}
       >
         {children}
+        <PwaUpdatePrompt />
       </body>
     </html>
   );
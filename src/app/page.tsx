@@ -1,99 +1,197 @@
 "use client";
 
-import React, { useEffect, useMemo, useRef, useState } from "react";
-import { supabase } from "@/lib/supabase";
-import type {
-  RealtimePostgresInsertPayload,
-  RealtimeChannel,
-} from "@supabase/supabase-js";
-
-/** Modello del messaggio (in chiaro lato UI) */
-type Message = {
-  id: string;
-  room: string;
-  author: string;
-  content: string;
-  created_at: string;
-};
-
-type CipherEnvelopeV1 = {
-  v: "v1";
-  alg: "AES-GCM";
-  iv: string;   // base64
-  salt: string; // base64
-  ct: string;   // base64
-};
-
-/* ========== UI utils ========== */
-function initials(name: string) {
-  return (name || "?")
-    .split(/\s+/)
-    .map((s) => s[0])
-    .join("")
-    .slice(0, 2)
-    .toUpperCase();
-}
-function formatTime(iso: string) {
-  const d = new Date(iso);
-  return d.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
-}
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { transport, type NewRow, type RoomChannel, type RowCursor, type Subscription } from "@/lib/transport";
+import {
+  deriveAccessVerifier,
+  deriveRoomKeyring,
+  encryptMessage,
+  generateRoomSalt,
+  legacyPasswordHash,
+  type MessageBody,
+  type RoomKeyring,
+} from "@/lib/e2ee";
+import {
+  ApiError,
+  deleteAdmin,
+  getRoomInfo,
+  getRoomRoles,
+  patchRoomSettings,
+  postClearRoom,
+  postGrantAdmin,
+  postJoinRoom,
+  postKick,
+  postRoomToken,
+  type JoinRoomResponse,
+} from "@/lib/api";
+import { setRoomAccess } from "@/lib/supabase";
+import { canModerate, roleOf, signAdminProof, signDeviceProof, type AdminAction, type RoomRoles } from "@/lib/roles";
+import { loadDeviceIdentity, type DeviceIdentity } from "@/lib/identity";
+import {
+  applyUpdate,
+  groupReactions,
+  rowToMessage,
+  rowToReaction,
+  snippet,
+  withTrust,
+  type Message,
+  type MessageRow,
+  type Reaction,
+} from "@/lib/messages";
+import { initials } from "@/lib/format";
+import {
+  MAX_NICK_LENGTH,
+  authorId,
+  avatarColor,
+  buildRoster,
+  displayName,
+  loadPins,
+  normalizeNick,
+  participantId,
+  pinFirstSeen,
+  pinForNick,
+  savePin,
+  signPresence,
+  verifyPresence,
+  withParticipantId,
+  type PinMap,
+  type PresenceMeta,
+  type PresenceSighting,
+  type Sighting,
+} from "@/lib/participants";
+import {
+  DEFAULT_UI_PREFS,
+  IDLE_AFTER_MS,
+  appendPresenceEvents,
+  buildMembers,
+  isPresenceEvent,
+  loadUiPrefs,
+  mergeStream,
+  presenceChanges,
+  saveUiPrefs,
+  type Departed,
+  type Member,
+  type PresenceEvent,
+  type UiPrefs,
+} from "@/lib/members";
+import {
+  EMPTY_MODERATION,
+  applyModeration,
+  loadModeration,
+  moderationOf,
+  saveModeration,
+  type ModerationLevel,
+  type ModerationLists,
+} from "@/lib/moderation";
+import { DEFAULT_ROOM_TTL, ROOM_TTLS, isExpired, ttlLabel } from "@/lib/ttl";
+import MessageBubble from "@/components/chat/MessageBubble";
+import MessageList, { type MessageListHandle } from "@/components/chat/MessageList";
+import SafetyNumberPanel from "@/components/chat/SafetyNumberPanel";
+import PushMenu from "@/components/chat/PushMenu";
+import RotatePasswordPanel from "@/components/chat/RotatePasswordPanel";
+import InvitePanel from "@/components/chat/InvitePanel";
+import SearchPanel from "@/components/chat/SearchPanel";
+import ExportPanel from "@/components/chat/ExportPanel";
+import ArchiveImportPanel from "@/components/chat/ArchiveImportPanel";
+import ArchiveView from "@/components/chat/ArchiveView";
+import MemberPanel, { PresenceLine } from "@/components/chat/MemberPanel";
+import { buildTranscript, type Transcript } from "@/lib/transcript";
+import { buildSearchIndex, tokenize, type SearchQuery } from "@/lib/search";
+import { createTokenInvite, readInviteLink, redeemTokenInvite, scrubInviteLink } from "@/lib/invites";
+import { rotateRoomPassword, type RotationProgress } from "@/lib/rotation";
+import {
+  FRESH_REACTIONS,
+  MESSAGE_PAGE,
+  fetchMessagePage,
+  fetchMessagesSince,
+  fetchReactionsSince,
+  rowCursor,
+  type ReactionCursor,
+} from "@/lib/history";
+import { forgetThisDevice } from "@/lib/local-data";
+import {
+  disablePush,
+  dropPushKey,
+  enablePush,
+  pushAvailable,
+  sealPushPreview,
+  syncPushKey,
+  updatePush,
+  type PushSettings,
+} from "@/lib/push";
+import {
+  forgetHistory,
+  historyMatches,
+  loadHistory,
+  openHistory,
+  saveHistory,
+  verifierCheck,
+  type CachedHistory,
+  type HistoryMeta,
+} from "@/lib/offline-cache";
+import {
+  MAX_ATTEMPTS,
+  backoffDelay,
+  deliver,
+  loadOutbox,
+  removeOutboxEntry,
+  saveOutboxEntry,
+  type DeliveryResult,
+  type OutboxEntry,
+} from "@/lib/outbox";
+import {
+  MAX_ATTACHMENT_BYTES,
+  deleteAttachment,
+  formatBytes,
+  uploadAttachment,
+  type AttachmentMeta,
+} from "@/lib/attachments";
 
-/* ========== Crypto utils (E2EE) ========== */
-const textEncoder = new TextEncoder();
-const textDecoder = new TextDecoder();
-function toB64(buf: ArrayBuffer): string {
-  const bytes = new Uint8Array(buf);
-  let binary = "";
-  for (let i = 0; i < bytes.byteLength; i++) binary += String.fromCharCode(bytes[i]);
-  return btoa(binary);
-}
-function fromB64(b64: string): ArrayBuffer {
-  const binary = atob(b64);
-  const bytes = new Uint8Array(binary.length);
-  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
-  return bytes.buffer;
-}
-async function deriveKey(password: string, salt: ArrayBuffer): Promise<CryptoKey> {
-  const keyMaterial = await crypto.subtle.importKey("raw", textEncoder.encode(password), { name: "PBKDF2" }, false, ["deriveKey"]);
-  return crypto.subtle.deriveKey(
-    { name: "PBKDF2", salt, iterations: 120_000, hash: "SHA-256" },
-    keyMaterial,
-    { name: "AES-GCM", length: 256 },
-    false,
-    ["encrypt", "decrypt"]
-  );
-}
-async function encryptText(plain: string, password: string) {
-  const iv = crypto.getRandomValues(new Uint8Array(12));
-  const salt = crypto.getRandomValues(new Uint8Array(16));
-  const key = await deriveKey(password, salt.buffer);
-  const ctBuf = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, textEncoder.encode(plain));
-  const env: CipherEnvelopeV1 = { v: "v1", alg: "AES-GCM", iv: toB64(iv.buffer), salt: toB64(salt.buffer), ct: toB64(ctBuf) };
-  return env;
-}
-async function decryptTextFromEnvelope(contentField: string, password: string): Promise<string> {
-  try {
-    const env = JSON.parse(contentField) as CipherEnvelopeV1;
-    if (env?.v !== "v1" || env?.alg !== "AES-GCM") throw new Error("not-v1");
-    const iv = new Uint8Array(fromB64(env.iv));
-    const salt = fromB64(env.salt);
-    const key = await deriveKey(password, salt);
-    const ct = fromB64(env.ct);
-    const plainBuf = await crypto.subtle.decrypt({ name: "AES-GCM", iv }, key, ct);
-    return textDecoder.decode(plainBuf);
-  } catch {
-    return contentField; // compat messaggi legacy o password errata
+/**
+ * Deriva le chiavi stanza e fa verificare l'accesso a `/api/rooms/join`.
+ * Su 409 (stanza creata/migrata nel frattempo da un altro client) rilegge il salt e riprova.
+ * `ttlSeconds` conta solo se la stanza viene creata ora; il dispositivo ne diventa owner se non ne ha uno.
+ */
+async function unlockRoom(
+  room: string,
+  password: string,
+  ttlSeconds: number,
+  identity: DeviceIdentity
+): Promise<{ keyring: RoomKeyring; join: JoinRoomResponse; verifier: string }> {
+  for (let attempt = 0; ; attempt++) {
+    const info = await getRoomInfo(room);
+    const kdfSalt = info.kdfSalt ?? generateRoomSalt();
+    const keyring = await deriveRoomKeyring(password, kdfSalt);
+    const verifier = await deriveAccessVerifier(keyring);
+    try {
+      const join = await postJoinRoom({
+        room,
+        kdfSalt,
+        verifier,
+        legacyHash: info.legacy ? await legacyPasswordHash(password) : undefined,
+        ttlSeconds: info.exists ? undefined : ttlSeconds,
+        device: await signDeviceProof(identity, room),
+      });
+      return { keyring, join, verifier };
+    } catch (err) {
+      if (!(err instanceof ApiError) || err.status !== 409 || attempt >= 2) throw err;
+    }
   }
 }
 
-/* ========== Hash password stanza per tabella `rooms` ========== */
-async function hashPasswordHex(password: string): Promise<string> {
-  const buf = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(password));
-  return Array.from(new Uint8Array(buf))
-    .map((b) => b.toString(16).padStart(2, "0"))
-    .join("");
+/** Senza rete: sblocca la copia locale della stanza verificando la password sul verifier salvato */
+async function unlockOffline(room: string, password: string): Promise<{ keyring: RoomKeyring; cached: CachedHistory }> {
+  const cached = await loadHistory(room);
+  if (!cached) throw new Error("Sei offline e su questo dispositivo non c'è una copia di questa stanza.");
+  const keyring = await deriveRoomKeyring(password, cached.kdfSalt);
+  if ((await verifierCheck(await deriveAccessVerifier(keyring))) !== cached.verifierCheck) {
+    throw new Error("Password stanza sbagliata");
+  }
+  return { keyring, cached };
 }
 
+const NO_ROLES: RoomRoles = { ownerPk: null, admins: [] };
+
 /* ===================================================== */
 
 export default function ChatApp() {
@@ -104,37 +202,100 @@ export default function ChatApp() {
   const [room, setRoom] = useState("");
   const [name, setName] = useState("");
   const [pass, setPass] = useState(""); // 🔐 E2EE + password stanza
+  const [ttlChoice, setTtlChoice] = useState<number>(DEFAULT_ROOM_TTL); // solo per stanze nuove
   const [joined, setJoined] = useState(false);
+  // notifiche push della stanza corrente (null = non attive su questo dispositivo)
+  const [push, setPush] = useState<PushSettings | null>(null);
+  // scadenza dei messaggi della stanza corrente (null = stanza creata prima del TTL)
+  const [roomTtl, setRoomTtl] = useState<number | null>(null);
+  // owner/admin della stanza (chiavi dei dispositivi), decidono le azioni distruttive
+  const [roles, setRoles] = useState<RoomRoles>(NO_ROLES);
+  // avanzamento della rotazione password (null = nessuna in corso)
+  const [rotation, setRotation] = useState<RotationProgress | null>(null);
+  const [showRotate, setShowRotate] = useState(false);
+  const leaveRoomRef = useRef<() => void>(() => {});
   const [loading, setLoading] = useState(false);
 
   // Chat
   const [message, setMessage] = useState("");
   const [messages, setMessages] = useState<Message[]>([]);
-  const [onlineUsers, setOnlineUsers] = useState(0);
+  const [reactions, setReactions] = useState<Reaction[]>([]);
+  // cronologia a pagine: si parte dalle più recenti e si torna indietro scorrendo in alto
+  const [hasOlder, setHasOlder] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  // presence verificata (un avvistamento per partecipante), chi è uscito da poco e id di chi sta scrivendo
+  const [online, setOnline] = useState<PresenceSighting[]>([]);
+  const [departed, setDeparted] = useState<Departed[]>([]);
+  const [presenceEvents, setPresenceEvents] = useState<PresenceEvent[]>([]);
+  const [showMembers, setShowMembers] = useState(false);
+  const [uiPrefs, setUiPrefs] = useState<UiPrefs>(DEFAULT_UI_PREFS);
   const [typingUsers, setTypingUsers] = useState<Set<string>>(new Set());
+  // id del partecipante in questa stanza (hash di stanza + chiave del dispositivo)
+  const [selfId, setSelfId] = useState("");
+  // silenziati e bloccati da questo dispositivo (il ref serve ai callback del canale, creati al join)
+  const [moderation, setModeration] = useState<ModerationLists>(EMPTY_MODERATION);
+  const moderationRef = useRef<ModerationLists>(EMPTY_MODERATION);
+  const [renaming, setRenaming] = useState<string | null>(null);
 
   // UI feedback
   const [errMsg, setErrMsg] = useState("");
   const [infoMsg, setInfoMsg] = useState("");
-  const [linkCopied, setLinkCopied] = useState(false);
+  const [showInvite, setShowInvite] = useState(false);
+  // ricerca aperta (null = chiusa): l'indice esiste solo finché è aperta
+  const [search, setSearch] = useState<SearchQuery | null>(null);
+  const [showExport, setShowExport] = useState(false);
+  // backup cifrato aperto dalla schermata di ingresso (sola lettura, senza server)
+  const [showImport, setShowImport] = useState(false);
+  const [archive, setArchive] = useState<Transcript | null>(null);
+  // link di invito letto all'avvio: quando nome, stanza e password ci sono entro da solo
+  const [autoJoin, setAutoJoin] = useState(false);
 
   // Refs canali realtime
-  const presenceRef = useRef<RealtimeChannel | null>(null);
-  const msgChannelRef = useRef<RealtimeChannel | null>(null);
+  const presenceRef = useRef<RoomChannel | null>(null);
+  const msgChannelRef = useRef<Subscription | null>(null);
+  // Chiavi stanza (derivate una volta al join)
+  const keyringRef = useRef<RoomKeyring | null>(null);
+  // id messaggio già autenticati (anti-replay)
+  const seenIdsRef = useRef<Set<string>>(new Set());
+  // Identità del dispositivo + chiavi fissate per nome (TOFU)
+  const identityRef = useRef<DeviceIdentity | null>(null);
+  const pinsRef = useRef<PinMap>(new Map());
+  const [inspect, setInspect] = useState<{ author: string; pk: string; sid?: string } | null>(null);
+  // Messaggio in modifica / a cui si sta rispondendo nel composer
+  const [editing, setEditing] = useState<Message | null>(null);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Outbox (IndexedDB) dei messaggi non ancora confermati dal server
+  const outboxRef = useRef<Map<string, OutboxEntry>>(new Map());
+  const flushTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const flushingRef = useRef(false);
+  const flushOutboxRef = useRef<() => void>(() => {});
+  // Stanza aperta dalla copia locale (timestamp del salvataggio), senza realtime
+  const [offlineSince, setOfflineSince] = useState<string | null>(null);
+  const rejoinRef = useRef<() => void>(() => {});
+  const [highlightId, setHighlightId] = useState<string | null>(null);
+  const highlightTimerRef = useRef<NodeJS.Timeout | null>(null);
 
   const selfTypingRef = useRef(false);
+  // presence firmata di questo dispositivo + stato di inattività (ri-annunciato senza rifirmare)
+  const presenceMetaRef = useRef<PresenceMeta | null>(null);
+  const trackPresenceRef = useRef<() => void>(() => {});
+  const idleRef = useRef<{ idle: boolean; since?: string }>({ idle: false });
   const typingTimerRef = useRef<NodeJS.Timeout | null>(null);
-  const bottomRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<MessageListHandle>(null);
+  const olderCursorRef = useRef<RowCursor | null>(null);
+  // metadati in chiaro della copia locale (salt, verifier) della stanza aperta
+  const cacheMetaRef = useRef<HistoryMeta | null>(null);
+  const reactionCursorRef = useRef<ReactionCursor>(FRESH_REACTIONS);
+  const loadOlderRef = useRef<() => void>(() => {});
+  const onLoadOlder = useCallback(() => loadOlderRef.current(), []);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   // Normalizza
   const normalizedRoom = useMemo(() => room.trim().toLowerCase(), [room]);
-  const normalizedName = useMemo(() => name.trim(), [name]);
-
-  // autoscroll
-  useEffect(() => {
-    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+  const normalizedName = useMemo(() => normalizeNick(name), [name]);
 
   // cleanup on unmount
   useEffect(() => {
@@ -142,9 +303,120 @@ export default function ChatApp() {
       msgChannelRef.current?.unsubscribe();
       presenceRef.current?.unsubscribe();
       if (typingTimerRef.current) clearTimeout(typingTimerRef.current);
+      if (highlightTimerRef.current) clearTimeout(highlightTimerRef.current);
+      if (flushTimerRef.current) clearTimeout(flushTimerRef.current);
+    };
+  }, []);
+
+  useEffect(() => {
+    void loadUiPrefs().then((prefs) => {
+      setUiPrefs(prefs);
+      if (prefs.nick) setName((cur) => cur || prefs.nick!);
+    });
+  }, []);
+
+  // inattivo con la scheda nascosta o dopo IDLE_AFTER_MS senza input; lo stato viaggia nella presence
+  useEffect(() => {
+    if (!joined) return;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let lastActivity = 0;
+    const setIdle = (idle: boolean) => {
+      if (idleRef.current.idle === idle) return;
+      idleRef.current = idle ? { idle, since: new Date().toISOString() } : { idle };
+      trackPresenceRef.current();
+    };
+    const onActivity = () => {
+      if (document.visibilityState === "hidden" || Date.now() - lastActivity < 1000) return;
+      lastActivity = Date.now();
+      setIdle(false);
+      clearTimeout(timer);
+      timer = setTimeout(() => setIdle(true), IDLE_AFTER_MS);
+    };
+    const onVisibility = () => {
+      if (document.visibilityState !== "hidden") return onActivity();
+      clearTimeout(timer);
+      setIdle(true);
     };
+    const events = ["pointerdown", "pointermove", "keydown", "wheel", "focus"] as const;
+    for (const ev of events) window.addEventListener(ev, onActivity, { passive: true });
+    document.addEventListener("visibilitychange", onVisibility);
+    onActivity();
+    return () => {
+      clearTimeout(timer);
+      for (const ev of events) window.removeEventListener(ev, onActivity);
+      document.removeEventListener("visibilitychange", onVisibility);
+    };
+  }, [joined]);
+
+  /*
+   * link di invito: precompilo il form (password dal fragment o riscattando il token) e ripulisco
+   * l'URL. Si entra da soli se il nome c'è già, dal link o dall'ultimo nickname usato su questo
+   * dispositivo: altrimenti lo si scrive e si preme "Entra", invece di entrare alla prima lettera.
+   */
+  useEffect(() => {
+    const invite = readInviteLink(window.location);
+    if (!invite) return;
+    scrubInviteLink();
+    setRoom(invite.room);
+    if (invite.name) setName(invite.name);
+    const password = invite.password
+      ? Promise.resolve(invite.password)
+      : invite.token && redeemTokenInvite(invite.room, invite.token);
+    if (!password) return;
+    const named = invite.name ? Promise.resolve(true) : loadUiPrefs().then((prefs) => Boolean(prefs.nick));
+    Promise.all([password, named])
+      .then(([pw, auto]) => {
+        setPass(pw);
+        setAutoJoin(auto);
+      })
+      .catch((err) => setErrMsg(err instanceof Error ? err.message : "Invito non valido."));
   }, []);
 
+  useEffect(() => {
+    if (!autoJoin || joined || loading || !name.trim() || !room.trim() || !pass) return;
+    setAutoJoin(false);
+    rejoinRef.current();
+  }, [autoJoin, joined, loading, name, room, pass]);
+
+  // messaggi a scadenza: li tolgo dalla vista appena scadono, senza aspettare il purge
+  useEffect(() => {
+    if (!joined || roomTtl === null) return;
+    const sweep = () =>
+      setMessages((prev) => {
+        const now = Date.now();
+        const next = prev.filter((m) => !isExpired(m.created_at, roomTtl, now));
+        return next.length === prev.length ? prev : next;
+      });
+    sweep();
+    const t = setInterval(sweep, 30_000);
+    return () => clearInterval(t);
+  }, [joined, roomTtl]);
+
+  // copia locale cifrata della stanza aperta, aggiornata poco dopo ogni cambiamento
+  useEffect(() => {
+    const keyring = keyringRef.current;
+    const meta = cacheMetaRef.current;
+    if (!joined || offlineSince || !keyring || !meta) return;
+    const t = setTimeout(() => {
+      const oldestSent = messages.find((m) => !m.delivery);
+      void saveHistory({ ...meta, ttlSeconds: roomTtl }, keyring, {
+        messages,
+        reactions,
+        olderCursor: hasOlder && oldestSent ? rowCursor(oldestSent) : null,
+        reactionCursor: reactionCursorRef.current,
+      });
+    }, 800);
+    return () => clearTimeout(t);
+  }, [joined, offlineSince, messages, reactions, hasOlder, roomTtl]);
+
+  // tornati online: ritenta subito l'outbox
+  useEffect(() => {
+    if (!joined) return;
+    const onOnline = () => (offlineSince ? rejoinRef.current() : flushOutboxRef.current());
+    window.addEventListener("online", onOnline);
+    return () => window.removeEventListener("online", onOnline);
+  }, [joined, offlineSince]);
+
   /* ========== JOIN ========== */
   async function joinRoom(e?: React.FormEvent) {
     e?.preventDefault?.();
@@ -160,164 +432,865 @@ export default function ChatApp() {
     msgChannelRef.current?.unsubscribe();
     presenceRef.current?.unsubscribe();
     setMessages([]);
+    setReactions([]);
 
     setLoading(true);
 
-    /* 1) Verifica/crea stanza su tabella `rooms` con hash password */
+    /* 1) Derivo le chiavi stanza (una sola PBKDF2) e verifico l'accesso lato server */
+    const identity = await loadDeviceIdentity();
+    const sid = await participantId(normalizedRoom, identity.pk);
+    let keyring: RoomKeyring;
+    let online: { kdfSalt: string; verifier: string; ttlSeconds: number | null; clearedAt: string | null } | null = null;
+    let cached: CachedHistory | null = null;
     try {
-      const passHash = await hashPasswordHex(pass);
-
-      const { data: existing, error: roomSelErr } = await supabase
-        .from("rooms")
-        .select("room, pass_hash")
-        .eq("room", normalizedRoom)
-        .maybeSingle();
-
-      if (roomSelErr) {
-        setErrMsg(`Errore DB (rooms): ${roomSelErr.message}`);
+      const { keyring: unlocked, join, verifier } = await unlockRoom(normalizedRoom, pass, ttlChoice, identity);
+      keyring = unlocked;
+      setRoles(join.roles);
+      online = { kdfSalt: join.kdfSalt, verifier, ttlSeconds: join.ttlSeconds, clearedAt: join.clearedAt };
+      // token della stanza per le policy RLS: si rinnova da solo con lo stesso verifier
+      const tokenRoom = normalizedRoom;
+      setRoomAccess(join.access, async () => {
+        const device = await signDeviceProof(identity, tokenRoom);
+        return (await postRoomToken({ room: tokenRoom, verifier, device })).access;
+      });
+      if (join.created) setInfoMsg("Stanza creata. Condividi ID stanza e password con chi vuoi.");
+    } catch (err) {
+      if (err instanceof ApiError) {
+        setErrMsg(err.message);
+        setLoading(false);
+        return;
+      }
+      // server irraggiungibile: provo la copia locale della cronologia
+      try {
+        ({ keyring, cached } = await unlockOffline(normalizedRoom, pass));
+        setRoles(NO_ROLES); // offline niente azioni riservate
+      } catch (offlineErr) {
+        setErrMsg(offlineErr instanceof Error ? offlineErr.message : "Errore durante la verifica della password stanza.");
         setLoading(false);
         return;
       }
+    }
 
-      if (!existing) {
-        // stanza non esiste: la creo con l'hash della password attuale
-        const { error: insErr } = await supabase
-          .from("rooms")
-          .insert({ room: normalizedRoom, pass_hash: passHash });
-        if (insErr) {
-          setErrMsg(`Errore creazione stanza: ${insErr.message}`);
-          setLoading(false);
-          return;
-        }
-        setInfoMsg("Stanza creata. Condividi ID stanza e password con chi vuoi.");
-      } else {
-        // stanza esiste: confronto hash
-        if (existing.pass_hash !== passHash) {
-          setErrMsg("Password stanza sbagliata");
-          setLoading(false);
-          return;
+    /* 2) Carico messaggi, decifro e verifico le firme */
+    const seen = new Set<string>();
+    const pins = await loadPins(normalizedRoom);
+    keyringRef.current = keyring;
+    setPush(await syncPushKey(normalizedRoom, keyring));
+    setModeration(await loadModeration(normalizedRoom));
+    seenIdsRef.current = seen;
+    identityRef.current = identity;
+    pinsRef.current = pins;
+    setSelfId(sid);
+    changeUiPrefs({ nick: normalizedName });
+
+    /* 2a) Prima la copia locale: già decifrata, si mostra subito */
+    const meta: HistoryMeta = online
+      ? {
+          room: normalizedRoom,
+          kdfSalt: online.kdfSalt,
+          verifierCheck: await verifierCheck(online.verifier),
+          ttlSeconds: online.ttlSeconds,
+          clearedAt: online.clearedAt,
         }
-      }
-    } catch {
-      setErrMsg("Errore durante la verifica della password stanza.");
+      : {
+          room: normalizedRoom,
+          kdfSalt: cached!.kdfSalt,
+          verifierCheck: cached!.verifierCheck,
+          ttlSeconds: cached!.ttlSeconds,
+          clearedAt: cached!.clearedAt ?? null,
+        };
+    cacheMetaRef.current = meta;
+    cached ??= (await loadHistory(normalizedRoom)) ?? null;
+    // dopo un cambio password o un "Elimina cronologia" la copia vecchia non serve più
+    const current = cached && historyMatches(cached, meta);
+    if (cached && !current) await forgetHistory(normalizedRoom);
+    const snapshot = current ? await openHistory(cached!, keyring) : null;
+    if (!online && !snapshot) {
+      setErrMsg("La copia locale di questa stanza non è leggibile: serve la rete per rientrare.");
       setLoading(false);
       return;
     }
+    setOfflineSince(online ? null : cached!.savedAt);
+    const ttl = meta.ttlSeconds;
+    setRoomTtl(ttl);
 
-    /* 2) Carico messaggi e decrifro con la password fornita */
-    const { data, error } = await supabase
-      .from("messages")
-      .select("id, room, author, content, created_at")
-      .eq("room", normalizedRoom)
-      .order("created_at", { ascending: true })
-      .limit(200);
+    // scaduti ma non ancora cancellati dal purge (o ancora nella copia locale)
+    const cachedHistory = (await Promise.all((snapshot?.messages ?? []).map(withParticipantId)))
+      .filter((m) => !isExpired(m.created_at, ttl));
+    pinFirstSeen(pins, cachedHistory);
+    const history = cachedHistory.map((m) => withTrust(m, pins));
+    const cachedReactions = await Promise.all((snapshot?.reactions ?? []).map(withParticipantId));
+    for (const item of [...history, ...cachedReactions]) seen.add(item.id);
+    olderCursorRef.current = online ? (snapshot?.olderCursor ?? null) : null; // offline solo la copia locale
+    reactionCursorRef.current = snapshot?.reactionCursor ?? FRESH_REACTIONS;
 
-    if (error) {
-      setErrMsg(`Errore Supabase SELECT: ${error.message}`);
+    // outbox di sessioni precedenti: via quelli già arrivati, gli altri tornano in coda
+    const historyIds = new Set(history.map((m) => m.id));
+    const outbox = new Map<string, OutboxEntry>();
+    const queued: Message[] = [];
+    for (const entry of await loadOutbox(normalizedRoom)) {
+      if (historyIds.has(entry.id)) {
+        void removeOutboxEntry(entry);
+        continue;
+      }
+      const local = await rowToMessage({ ...entry, created_at: entry.createdAt }, keyring);
+      if (!local) continue;
+      outbox.set(entry.id, entry);
+      queued.push({ ...withTrust(local, pins), delivery: entry.status });
+    }
+    outboxRef.current = outbox;
+
+    setMessages([...history, ...queued]);
+    setReactions(cachedReactions);
+    setHasOlder(olderCursorRef.current !== null);
+    if (snapshot) {
+      setJoined(true);
       setLoading(false);
-      return;
     }
 
-    const dec = await Promise.all(
-      (data ?? []).map(async (m) => ({
-        id: m.id as string,
-        room: m.room as string,
-        author: m.author as string,
-        content: await decryptTextFromEnvelope(m.content as string, pass),
-        created_at: m.created_at as string,
-      }))
-    );
+    /*
+     * 2b) Dal server la finestra della copia locale riletta per intero, più le novità: modifiche,
+     * ritiri, scadenze e cancellazioni avvenute mentre la stanza era chiusa non arrivano in realtime
+     */
+    if (online) {
+      let rows: MessageRow[];
+      let reactionRows: MessageRow[];
+      let revalidated = true; // false = server irraggiungibile, resta la copia com'è
+      try {
+        const range = history.length
+          ? await fetchMessagesSince(normalizedRoom, rowCursor(history[0]), history.length + MESSAGE_PAGE)
+          : null;
+        if (range?.complete) {
+          rows = range.rows;
+        } else {
+          // niente copia o troppi messaggi nuovi: la copia non è più contigua, si riparte dalle ultime
+          const page = range ? { rows: range.rows, hasOlder: true } : await fetchMessagePage(normalizedRoom);
+          rows = page.rows;
+          olderCursorRef.current = page.hasOlder ? rowCursor(page.rows[0]) : null;
+        }
+        // una reazione non è mai più vecchia del suo messaggio: bastano quelle dal primo in poi
+        const reactionPage = await fetchReactionsSince(normalizedRoom, rows[0]?.created_at, FRESH_REACTIONS);
+        reactionRows = reactionPage.rows;
+        reactionCursorRef.current = reactionPage.cursor;
+      } catch (err) {
+        setErrMsg(err instanceof Error ? err.message : "Errore nel caricamento dei messaggi.");
+        setLoading(false);
+        if (!snapshot) return;
+        rows = [];
+        reactionRows = [];
+        revalidated = false;
+      }
+      if (keyringRef.current !== keyring) return; // uscito (o rientrato) nel frattempo
+
+      rows = rows.filter((m) => !isExpired(m.created_at, ttl));
+      const cachedById = new Map(history.map((m) => [m.id, m]));
+      const cachedReactionsById = new Map(cachedReactions.map((r) => [r.id, r]));
+      const [dec, decReactions] = await Promise.all([
+        Promise.all(
+          rows.map(async (m) => {
+            const known = cachedById.get(m.id);
+            if (!known) return rowToMessage(m, keyring, seen);
+            // già in copia: come un UPDATE in realtime, niente anti-replay e niente rollback
+            const updated = await rowToMessage(m, keyring);
+            return updated && applyUpdate(known, withTrust(updated, pins));
+          })
+        ),
+        Promise.all(reactionRows.map((r) => cachedReactionsById.get(r.id) ?? rowToReaction(r, keyring, seen))),
+      ]);
+
+      // in ordine cronologico: il primo messaggio firmato di un nome ne fissa la chiave
+      const decrypted = dec.filter((m): m is Message => m !== null);
+      pinFirstSeen(pins, decrypted);
+      const incoming = decrypted.map((m) => withTrust(m, pins));
+      const changed = Array.from(
+        new Set(incoming.filter((m) => m.trust === "changed" && !cachedById.has(m.id)).map((m) => m.author))
+      );
+      if (changed.length) warnKeyChanged(changed);
+      const incomingReactions = decReactions.filter((r): r is Reaction => r !== null);
+
+      // i messaggi in coda arrivati al server escono dall'outbox
+      const incomingIds = new Set(incoming.map((m) => m.id));
+      for (const id of incomingIds) {
+        const entry = outboxRef.current.get(id);
+        if (!entry) continue;
+        outboxRef.current.delete(id);
+        void removeOutboxEntry(entry);
+      }
+      // la finestra riletta sostituisce la copia: quello che il server non ha più sparisce
+      setMessages((prev) => {
+        const rest = prev.filter((m) => !incomingIds.has(m.id) && (!revalidated || m.delivery));
+        return [...rest.filter((m) => !m.delivery), ...incoming, ...rest.filter((m) => m.delivery)];
+      });
+      if (revalidated) setReactions(incomingReactions);
+      setHasOlder(olderCursorRef.current !== null);
+    }
 
-    setMessages(dec);
     setJoined(true);
     setLoading(false);
+    if (outboxRef.current.size) flushOutbox();
+    // offline niente realtime: al ritorno della rete si rientra (vedi effetto "online")
+    if (!online) return;
 
     /* 3) Realtime messaggi */
-    const msgCh = supabase
-      .channel(`room:${normalizedRoom}`)
-      .on(
-        "postgres_changes",
-        { event: "INSERT", schema: "public", table: "messages", filter: `room=eq.${normalizedRoom}` },
-        async (payload: RealtimePostgresInsertPayload<any>) => {
-          const plain = await decryptTextFromEnvelope(payload.new.content as string, pass);
-          const newMsg: Message = {
-            id: payload.new.id as string,
-            room: payload.new.room as string,
-            author: payload.new.author as string,
-            content: plain,
-            created_at: payload.new.created_at as string,
-          };
-          setMessages((prev) => [...prev, newMsg]);
-        }
-      )
-      .on(
-        "postgres_changes",
-        { event: "DELETE", schema: "public", table: "messages", filter: `room=eq.${normalizedRoom}` },
-        () => setMessages([])
-      )
-      .subscribe();
-    msgChannelRef.current = msgCh;
+    const onMessageInsert = async (row: MessageRow) => {
+      const decrypted = await rowToMessage(row, keyring, seen);
+      if (!decrypted) return; // replay: già visto, lo scarto
+      pinFirstSeen(pins, [decrypted]);
+      const newMsg = withTrust(decrypted, pins);
+      if (newMsg.trust === "changed") warnKeyChanged([newMsg.author]);
+      // eco di un nostro messaggio dall'outbox: stesso id, lo sostituisco al posto giusto
+      setMessages((prev) =>
+        prev.some((m) => m.id === newMsg.id)
+          ? prev.map((m) => (m.id === newMsg.id ? newMsg : m))
+          : [...prev, newMsg]
+      );
+      const queuedEntry = outboxRef.current.get(newMsg.id);
+      if (queuedEntry) {
+        outboxRef.current.delete(newMsg.id);
+        void removeOutboxEntry(queuedEntry);
+      }
+    };
 
-    /* 4) Presence + typing */
-    const presenceCh = supabase.channel(`presence:${normalizedRoom}`, {
-      config: { presence: { key: normalizedName } },
+    msgChannelRef.current = transport.subscribe(normalizedRoom, {
+      onInsert: async (table, row) => {
+        if (table === "messages") return onMessageInsert(row);
+        /* reazioni: stessa busta cifrata, tabella separata */
+        const reaction = await rowToReaction(row, keyring, seen);
+        if (!reaction) return;
+        setReactions((prev) => [...prev, reaction]);
+      },
+      onUpdate: async (table, row) => {
+        if (table !== "messages") return;
+        // niente anti-replay: una modifica ricifra lo stesso id
+        const decrypted = await rowToMessage(row, keyring);
+        if (!decrypted) return;
+        const updated = withTrust(decrypted, pins);
+        setMessages((prev) => prev.map((m) => (m.id === updated.id ? applyUpdate(m, updated) : m)));
+      },
+      onDelete: (table, id) => {
+        if (table === "messages") setMessages((prev) => prev.filter((m) => m.id !== id));
+        else setReactions((prev) => prev.filter((r) => r.id !== id));
+      },
     });
 
-    presenceCh
-      .on("presence", { event: "sync" }, () => {
-        const state = presenceCh.presenceState();
-        setOnlineUsers(Object.keys(state).length);
-      })
-      .on("broadcast", { event: "typing" }, ({ payload }) => {
-        const { name: who, typing } = payload as { name: string; typing: boolean };
-        if (!who || who === normalizedName) return;
-        setTypingUsers((prev) => {
-          const next = new Set(prev);
-          typing ? next.add(who) : next.delete(who);
-          return next;
+    /* 4) Presence + typing */
+    const { verifier } = online;
+    // chiave presence = id del partecipante: due "Luca" restano due voci distinte
+    let presenceSeq = 0;
+    let lastOnline: PresenceSighting[] | null = null; // null = primo stato: i presenti non sono "ingressi"
+    let clearedAt = online.clearedAt; // ultima cancellazione confermata dal server
+    // avvisi di espulsione: esco solo se il server rifiuta un token nuovo per questa chiave
+    const confirmKicked = () =>
+      signDeviceProof(identity, normalizedRoom)
+        .then((device) => postRoomToken({ room: normalizedRoom, verifier, device }))
+        .catch((err) => {
+          if (!(err instanceof ApiError) || err.body.code !== "kicked") return;
+          leaveRoomRef.current();
+          setErrMsg(err.message);
         });
-      })
-      .on("broadcast", { event: "room_cleared" }, () => {
-        setMessages([]);
-        setTypingUsers(new Set());
-        setInfoMsg("messaggi stanza cancellati");
-      })
-      .subscribe((status) => {
-        if (status === "SUBSCRIBED") presenceCh.track({ online_at: new Date().toISOString() });
-      });
+    const presenceCh = transport.openRoomChannel(normalizedRoom, sid, {
+      onPresence: (state) => {
+        const seq = ++presenceSeq;
+        void verifyPresence(normalizedRoom, state).then((seen) => {
+          if (seq !== presenceSeq) return; // verifiche più lente di uno stato successivo: scartate
+          const events = presenceChanges(lastOnline, seen, sid);
+          const now = new Date().toISOString();
+          const gone = (lastOnline ?? []).filter((s) => !seen.some((n) => n.id === s.id));
+          lastOnline = seen;
+          setOnline(seen);
+          setPresenceEvents((prev) => appendPresenceEvents(prev, events));
+          if (gone.length) {
+            setDeparted((prev) => [
+              ...prev.filter((d) => !gone.some((g) => g.id === d.id)),
+              ...gone.map((g) => ({ id: g.id, nick: g.nick, pk: g.pk, at: now })),
+            ]);
+          }
+        });
+      },
+      onSubscribed: () =>
+        void signPresence(identity, normalizedRoom, normalizedName).then((meta) => {
+          presenceMetaRef.current = meta;
+          presenceCh.track({ ...meta, ...idleRef.current });
+        }),
+      onBroadcast: (event, payload) => {
+        switch (event) {
+          case "typing": {
+            const { sid: who, typing } = payload as { sid: string; typing: boolean };
+            if (typeof who !== "string" || !who || who === sid) return;
+            if (moderationOf(moderationRef.current, who)) return; // silenziati e bloccati: ignorati
+            setTypingUsers((prev) => {
+              const next = new Set(prev);
+              if (typing) next.add(who);
+              else next.delete(who);
+              return next;
+            });
+            return;
+          }
+          // avvisi non firmati (il canale lo può usare chiunque): decide lo stato sul server
+          case "room_cleared":
+            getRoomInfo(normalizedRoom)
+              .then((info) => {
+                const at = info.clearedAt;
+                if (!at || (clearedAt && at <= clearedAt)) return;
+                clearedAt = at;
+                setMessages((prev) => prev.filter((m) => m.created_at > at));
+                setReactions((prev) => prev.filter((r) => r.created_at > at));
+                setTypingUsers(new Set());
+                setPresenceEvents([]);
+                setInfoMsg("messaggi stanza cancellati");
+              })
+              .catch(() => {});
+            return;
+          // solo un avviso: i dati veri li rileggo dalle route
+          case "roles_changed":
+            getRoomRoles(normalizedRoom).then(setRoles).catch(() => {});
+            return;
+          case "password_rotating":
+            if ((payload as { by?: string })?.by === sid) return;
+            getRoomInfo(normalizedRoom)
+              .then((info) => {
+                if (!info.rotating && info.kdfSalt === online.kdfSalt) return;
+                leaveRoomRef.current();
+                setPass("");
+                setErrMsg("La password della stanza sta cambiando: chiedi quella nuova all'owner e rientra.");
+              })
+              .catch(() => {});
+            return;
+          case "settings_changed":
+            getRoomInfo(normalizedRoom).then((info) => setRoomTtl(info.ttlSeconds)).catch(() => {});
+            return;
+          // avviso non firmato: prima di uscire chiedo al server se questa chiave è davvero espulsa
+          case "kicked":
+            if ((payload as { sid?: string })?.sid !== sid) {
+              getRoomRoles(normalizedRoom).then(setRoles).catch(() => {}); // se era admin, non lo è più
+              return;
+            }
+            void confirmKicked();
+            return;
+        }
+      },
+      onKicked: () => void confirmKicked(),
+    });
 
     presenceRef.current = presenceCh;
   }
 
+  rejoinRef.current = () => void joinRoom();
+  leaveRoomRef.current = () => leaveRoom();
+
   /* ========== SEND ========== */
   async function sendMessage() {
     setErrMsg("");
     setInfoMsg("");
     const text = message.trim();
-    if (!text || !normalizedRoom || !normalizedName || !pass) return;
+    const keyring = keyringRef.current;
+    const file = editing ? null : pendingFile;
+    // un messaggio può essere solo allegato; in modifica l'allegato resta quello originale
+    if ((!text && !file && !editing?.attachment) || !normalizedRoom || !normalizedName || !keyring) return;
 
     setMessage("");
     sendTyping(false);
 
+    if (editing) {
+      const target = editing;
+      setEditing(null);
+      const ok = await rewriteMessage(target, {
+        text,
+        replyTo: target.replyTo,
+        attachment: target.attachment,
+        edited: new Date().toISOString(),
+      });
+      if (!ok) {
+        setEditing(target);
+        setMessage(text);
+      }
+      return;
+    }
+
+    const replyTo = replyingTo?.id;
+    setReplyingTo(null);
+    setPendingFile(null);
+
     try {
-      const env = await encryptText(text, pass);
-      const { error } = await supabase.from("messages").insert({
+      let attachment: AttachmentMeta | undefined;
+      if (file) {
+        setUploading(true);
+        try {
+          attachment = await uploadAttachment(normalizedRoom, file);
+        } catch (err) {
+          setErrMsg(`Errore upload allegato: ${err instanceof Error ? err.message : "sconosciuto"}`);
+          setMessage(text);
+          setPendingFile(file);
+          return;
+        } finally {
+          setUploading(false);
+        }
+      }
+      const body = { text, replyTo, attachment };
+      const env = await encryptMessage(body, keyring, { room: normalizedRoom, author: normalizedName }, identityRef.current ?? undefined);
+      const preview = await sealPushPreview(body, keyring, { room: normalizedRoom, author: normalizedName, id: env.mid });
+      // in coda (IndexedDB) e subito a schermo come "in invio"; l'outbox pensa ai tentativi
+      const entry: OutboxEntry = {
+        id: env.mid,
         room: normalizedRoom,
         author: normalizedName,
         content: JSON.stringify(env),
-      });
-      if (error) {
-        setErrMsg(`Errore Supabase INSERT: ${error.message}`);
-        setMessage(text);
-        textareaRef.current?.focus();
+        preview,
+        createdAt: env.ts,
+        status: "pending",
+        attempts: 0,
+        nextAttemptAt: Date.now(),
+      };
+      outboxRef.current.set(entry.id, entry);
+      await saveOutboxEntry(entry);
+      const local = await rowToMessage({ ...entry, created_at: entry.createdAt }, keyring);
+      if (local) {
+        listRef.current?.scrollToLatest();
+        setMessages((prev) => [...prev, { ...withTrust(local, pinsRef.current), delivery: "pending" }]);
       }
+      flushOutbox();
     } catch {
       setErrMsg("Errore durante la cifratura del messaggio.");
       setMessage(text);
+      setPendingFile(file);
       textareaRef.current?.focus();
     }
   }
 
+  /* ========== OUTBOX ========== */
+  function setDelivery(id: string, delivery: Message["delivery"]) {
+    setMessages((prev) => prev.map((m) => (m.id === id ? { ...m, delivery } : m)));
+  }
+
+  /** Invia le voci in scadenza; riprogramma il timer sulla prossima */
+  async function flushOutbox() {
+    if (flushTimerRef.current) clearTimeout(flushTimerRef.current);
+    flushTimerRef.current = null;
+    if (flushingRef.current) return;
+    flushingRef.current = true;
+    try {
+      for (const entry of Array.from(outboxRef.current.values())) {
+        if (entry.status !== "pending" || entry.nextAttemptAt > Date.now()) continue;
+        if (typeof navigator !== "undefined" && !navigator.onLine) break; // riparte con l'evento "online"
+        const res: DeliveryResult = await deliver(entry).catch((err) => ({ ok: false as const, error: String(err) }));
+        if (!outboxRef.current.has(entry.id)) continue; // scartato nel frattempo
+        if (res.ok) {
+          outboxRef.current.delete(entry.id);
+          void removeOutboxEntry(entry);
+          setDelivery(entry.id, undefined);
+          continue;
+        }
+        if (res.retryAfter !== undefined) {
+          // rate limit: il tentativo non conta, si aspetta quanto chiede il server (anche per le voci dopo)
+          const next: OutboxEntry = { ...entry, lastError: res.error, nextAttemptAt: Date.now() + res.retryAfter * 1000 };
+          outboxRef.current.set(entry.id, next);
+          void saveOutboxEntry(next);
+          setErrMsg(res.error);
+          break;
+        }
+        const attempts = entry.attempts + 1;
+        const next: OutboxEntry = {
+          ...entry,
+          attempts,
+          lastError: res.error,
+          status: res.permanent || attempts >= MAX_ATTEMPTS ? "failed" : "pending",
+          nextAttemptAt: Date.now() + backoffDelay(attempts),
+        };
+        outboxRef.current.set(entry.id, next);
+        void saveOutboxEntry(next);
+        if (next.status === "failed") setDelivery(entry.id, "failed");
+        if (res.permanent) setErrMsg(res.error);
+      }
+    } finally {
+      flushingRef.current = false;
+    }
+    const due = Array.from(outboxRef.current.values()).filter((e) => e.status === "pending");
+    if (due.length) {
+      const wait = Math.max(0, Math.min(...due.map((e) => e.nextAttemptAt)) - Date.now());
+      flushTimerRef.current = setTimeout(() => flushOutboxRef.current(), wait);
+    }
+  }
+  flushOutboxRef.current = () => void flushOutbox();
+
+  function resendMessage(m: Message) {
+    const entry = outboxRef.current.get(m.id);
+    if (!entry) return;
+    const next: OutboxEntry = { ...entry, status: "pending", attempts: 0, nextAttemptAt: Date.now() };
+    outboxRef.current.set(m.id, next);
+    void saveOutboxEntry(next);
+    setDelivery(m.id, "pending");
+    flushOutbox();
+  }
+
+  function discardMessage(m: Message) {
+    const entry = outboxRef.current.get(m.id);
+    if (entry) {
+      outboxRef.current.delete(m.id);
+      void removeOutboxEntry(entry);
+    }
+    setMessages((prev) => prev.filter((x) => x.id !== m.id));
+    if (m.attachment) void deleteAttachment(m.attachment);
+  }
+
+  /** Allegato scelto dal composer: il limite di dimensione si controlla subito */
+  function pickFile(file: File | undefined) {
+    if (!file) return;
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      setErrMsg(`File troppo grande (max ${formatBytes(MAX_ATTACHMENT_BYTES)}).`);
+      return;
+    }
+    setErrMsg("");
+    setPendingFile(file);
+  }
+
+  /* ========== EDIT / RITIRO ========== */
+  /** Ricifra un proprio messaggio con lo stesso id e ts; gli altri lo ricevono via UPDATE */
+  async function rewriteMessage(target: Message, body: MessageBody): Promise<boolean> {
+    const keyring = keyringRef.current;
+    if (!keyring || !target.sent_at) return false;
+    let content: string;
+    try {
+      const env = await encryptMessage(
+        body,
+        keyring,
+        { room: target.room, author: target.author, id: target.id, ts: target.sent_at },
+        identityRef.current ?? undefined
+      );
+      content = JSON.stringify(env);
+    } catch {
+      setErrMsg("Errore durante la cifratura del messaggio.");
+      return false;
+    }
+    try {
+      await transport.update("messages", { room: target.room, id: target.id, author: target.author }, content);
+      return true;
+    } catch (err) {
+      setErrMsg(err instanceof Error ? err.message : "Errore UPDATE.");
+      return false;
+    }
+  }
+
+  function startEdit(m: Message) {
+    setReplyingTo(null);
+    setEditing(m);
+    setMessage(m.content);
+    textareaRef.current?.focus();
+  }
+  function cancelEdit() {
+    setEditing(null);
+    setMessage("");
+  }
+
+  async function retractMessage(m: Message) {
+    if (!window.confirm("Ritirare questo messaggio? Resterà solo un segnaposto.")) return;
+    setErrMsg("");
+    if (editing?.id === m.id) cancelEdit();
+    const ok = await rewriteMessage(m, { text: "", deleted: true });
+    if (ok && m.attachment) void deleteAttachment(m.attachment);
+  }
+
+  /* ========== REAZIONI ========== */
+  /** Aggiunge la reazione o, se è già la propria, la toglie */
+  async function toggleReaction(m: Message, emoji: string) {
+    const keyring = keyringRef.current;
+    if (!keyring) return;
+    setErrMsg("");
+    const own = reactionsByMessage.get(m.id)?.find((g) => g.emoji === emoji)?.mine;
+    if (own) {
+      try {
+        await transport.remove("reactions", { room: normalizedRoom, id: own.id });
+        setReactions((prev) => prev.filter((r) => r.id !== own.id));
+      } catch (err) {
+        setErrMsg(err instanceof Error ? err.message : "Errore DELETE.");
+      }
+      return;
+    }
+    let row: NewRow;
+    try {
+      const env = await encryptMessage(
+        { text: "", reaction: { to: m.id, emoji } },
+        keyring,
+        { room: normalizedRoom, author: normalizedName },
+        identityRef.current ?? undefined
+      );
+      row = { id: env.mid, room: normalizedRoom, author: normalizedName, content: JSON.stringify(env) };
+    } catch {
+      setErrMsg("Errore durante la cifratura della reazione.");
+      return;
+    }
+    try {
+      await transport.insert("reactions", row);
+    } catch (err) {
+      setErrMsg(err instanceof Error ? err.message : "Errore INSERT.");
+    }
+  }
+
+  /* ========== CRONOLOGIA PRECEDENTE ========== */
+  async function loadOlderMessages() {
+    const keyring = keyringRef.current;
+    const before = olderCursorRef.current;
+    if (!keyring || !before) return;
+    olderCursorRef.current = null; // una pagina alla volta, anche con molti eventi di scroll ravvicinati
+    setLoadingOlder(true);
+    try {
+      const page = await fetchMessagePage(normalizedRoom, before);
+      const reactionPage = await fetchReactionsSince(normalizedRoom, page.rows[0]?.created_at, reactionCursorRef.current);
+      if (keyringRef.current !== keyring) return; // uscito (o rientrato) nel frattempo
+
+      const seen = seenIdsRef.current;
+      const rows = page.rows.filter((m) => !isExpired(m.created_at, roomTtl));
+      const [dec, decReactions] = await Promise.all([
+        Promise.all(rows.map((m) => rowToMessage(m, keyring, seen))),
+        Promise.all(reactionPage.rows.map((r) => rowToReaction(r, keyring, seen))),
+      ]);
+      const decrypted = dec.filter((m): m is Message => m !== null);
+      pinFirstSeen(pinsRef.current, decrypted);
+      const older = decrypted.map((m) => withTrust(m, pinsRef.current));
+      const changed = Array.from(new Set(older.filter((m) => m.trust === "changed").map((m) => m.author)));
+      if (changed.length) warnKeyChanged(changed);
+
+      olderCursorRef.current = page.hasOlder ? rowCursor(page.rows[0]) : null;
+      reactionCursorRef.current = reactionPage.cursor;
+      setHasOlder(page.hasOlder);
+      setMessages((prev) => {
+        const known = new Set(prev.map((m) => m.id));
+        return [...older.filter((m) => !known.has(m.id)), ...prev];
+      });
+      setReactions((prev) => {
+        const known = new Set(prev.map((r) => r.id));
+        return [...decReactions.filter((r): r is Reaction => r !== null && !known.has(r.id)), ...prev];
+      });
+    } catch (err) {
+      if (keyringRef.current === keyring) olderCursorRef.current = before;
+      setErrMsg(err instanceof Error ? err.message : "Errore nel caricamento dei messaggi precedenti.");
+    } finally {
+      setLoadingOlder(false);
+    }
+  }
+  loadOlderRef.current = () => void loadOlderMessages();
+
+  /* ========== RISPOSTE ========== */
+  function startReply(m: Message) {
+    if (editing) cancelEdit();
+    setReplyingTo(m);
+    textareaRef.current?.focus();
+  }
+
+  /** Scorre al messaggio e lo evidenzia per un attimo */
+  function jumpTo(id: string) {
+    if (!listRef.current?.scrollToMessage(id)) {
+      setInfoMsg("Il messaggio originale non è tra quelli caricati: scorri più in alto per caricarlo.");
+      return;
+    }
+    setHighlightId(id);
+    if (highlightTimerRef.current) clearTimeout(highlightTimerRef.current);
+    highlightTimerRef.current = setTimeout(() => setHighlightId(null), 1500);
+  }
+
+  /** Propri per id del partecipante; i messaggi senza firma valida si riconoscono solo dal nickname */
+  function isMine(m: Message) {
+    return m.sid ? m.sid === selfId : m.author === normalizedName;
+  }
+
+  /** Solo i propri messaggi v2 non ritirati, firmati da questo dispositivo (o senza firma) */
+  function canRewrite(m: Message) {
+    const myPk = identityRef.current?.pk;
+    return isMine(m) && m.integrity === "ok" && !!m.sent_at && !m.deleted && !m.delivery
+      && (!m.pk || m.pk === myPk);
+  }
+
+  /* ========== NOTIFICHE PUSH ========== */
+  async function enableNotifications(preview: boolean) {
+    const keyring = keyringRef.current;
+    const identity = identityRef.current;
+    if (!keyring || !identity) return;
+    setErrMsg("");
+    try {
+      const verifier = await deriveAccessVerifier(keyring);
+      setPush(await enablePush({ room: normalizedRoom, identity, verifier, keyring, preview }));
+      setInfoMsg("Notifiche attive per questa stanza.");
+    } catch (err) {
+      setErrMsg(err instanceof Error ? err.message : "Impossibile attivare le notifiche.");
+    }
+  }
+
+  async function updateNotifications(patch: Partial<Pick<PushSettings, "muted" | "preview">>) {
+    const keyring = keyringRef.current;
+    const identity = identityRef.current;
+    if (!keyring || !identity || !push) return;
+    setErrMsg("");
+    try {
+      setPush(await updatePush(push, patch, await deriveAccessVerifier(keyring), keyring, identity));
+    } catch (err) {
+      setErrMsg(err instanceof Error ? err.message : "Impossibile aggiornare le notifiche.");
+    }
+  }
+
+  async function disableNotifications() {
+    const keyring = keyringRef.current;
+    if (!keyring || !push) return;
+    setErrMsg("");
+    try {
+      await disablePush(push, await deriveAccessVerifier(keyring));
+      setPush(null);
+    } catch (err) {
+      setErrMsg(err instanceof Error ? err.message : "Impossibile disattivare le notifiche.");
+    }
+  }
+
+  /* ========== ESCI ========== */
+  function leaveRoom() {
+    msgChannelRef.current?.unsubscribe();
+    presenceRef.current?.unsubscribe();
+    setRoomAccess(null);
+    setJoined(false);
+    setOnline([]);
+    setDeparted([]);
+    setPresenceEvents([]);
+    setShowMembers(false);
+    presenceMetaRef.current = null;
+    idleRef.current = { idle: false };
+    setSelfId("");
+    setRenaming(null);
+    setModeration(EMPTY_MODERATION);
+    setTypingUsers(new Set());
+    if (typingTimerRef.current) clearTimeout(typingTimerRef.current);
+    selfTypingRef.current = false;
+    setMessages([]);
+    setReactions([]);
+    setHasOlder(false);
+    olderCursorRef.current = null;
+    setInspect(null);
+    setEditing(null);
+    setReplyingTo(null);
+    setPendingFile(null);
+    setOfflineSince(null);
+    setPush(null);
+    if (normalizedRoom) void dropPushKey(normalizedRoom);
+    setRoomTtl(null);
+    setRoles(NO_ROLES);
+    setRotation(null);
+    setShowInvite(false);
+    setSearch(null);
+    setShowExport(false);
+    if (flushTimerRef.current) clearTimeout(flushTimerRef.current);
+    outboxRef.current = new Map();
+    keyringRef.current = null;
+    cacheMetaRef.current = null;
+    seenIdsRef.current = new Set();
+  }
+
+  /** Cancella tutto ciò che l'app ha salvato su questo dispositivo (dalla schermata di ingresso) */
+  async function forgetDevice() {
+    if (!window.confirm(
+      "Cancellare da questo dispositivo cronologie salvate, identità, messaggi in uscita e notifiche? " +
+      "Le stanze e i messaggi sul server restano."
+    )) return;
+    setErrMsg("");
+    setInfoMsg("");
+    try {
+      await forgetThisDevice();
+      identityRef.current = null;
+      pinsRef.current = new Map();
+      setPass("");
+      setInfoMsg("Dati locali cancellati: al prossimo ingresso questo dispositivo avrà una nuova identità.");
+    } catch (err) {
+      setErrMsg(err instanceof Error ? err.message : "Impossibile cancellare i dati locali.");
+    }
+  }
+
+  /* ========== RUOLI E IMPOSTAZIONI ========== */
+  const myRole = roleOf(roles, identityRef.current?.pk);
+
+  async function adminProof(action: AdminAction, params: unknown) {
+    const keyring = keyringRef.current;
+    const identity = identityRef.current;
+    if (!keyring || !identity) throw new Error("Stanza non aperta.");
+    return signAdminProof(identity, normalizedRoom, await deriveAccessVerifier(keyring), action, params);
+  }
+
+  function announce(event: "roles_changed" | "settings_changed" | "password_rotating") {
+    presenceRef.current?.broadcast(event, { by: selfId });
+  }
+
+  async function changeRoomTtl(ttlSeconds: number) {
+    setErrMsg("");
+    try {
+      const settings = { ttlSeconds };
+      await patchRoomSettings({ room: normalizedRoom, proof: await adminProof("settings", settings), settings });
+      setRoomTtl(ttlSeconds);
+      announce("settings_changed");
+    } catch (err) {
+      setErrMsg(err instanceof Error ? err.message : "Impossibile cambiare le impostazioni.");
+    }
+  }
+
+  async function toggleAdmin(author: string, pk: string) {
+    setErrMsg("");
+    try {
+      const isAdmin = roles.admins.some((a) => a.pk === pk);
+      const target = { pk, name: author };
+      setRoles(
+        isAdmin
+          ? await deleteAdmin({ room: normalizedRoom, proof: await adminProof("revoke", pk), pk })
+          : await postGrantAdmin({ room: normalizedRoom, proof: await adminProof("grant", target), target })
+      );
+      announce("roles_changed");
+    } catch (err) {
+      setErrMsg(err instanceof Error ? err.message : "Impossibile cambiare i ruoli.");
+    }
+  }
+
+  /** Toglie l'accesso alla chiave del dispositivo (anche ai token già emessi); l'avviso la fa uscire subito */
+  async function kickMember(member: Member) {
+    const pk = member.pk;
+    if (!pk) return;
+    if (!window.confirm(`Espellere ${member.label} dalla stanza? Il suo dispositivo non potrà più leggere né scrivere qui.`)) return;
+    setErrMsg("");
+    try {
+      setRoles(await postKick({ room: normalizedRoom, proof: await adminProof("kick", pk), pk }));
+      presenceRef.current?.broadcast("kicked", { sid: member.id, by: selfId });
+      setInfoMsg(`${member.label} non ha più accesso alla stanza.`);
+    } catch (err) {
+      setErrMsg(err instanceof Error ? err.message : "Impossibile espellere il partecipante.");
+    }
+  }
+
+  /* ========== ROTAZIONE PASSWORD ========== */
+  async function rotatePassword(newPassword: string) {
+    const keyring = keyringRef.current;
+    const identity = identityRef.current;
+    if (!keyring || !identity) return;
+    setErrMsg("");
+    setInfoMsg("");
+    setRotation({ done: 0, total: 0 });
+
+    // smetto di ascoltare gli UPDATE, che da qui arrivano con la chiave nuova; gli altri escono
+    // all'avviso, dopo averlo confermato sul server (quindi solo a rotazione registrata)
+    msgChannelRef.current?.unsubscribe();
+
+    try {
+      await rotateRoomPassword({
+        room: normalizedRoom,
+        identity,
+        current: keyring,
+        newPassword,
+        onProgress: setRotation,
+        onBegun: () => announce("password_rotating"),
+      });
+    } catch (err) {
+      leaveRoom();
+      setErrMsg(
+        `Rotazione interrotta: ${err instanceof Error ? err.message : "errore sconosciuto"}. ` +
+          "Rientra e riprova con la stessa nuova password per riprendere."
+      );
+      return;
+    }
+    leaveRoom();
+    setPass("");
+    setInfoMsg("Password cambiata e cronologia ricifrata. Rientra con la nuova password.");
+  }
+
   /* ========== CLEAR ========== */
   async function clearRoomHistory() {
     if (!normalizedRoom) return;
@@ -326,51 +1299,187 @@ export default function ChatApp() {
     setErrMsg("");
     setInfoMsg("");
 
-    const { error } = await supabase.from("messages").delete().eq("room", normalizedRoom);
-    if (error) {
-      setErrMsg(`Errore DELETE: ${error.message}`);
+    try {
+      await postClearRoom({ room: normalizedRoom, proof: await adminProof("clear", null) });
+    } catch (err) {
+      setErrMsg(err instanceof ApiError ? err.message : "Errore durante la cancellazione della cronologia.");
       return;
     }
 
     setMessages([]);
+    setReactions([]);
     setTypingUsers(new Set());
+    setPresenceEvents([]);
     setInfoMsg("messaggi stanza cancellati");
 
-    presenceRef.current?.send({
-      type: "broadcast",
-      event: "room_cleared",
-      payload: { by: normalizedName, at: new Date().toISOString() },
-    });
+    presenceRef.current?.broadcast("room_cleared", { by: selfId, at: new Date().toISOString() });
+  }
+
+  /* ========== IDENTITÀ / TOFU ========== */
+  function warnKeyChanged(authors: string[]) {
+    setErrMsg(`⚠️ Chiave cambiata per ${authors.join(", ")}: verifica il numero di sicurezza prima di fidarti.`);
+  }
+
+  /** Fissa (o verifica) un partecipante e ricalcola lo stato dei suoi messaggi */
+  function updatePin(author: string, pk: string, sid: string, verified: boolean) {
+    const pin = { room: normalizedRoom, sid, author, pk, firstSeen: new Date().toISOString(), verified };
+    pinsRef.current.set(sid, pin);
+    void savePin(pin);
+    setMessages((prev) => prev.map((m) => (m.sid === sid ? withTrust(m, pinsRef.current) : m)));
+    setInspect(null);
   }
 
   /* ========== UX helpers ========== */
-  function copyInviteLink() {
-    const url = new URL(window.location.href);
-    url.searchParams.set("room", normalizedRoom);
-    url.searchParams.set("name", "");
-    navigator.clipboard.writeText(url.toString());
-    setLinkCopied(true);
-    window.setTimeout(() => setLinkCopied(false), 1500);
+  async function createInvite(expiresIn: number, singleUse: boolean) {
+    const keyring = keyringRef.current;
+    if (!keyring) throw new Error("Stanza non aperta.");
+    return createTokenInvite({
+      room: normalizedRoom,
+      password: pass,
+      verifier: await deriveAccessVerifier(keyring),
+      expiresIn,
+      singleUse,
+    });
   }
   function sendTyping(typing: boolean) {
     if (selfTypingRef.current === typing) return;
     selfTypingRef.current = typing;
-    presenceRef.current?.send({ type: "broadcast", event: "typing", payload: { name: normalizedName, typing } });
+    presenceRef.current?.broadcast("typing", { sid: selfId, typing });
+  }
+  /* ========== PRESENCE ========== */
+  function trackPresence() {
+    const meta = presenceMetaRef.current;
+    if (meta) presenceRef.current?.track({ ...meta, ...idleRef.current });
+  }
+  trackPresenceRef.current = trackPresence;
+
+  /* ========== SILENZIA / BLOCCA ========== */
+  moderationRef.current = moderation;
+
+  /** Solo su questo dispositivo: `null` toglie il partecipante da entrambe le liste */
+  function moderate(id: string, nick: string, level: ModerationLevel | null) {
+    const next = applyModeration(moderation, id, nick, level);
+    setModeration(next);
+    void saveModeration(normalizedRoom, next);
+    if (level) {
+      setTypingUsers((prev) => {
+        if (!prev.has(id)) return prev;
+        const rest = new Set(prev);
+        rest.delete(id);
+        return rest;
+      });
+    }
+  }
+
+  function changeUiPrefs(patch: Partial<UiPrefs>) {
+    const next = { ...uiPrefs, ...patch };
+    setUiPrefs(next);
+    void saveUiPrefs(next);
+  }
+
+  /* ========== NICKNAME ========== */
+  /** I messaggi già scritti restano del partecipante (stesso id): cambia solo il nome mostrato */
+  async function renameSelf() {
+    const nick = normalizeNick(renaming ?? "");
+    const identity = identityRef.current;
+    setRenaming(null);
+    if (!nick || nick === normalizedName) return;
+    setName(nick);
+    changeUiPrefs({ nick });
+    if (!identity || !presenceRef.current) return;
+    try {
+      presenceMetaRef.current = await signPresence(identity, normalizedRoom, nick);
+      trackPresence();
+    } catch {
+      setErrMsg("Impossibile annunciare il nuovo nickname.");
+    }
   }
+
   function handleTypingActivity() {
     sendTyping(true);
     if (typingTimerRef.current) clearTimeout(typingTimerRef.current);
     typingTimerRef.current = setTimeout(() => sendTyping(false), 1500);
   }
 
-  const you = useMemo(() => ({ name: normalizedName, avatar: initials(normalizedName) }), [normalizedName]);
+  // dei bloccati non si vede nulla: né messaggi (neanche citati o nei thread), né reazioni, né ingressi
+  const visibleMessages = useMemo(
+    () => messages.filter((m) => moderationOf(moderation, authorId(m)) !== "blocked"),
+    [messages, moderation]
+  );
+  const visibleReactions = useMemo(
+    () => reactions.filter((r) => moderationOf(moderation, authorId(r)) !== "blocked"),
+    [reactions, moderation]
+  );
+  const visibleEvents = useMemo(
+    () => presenceEvents.filter((e) => moderationOf(moderation, e.who) !== "blocked"),
+    [presenceEvents, moderation]
+  );
+  const byId = useMemo(() => new Map(visibleMessages.map((m) => [m.id, m])), [visibleMessages]);
+  const searchOpen = search !== null;
+  const searchIdx = useMemo(() => (searchOpen ? buildSearchIndex(visibleMessages) : null), [searchOpen, visibleMessages]);
+  const searchAuthors = useMemo(
+    () => (searchOpen ? Array.from(new Set(visibleMessages.map((m) => m.author))).sort() : []),
+    [searchOpen, visibleMessages]
+  );
+  const searchTerms = useMemo(() => tokenize(search?.text ?? ""), [search?.text]);
+  const repliesByParent = useMemo(() => {
+    const map = new Map<string, Message[]>();
+    for (const m of visibleMessages) {
+      if (!m.replyTo) continue;
+      const list = map.get(m.replyTo) ?? [];
+      list.push(m);
+      map.set(m.replyTo, list);
+    }
+    return map;
+  }, [visibleMessages]);
+
+  // nickname disambiguati e colori: dai messaggi e dalle reazioni firmate, dalla presence e da sé
+  // (chi non firma non entra nell'elenco: resta col nickname della riga, senza "#2")
+  const roster = useMemo(() => {
+    const sightings: Sighting[] = [
+      ...messages.flatMap((m) => (m.sid ? [{ id: m.sid, nick: m.author, at: m.sent_at ?? m.created_at }] : [])),
+      ...reactions.flatMap((r) => (r.sid ? [{ id: r.sid, nick: r.author, at: r.created_at }] : [])),
+      ...online,
+      ...departed,
+    ];
+    // il proprio nickname vale come il più recente, ma senza un orario che cambi a ogni render
+    const latest = sightings.reduce((max, s) => (s.at > max ? s.at : max), "");
+    if (selfId) sightings.push({ id: selfId, nick: normalizedName, at: latest });
+    return buildRoster(sightings);
+  }, [messages, reactions, online, departed, selfId, normalizedName]);
+  const members = useMemo(() => buildMembers(online, departed, roster), [online, departed, roster]);
+  // righe di ingresso/uscita intercalate ai messaggi (se l'utente non le ha spente)
+  const stream = useMemo(
+    () => (uiPrefs.presenceLines ? mergeStream(visibleMessages, visibleEvents) : visibleMessages),
+    [uiPrefs.presenceLines, visibleMessages, visibleEvents]
+  );
+  const nameOf = useCallback((x: { sid?: string; author: string }) => displayName(roster, x), [roster]);
+
+  const reactionsByMessage = useMemo(
+    () => groupReactions(visibleReactions, selfId, nameOf),
+    [visibleReactions, selfId, nameOf]
+  );
+
+  const you = useMemo(
+    () => ({ id: selfId, name: normalizedName, label: roster.get(selfId)?.label ?? normalizedName }),
+    [selfId, normalizedName, roster]
+  );
+  // trascrizione per l'esportazione, solo mentre il pannello è aperto
+  const transcript = useMemo(
+    () => (showExport ? buildTranscript(normalizedRoom, you, messages, reactions) : null),
+    [showExport, normalizedRoom, you, messages, reactions]
+  );
+  const typingNames = useMemo(
+    () => Array.from(typingUsers, (id) => roster.get(id)?.label ?? "Qualcuno"),
+    [typingUsers, roster]
+  );
   const typingLabel = useMemo(() => {
-    const others = Array.from(typingUsers);
+    const others = typingNames;
     if (others.length === 0) return "";
     if (others.length === 1) return `${others[0]} sta scrivendo…`;
     if (others.length === 2) return `${others[0]} e ${others[1]} stanno scrivendo…`;
     return "Più persone stanno scrivendo…";
-  }, [typingUsers]);
+  }, [typingNames]);
 
   /* ========== UI ========== */
   return (
@@ -404,7 +1513,10 @@ export default function ChatApp() {
 
       <main className="px-4 py-6">
         <div className="max-w-3xl mx-auto">
-          {!joined ? (
+          {!joined && archive ? (
+            /* ===== ARCHIVIO (sola lettura) ===== */
+            <ArchiveView transcript={archive} dark={dark} onClose={() => setArchive(null)} />
+          ) : !joined ? (
             /* ===== HERO / JOIN CARD ===== */
             <div className={["rounded-3xl border shadow-sm p-6 sm:p-8",
               dark ? "bg-white/5 border-white/10 backdrop-blur" : "bg-white border-slate-200"].join(" ")}>
@@ -413,7 +1525,7 @@ export default function ChatApp() {
                 La stanza viene creata alla prima entrata; chi entra dopo deve usare la stessa password.
               </p>
 
-              <form className="grid grid-cols-1 sm:grid-cols-4 gap-3" onSubmit={joinRoom}>
+              <form className="grid grid-cols-1 sm:grid-cols-5 gap-3" onSubmit={joinRoom}>
                 <input
                   className="h-11 rounded-xl border px-3 outline-none focus:ring-2 focus:ring-sky-400/70 bg-transparent"
                   placeholder="Il tuo nome"
@@ -433,6 +1545,18 @@ export default function ChatApp() {
                   value={pass}
                   onChange={(e) => setPass(e.target.value)}
                 />
+                <select
+                  className="h-11 rounded-xl border px-3 outline-none focus:ring-2 focus:ring-sky-400/70 bg-transparent"
+                  value={ttlChoice}
+                  onChange={(e) => setTtlChoice(Number(e.target.value))}
+                  title="Vale solo se la stanza viene creata ora"
+                >
+                  {ROOM_TTLS.map((t) => (
+                    <option key={t.seconds} value={t.seconds} className="text-slate-900">
+                      Messaggi per {t.label}
+                    </option>
+                  ))}
+                </select>
                 <button
                   type="submit"
                   disabled={loading}
@@ -448,6 +1572,17 @@ export default function ChatApp() {
                   {infoMsg && <div className="rounded-lg border border-emerald-400/30 bg-emerald-500/10 text-emerald-300 px-3 py-2 text-sm">{infoMsg}</div>}
                 </div>
               )}
+
+              <p className="mt-6 text-xs opacity-60">
+                Le stanze aperte qui restano salvate (cifrate) su questo dispositivo per riaprirle subito e offline.{" "}
+                <button type="button" onClick={() => void forgetDevice()} className="underline hover:opacity-100">
+                  Dimentica questo dispositivo
+                </button>
+                {" · "}
+                <button type="button" onClick={() => setShowImport(true)} className="underline hover:opacity-100">
+                  Apri un backup
+                </button>
+              </p>
             </div>
           ) : (
             /* ===== CHAT CARD ===== */
@@ -457,48 +1592,138 @@ export default function ChatApp() {
               {/* Header chat */}
               <div className="p-4 sm:p-5 border-b border-white/10 flex flex-col sm:flex-row gap-3 sm:items-center sm:justify-between">
                 <div className="flex items-center gap-3">
-                  <div className="h-10 w-10 rounded-full bg-sky-600 text-white grid place-items-center font-semibold">
+                  <div
+                    className="h-10 w-10 rounded-full text-white grid place-items-center font-semibold"
+                    style={{ backgroundColor: you.id ? avatarColor(you.id) : undefined }}
+                  >
                     {initials(you.name)}
                   </div>
                 <div className="leading-tight">
-                    <div className="font-semibold">{you.name}</div>
+                    {renaming === null ? (
+                      <div className="font-semibold flex items-center gap-2">
+                        {you.label}
+                        <button
+                          type="button"
+                          onClick={() => setRenaming(you.name)}
+                          className="text-xs font-normal opacity-60 hover:opacity-100"
+                          title="Cambia nickname: i messaggi già scritti restano tuoi"
+                        >
+                          ✏️
+                        </button>
+                      </div>
+                    ) : (
+                      <form
+                        onSubmit={(e) => {
+                          e.preventDefault();
+                          void renameSelf();
+                        }}
+                        className="flex items-center gap-1"
+                      >
+                        <input
+                          autoFocus
+                          value={renaming}
+                          onChange={(e) => setRenaming(e.target.value)}
+                          onKeyDown={(e) => e.key === "Escape" && setRenaming(null)}
+                          maxLength={MAX_NICK_LENGTH}
+                          className="h-7 w-36 rounded-md bg-transparent border border-slate-600/40 px-2 text-sm"
+                        />
+                        <button type="submit" className="h-7 px-2 rounded-md border border-slate-600/40 text-xs hover:bg-white/5">
+                          OK
+                        </button>
+                      </form>
+                    )}
                     <div className="text-xs opacity-70 flex items_center gap-2">
                       <span className="inline-flex items-center gap-1">
                         🗝️ <span className="tracking-tight">E2EE attiva</span>
                       </span>
                       <span>•</span>
+                      {canModerate(myRole) ? (
+                        <select
+                          value={roomTtl ?? ""}
+                          onChange={(e) => void changeRoomTtl(Number(e.target.value))}
+                          className="bg-transparent border border-slate-600/40 rounded px-1"
+                          title="I messaggi vengono cancellati dopo questo tempo"
+                        >
+                          {roomTtl === null && <option value="" className="text-slate-900">⏳ {ttlLabel(null)}</option>}
+                          {ROOM_TTLS.map((t) => (
+                            <option key={t.seconds} value={t.seconds} className="text-slate-900">
+                              ⏳ {t.label}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span title="I messaggi vengono cancellati dopo questo tempo">⏳ {ttlLabel(roomTtl)}</span>
+                      )}
+                      {myRole !== "member" && (
+                        <>
+                          <span>•</span>
+                          <span>{myRole === "owner" ? "👑 owner" : "🛡️ admin"}</span>
+                        </>
+                      )}
+                      <span>•</span>
                       <span>Stanza: <b>{normalizedRoom}</b></span>
                       <span>•</span>
-                      <span>👥 {onlineUsers}</span>
+                      <button
+                        type="button"
+                        onClick={() => setShowMembers((v) => !v)}
+                        className="hover:underline"
+                        title="Chi è nella stanza"
+                      >
+                        👥 {online.length} {showMembers ? "▴" : "▾"}
+                      </button>
                     </div>
                   </div>
                 </div>
 
                 <div className="flex flex-wrap items-center gap-2">
                   <button
-                    onClick={copyInviteLink}
+                    onClick={() => setSearch((q) => (q ? null : { text: "" }))}
+                    className={["h-9 px-3 rounded-lg border text-sm",
+                      searchOpen ? "border-sky-400 bg-sky-500/10" : "border-slate-600/40 hover:bg-white/5"].join(" ")}
+                    title="Cerca nei messaggi (solo su questo dispositivo)"
+                  >
+                    🔍 Cerca
+                  </button>
+                  <button
+                    onClick={() => setShowInvite(true)}
                     className="h-9 px-3 rounded-lg border border-slate-600/40 hover:bg-white/5 text-sm"
                   >
-                    {linkCopied ? "Link copiato!" : "Copia invito"}
+                    Invita
                   </button>
                   <button
-                    onClick={clearRoomHistory}
-                    className="h-9 px-3 rounded-lg text-sm bg-red-600 text-white hover:bg-red-700"
-                    title="Elimina tutti i messaggi della stanza"
+                    onClick={() => setShowExport(true)}
+                    className="h-9 px-3 rounded-lg border border-slate-600/40 hover:bg-white/5 text-sm"
+                    title="Scarica la cronologia caricata (testo, JSON o backup cifrato)"
                   >
-                    Elimina cronologia
+                    Esporta
                   </button>
+                  <PushMenu
+                    settings={push}
+                    available={pushAvailable()}
+                    dark={dark}
+                    onEnable={enableNotifications}
+                    onUpdate={updateNotifications}
+                    onDisable={disableNotifications}
+                  />
+                  {myRole === "owner" && (
+                    <button
+                      onClick={() => setShowRotate(true)}
+                      className="h-9 px-3 rounded-lg border border-slate-600/40 hover:bg-white/5 text-sm"
+                    >
+                      Cambia password
+                    </button>
+                  )}
+                  {canModerate(myRole) && (
+                    <button
+                      onClick={clearRoomHistory}
+                      className="h-9 px-3 rounded-lg text-sm bg-red-600 text-white hover:bg-red-700"
+                      title="Elimina tutti i messaggi della stanza"
+                    >
+                      Elimina cronologia
+                    </button>
+                  )}
                   <button
-                    onClick={() => {
-                      msgChannelRef.current?.unsubscribe();
-                      presenceRef.current?.unsubscribe();
-                      setJoined(false);
-                      setOnlineUsers(0);
-                      setTypingUsers(new Set());
-                      if (typingTimerRef.current) clearTimeout(typingTimerRef.current);
-                      selfTypingRef.current = false;
-                      setMessages([]);
-                    }}
+                    onClick={leaveRoom}
                     className="h-9 px-3 rounded-lg text-sm border border-slate-600/40 hover:bg-white/5"
                   >
                     Esci
@@ -506,6 +1731,51 @@ export default function ChatApp() {
                 </div>
               </div>
 
+              {showMembers && (
+                <MemberPanel
+                  members={members}
+                  self={selfId}
+                  dark={dark}
+                  presenceLines={uiPrefs.presenceLines}
+                  moderation={moderation}
+                  canKick={myRole === "owner" && !offlineSince}
+                  onPresenceLinesChange={(presenceLines) => changeUiPrefs({ presenceLines })}
+                  onModerate={moderate}
+                  onKick={(member) => void kickMember(member)}
+                  onClose={() => setShowMembers(false)}
+                />
+              )}
+
+              {search && searchIdx && (
+                <div className="px-4 sm:px-5 pt-3">
+                  <SearchPanel
+                    index={searchIdx}
+                    query={search}
+                    authors={searchAuthors}
+                    dark={dark}
+                    hasOlder={hasOlder}
+                    loadingOlder={loadingOlder}
+                    onChange={setSearch}
+                    onLoadOlder={onLoadOlder}
+                    onSelect={jumpTo}
+                    onClose={() => setSearch(null)}
+                  />
+                </div>
+              )}
+
+              {offlineSince && (
+                <div className="px-4 sm:px-5 pt-3">
+                  <div className="rounded-lg border border-amber-400/30 bg-amber-500/10 text-amber-300 px-3 py-2 text-sm flex items-center justify-between gap-3">
+                    <span>
+                      📴 Offline: cronologia locale del {new Date(offlineSince).toLocaleString()}. I messaggi partono al ritorno della rete.
+                    </span>
+                    <button type="button" onClick={() => void joinRoom()} className="shrink-0 underline">
+                      Riconnetti
+                    </button>
+                  </div>
+                </div>
+              )}
+
               {/* 🔔 Banner info/errore dentro la chat */}
               {(errMsg || infoMsg) && (
                 <div className="px-4 sm:px-5 pt-3 space-y-2">
@@ -524,46 +1794,98 @@ export default function ChatApp() {
 
               {/* Lista messaggi */}
               <div className="p-4 sm:p-5">
-                <div className={["h-[56vh] sm:h-[60vh] overflow-y-auto pr-2 space-y-3 rounded-2xl p-3",
-                  dark ? "bg-black/20 border border-white/10" : "bg-slate-50 border"].join(" ")}>
-                  {messages.map((m) => {
-                    const mine = m.author === you.name;
-                    return (
-                      <div key={m.id} className={`flex ${mine ? "justify-end" : "justify-start"}`}>
-                        <div
-                          className={[
-                            "max-w-[85%] sm:max-w-[75%] rounded-2xl px-3 py-2 shadow-sm",
-                            mine
-                              ? "bg-gradient-to-br from-sky-600 to-cyan-600 text-white rounded-br-sm"
-                              : dark
-                              ? "bg-white/5 border border-white/10 rounded-bl-sm"
-                              : "bg-white border rounded-bl-sm",
-                          ].join(" ")}
-                        >
-                          <div className={`text-[11px] mb-1 ${mine ? "opacity-90" : "opacity-80"}`}>
-                            {mine ? "Tu" : m.author}
-                          </div>
-                          <div className="whitespace-pre-wrap break-words">{m.content}</div>
-                          <div className={`text-[10px] mt-1 text-right ${mine ? "opacity-90" : "opacity-70"}`}>
-                            {formatTime(m.created_at)}
-                          </div>
-                        </div>
-                      </div>
-                    );
-                  })}
-                  <div ref={bottomRef} />
-                </div>
+                <MessageList
+                  ref={listRef}
+                  messages={stream}
+                  dark={dark}
+                  hasOlder={hasOlder}
+                  loadingOlder={loadingOlder}
+                  onLoadOlder={onLoadOlder}
+                  renderMessage={(m) => isPresenceEvent(m) ? (
+                    <PresenceLine event={m} name={roster.get(m.who)?.label ?? "Qualcuno"} />
+                  ) : (
+                    <MessageBubble
+                      m={m}
+                      mine={isMine(m)}
+                      nameOf={nameOf}
+                      color={avatarColor(authorId(m))}
+                      dark={dark}
+                      canRewrite={canRewrite(m)}
+                      muted={!isMine(m) && moderationOf(moderation, authorId(m)) === "muted"}
+                      highlighted={highlightId === m.id}
+                      quoted={m.replyTo ? byId.get(m.replyTo) : undefined}
+                      replies={repliesByParent.get(m.id) ?? []}
+                      reactions={reactionsByMessage.get(m.id) ?? []}
+                      searchTerms={searchOpen ? searchTerms : undefined}
+                      onInspect={(m) => m.pk && setInspect({ author: m.author, pk: m.pk, sid: m.sid })}
+                      onEdit={startEdit}
+                      onRetract={retractMessage}
+                      onReply={startReply}
+                      onJumpTo={jumpTo}
+                      onReact={toggleReaction}
+                      onResend={resendMessage}
+                      onDiscard={discardMessage}
+                      onModerate={(msg, level) => moderate(authorId(msg), nameOf(msg), level)}
+                    />
+                  )}
+                />
 
                 {/* sta scrivendo */}
                 {!!typingUsers.size && (
                   <div className="mt-2 text-xs italic opacity-70 flex items-center gap-2">
                     <span className="inline-block h-2 w-2 rounded-full bg-emerald-400 animate-pulse" />
-                    {Array.from(typingUsers).join(", ")} sta/anno scrivendo…
+                    {typingNames.join(", ")} sta/anno scrivendo…
                   </div>
                 )}
 
                 {/* Composer */}
+                {replyingTo && !editing && (
+                  <div className="mt-3 flex items-center justify-between gap-3 rounded-lg border border-sky-400/30 bg-sky-500/10 px-3 py-1.5 text-xs">
+                    <span className="truncate">
+                      ↩︎ Rispondi a <b>{nameOf(replyingTo)}</b>: {snippet(replyingTo, 60)}
+                    </span>
+                    <button type="button" onClick={() => setReplyingTo(null)} className="shrink-0 hover:underline">
+                      Annulla
+                    </button>
+                  </div>
+                )}
+                {editing && (
+                  <div className="mt-3 flex items-center justify-between rounded-lg border border-sky-400/30 bg-sky-500/10 px-3 py-1.5 text-xs">
+                    <span>✏️ Modifica messaggio</span>
+                    <button type="button" onClick={cancelEdit} className="hover:underline">
+                      Annulla
+                    </button>
+                  </div>
+                )}
+                {pendingFile && (
+                  <div className="mt-3 flex items-center justify-between gap-3 rounded-lg border border-slate-500/30 px-3 py-1.5 text-xs">
+                    <span className="truncate">
+                      📎 {pendingFile.name} · {formatBytes(pendingFile.size)}
+                    </span>
+                    <button type="button" onClick={() => setPendingFile(null)} className="shrink-0 hover:underline">
+                      Rimuovi
+                    </button>
+                  </div>
+                )}
                 <div className="mt-3 flex gap-2 items-end">
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    className="hidden"
+                    onChange={(e) => {
+                      pickFile(e.target.files?.[0]);
+                      e.target.value = "";
+                    }}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={!!editing || uploading}
+                    className="h-12 w-12 shrink-0 rounded-xl border border-slate-600/40 hover:bg-white/5 disabled:opacity-50"
+                    title={`Allega file o immagine (max ${formatBytes(MAX_ATTACHMENT_BYTES)})`}
+                  >
+                    📎
+                  </button>
                   <textarea
                     ref={textareaRef}
                     placeholder="Scrivi un messaggio…"
@@ -576,6 +1898,9 @@ export default function ChatApp() {
                       if (e.key === "Enter" && !e.shiftKey) {
                         e.preventDefault();
                         sendMessage();
+                      } else if (e.key === "Escape" && (editing || replyingTo)) {
+                        if (editing) cancelEdit();
+                        setReplyingTo(null);
                       } else {
                         handleTypingActivity();
                       }
@@ -587,9 +1912,10 @@ export default function ChatApp() {
                   />
                   <button
                     onClick={sendMessage}
-                    className="h-12 px-5 rounded-xl bg-gradient-to-r from-sky-600 to-cyan-500 text-white font-medium hover:opacity-95"
+                    disabled={uploading}
+                    className="h-12 px-5 rounded-xl bg-gradient-to-r from-sky-600 to-cyan-500 text-white font-medium hover:opacity-95 disabled:opacity-60"
                   >
-                    Invia ➤
+                    {uploading ? "Carico…" : editing ? "Salva ✓" : "Invia ➤"}
                   </button>
                 </div>
               </div>
@@ -598,6 +1924,74 @@ export default function ChatApp() {
         </div>
       </main>
 
+      {showInvite && (
+        <InvitePanel
+          room={normalizedRoom}
+          password={pass}
+          dark={dark}
+          onCreateToken={createInvite}
+          onClose={() => setShowInvite(false)}
+        />
+      )}
+
+      {transcript && (
+        <ExportPanel
+          transcript={transcript}
+          dark={dark}
+          hasOlder={hasOlder}
+          loadingOlder={loadingOlder}
+          onLoadOlder={onLoadOlder}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
+      {showImport && (
+        <ArchiveImportPanel
+          dark={dark}
+          onOpen={(t) => {
+            setShowImport(false);
+            setArchive(t);
+          }}
+          onClose={() => setShowImport(false)}
+        />
+      )}
+
+      {(showRotate || rotation) && (
+        <RotatePasswordPanel
+          progress={rotation}
+          dark={dark}
+          onSubmit={(next) => {
+            setShowRotate(false);
+            void rotatePassword(next);
+          }}
+          onClose={() => setShowRotate(false)}
+        />
+      )}
+
+      {inspect && identityRef.current && (
+        <SafetyNumberPanel
+          author={inspect.author}
+          pk={inspect.pk}
+          myPk={identityRef.current.pk}
+          pinnedPk={pinForNick(pinsRef.current, inspect.author, inspect.sid)?.pk}
+          status={
+            !inspect.sid ? "invalid"
+              : !pinsRef.current.has(inspect.sid) ? "changed"
+              : pinsRef.current.get(inspect.sid)?.verified ? "verified" : "trusted"
+          }
+          dark={dark}
+          onVerify={() => inspect.sid && updatePin(inspect.author, inspect.pk, inspect.sid, true)}
+          onAcceptKey={() => inspect.sid && updatePin(inspect.author, inspect.pk, inspect.sid, false)}
+          role={roleOf(roles, inspect.pk)}
+          onToggleAdmin={
+            myRole === "owner" && inspect.pk !== identityRef.current.pk
+              ? () => void toggleAdmin(inspect.author, inspect.pk)
+              : undefined
+          }
+          onClose={() => setInspect(null)}
+        />
+      )}
+
       <footer className="py-6 text-center text-xs opacity-60">
         {joined ? "Chat privata in tempo reale · E2EE" : "Pronta a chattare in modo sicuro · E2EE"}
       </footer>
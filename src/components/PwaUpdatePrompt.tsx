@@ -0,0 +1,42 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { Workbox } from "workbox-window";
+
+/**
+ * Registra il service worker generato da next-pwa e, quando un nuovo build è in attesa,
+ * chiede all'utente di aggiornare invece di attivarlo da solo a metà conversazione.
+ */
+export default function PwaUpdatePrompt() {
+  const wbRef = useRef<Workbox | null>(null);
+  const [waiting, setWaiting] = useState(false);
+
+  useEffect(() => {
+    // in dev next-pwa è disabilitato e /sw.js non esiste
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+    const wb = new Workbox("/sw.js");
+    wbRef.current = wb;
+    wb.addEventListener("waiting", () => setWaiting(true));
+    // il nuovo SW ha preso il controllo: ricarico per usare i nuovi asset
+    wb.addEventListener("controlling", () => window.location.reload());
+    void wb.register();
+  }, []);
+
+  if (!waiting) return null;
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 rounded-xl border border-emerald-400/30 bg-[#0f1620] shadow-lg px-4 py-2 text-sm flex items-center gap-3">
+      <span className="text-slate-200">Nuova versione disponibile</span>
+      <button
+        type="button"
+        onClick={() => wbRef.current?.messageSkipWaiting()}
+        className="rounded-md bg-emerald-500/20 text-emerald-300 px-2 py-1 hover:bg-emerald-500/30"
+      >
+        Aggiorna
+      </button>
+      <button type="button" onClick={() => setWaiting(false)} className="text-slate-400 hover:text-slate-200">
+        Più tardi
+      </button>
+    </div>
+  );
+}
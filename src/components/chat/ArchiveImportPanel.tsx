@@ -0,0 +1,76 @@
+"use client";
+
+import React, { useState } from "react";
+import { openArchive, type Transcript } from "@/lib/transcript";
+
+type Props = {
+  dark: boolean;
+  onOpen: (transcript: Transcript) => void;
+  onClose: () => void;
+};
+
+/** Sceglie un backup cifrato e la sua passphrase; la decifratura avviene tutta nel browser */
+export default function ArchiveImportPanel({ dark, onOpen, onClose }: Props) {
+  const [file, setFile] = useState<File | null>(null);
+  const [passphrase, setPassphrase] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  async function open(e: React.FormEvent) {
+    e.preventDefault();
+    if (!file || !passphrase) return;
+    setBusy(true);
+    setError("");
+    try {
+      onOpen(await openArchive(await file.text(), passphrase));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Impossibile aprire il backup.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-30 grid place-items-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        className={["w-full max-w-md rounded-2xl border p-5 shadow-lg",
+          dark ? "bg-[#0b0f14] border-white/10" : "bg-white border-slate-200"].join(" ")}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-lg font-semibold mb-1">Apri un backup</h2>
+        <p className="text-xs opacity-70 mb-4">
+          Il backup viene decifrato su questo dispositivo e mostrato in sola lettura: non si contatta il server.
+        </p>
+
+        <form className="space-y-3" onSubmit={open}>
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            className="w-full text-sm"
+          />
+          <input
+            type="password"
+            className="w-full h-10 rounded-lg border px-3 outline-none focus:ring-2 focus:ring-sky-400/70 bg-transparent"
+            placeholder="Passphrase del backup"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+          />
+          {error && <div className="text-xs text-red-400">{error}</div>}
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={onClose} className="h-9 px-3 rounded-lg text-sm border border-slate-600/40 hover:bg-white/5">
+              Annulla
+            </button>
+            <button
+              type="submit"
+              disabled={busy || !file || !passphrase}
+              className="h-9 px-3 rounded-lg text-sm bg-sky-600 text-white hover:bg-sky-700 disabled:opacity-50"
+            >
+              {busy ? "Decifro…" : "Apri"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
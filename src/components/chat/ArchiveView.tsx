@@ -0,0 +1,159 @@
+"use client";
+
+import React, { useMemo, useRef } from "react";
+import { formatTime } from "@/lib/format";
+import { formatBytes } from "@/lib/attachments";
+import { groupReactions, snippet, type Message, type ReactionGroup } from "@/lib/messages";
+import { describeRange, type Transcript } from "@/lib/transcript";
+import { authorId, buildRoster, displayName } from "@/lib/participants";
+import MessageList, { type MessageListHandle } from "@/components/chat/MessageList";
+
+type Props = {
+  transcript: Transcript;
+  dark: boolean;
+  onClose: () => void;
+};
+
+const noop = () => {};
+
+/** Backup aperto in sola lettura: nessun canale realtime, nessuna richiesta al server (allegati compresi) */
+export default function ArchiveView({ transcript, dark, onClose }: Props) {
+  const listRef = useRef<MessageListHandle>(null);
+  const byId = useMemo(() => new Map(transcript.messages.map((m) => [m.id, m])), [transcript]);
+  const me = transcript.exportedById ?? `nick:${transcript.exportedBy}`;
+  const roster = useMemo(
+    () => buildRoster(transcript.messages.flatMap((m) => (m.sid ? [{ id: m.sid, nick: m.author, at: m.sent_at ?? m.created_at }] : []))),
+    [transcript]
+  );
+  const reactionsByMessage = useMemo(
+    () => groupReactions(transcript.reactions, me, (r) => displayName(roster, r)),
+    [transcript, me, roster]
+  );
+
+  return (
+    <div className={["rounded-3xl border shadow-sm",
+      dark ? "bg-white/5 border-white/10 backdrop-blur" : "bg-white border-slate-200"].join(" ")}>
+      <div className="p-4 sm:p-5 border-b border-white/10 flex flex-col sm:flex-row gap-3 sm:items-center sm:justify-between">
+        <div className="leading-tight">
+          <div className="font-semibold">🗄️ Archivio della stanza {transcript.room}</div>
+          <div className="text-xs opacity-70 space-y-0.5 mt-1">
+            <div>Esportato da <b>{transcript.exportedBy}</b> il {new Date(transcript.exportedAt).toLocaleString()}</div>
+            <div>👥 {transcript.participants.join(", ") || "—"}</div>
+            <div>🗓️ {describeRange(transcript.range)} · {transcript.messages.length} messaggi</div>
+          </div>
+        </div>
+        <button
+          onClick={onClose}
+          className="h-9 px-3 rounded-lg text-sm border border-slate-600/40 hover:bg-white/5"
+        >
+          Chiudi archivio
+        </button>
+      </div>
+
+      <div className="p-4 sm:p-5">
+        <MessageList
+          ref={listRef}
+          messages={transcript.messages}
+          dark={dark}
+          hasOlder={false}
+          loadingOlder={false}
+          onLoadOlder={noop}
+          renderMessage={(m) => (
+            <ArchivedBubble
+              m={m}
+              mine={authorId(m) === me}
+              dark={dark}
+              quoted={m.replyTo ? byId.get(m.replyTo) : undefined}
+              nameOf={(x) => displayName(roster, x)}
+              reactions={reactionsByMessage.get(m.id) ?? []}
+              onJumpTo={(id) => listRef.current?.scrollToMessage(id)}
+            />
+          )}
+        />
+        <p className="mt-3 text-xs opacity-60">Sola lettura: gli allegati sono elencati ma non scaricati.</p>
+      </div>
+    </div>
+  );
+}
+
+type BubbleProps = {
+  m: Message;
+  mine: boolean;
+  dark: boolean;
+  quoted?: Message;
+  nameOf: (m: Message) => string;
+  reactions: ReactionGroup[];
+  onJumpTo: (id: string) => void;
+};
+
+function ArchivedBubble({ m, mine, dark, quoted, nameOf, reactions, onJumpTo }: BubbleProps) {
+  const at = m.sent_at ?? m.created_at;
+
+  if (m.integrity === "tampered" || m.deleted) {
+    return (
+      <div className={`flex ${mine ? "justify-end" : "justify-start"}`}>
+        <div className="max-w-[85%] rounded-2xl border border-dashed border-slate-500/40 px-3 py-2 text-xs italic opacity-60">
+          {m.deleted ? "🚫 Messaggio eliminato" : "⚠️ Messaggio manomesso"} da {nameOf(m)} · {formatTime(at)}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`flex flex-col ${mine ? "items-end" : "items-start"}`}>
+      <div
+        className={[
+          "max-w-[85%] sm:max-w-[75%] rounded-2xl px-3 py-2 shadow-sm",
+          mine
+            ? "bg-gradient-to-br from-sky-600 to-cyan-600 text-white rounded-br-sm"
+            : dark
+            ? "bg-white/5 border border-white/10 rounded-bl-sm"
+            : "bg-white border rounded-bl-sm",
+        ].join(" ")}
+      >
+        <div className={`text-[11px] mb-1 ${mine ? "opacity-90" : "opacity-80"}`}>{nameOf(m)}</div>
+        {m.replyTo && (
+          <button
+            type="button"
+            onClick={() => m.replyTo && onJumpTo(m.replyTo)}
+            className={[
+              "mb-1 block w-full text-left rounded-lg border-l-2 px-2 py-1 text-xs",
+              mine ? "border-white/70 bg-white/10" : "border-sky-400 bg-sky-500/10",
+            ].join(" ")}
+          >
+            {quoted ? (
+              <>
+                <span className="font-semibold">{nameOf(quoted)}</span>
+                <span className="block opacity-80 truncate">{snippet(quoted)}</span>
+              </>
+            ) : (
+              <span className="italic opacity-70">Messaggio non incluso</span>
+            )}
+          </button>
+        )}
+        {m.attachment && (
+          <div className="mb-1 text-xs opacity-90">📎 {m.attachment.name} · {formatBytes(m.attachment.size)}</div>
+        )}
+        {m.content && <div className="whitespace-pre-wrap break-words">{m.content}</div>}
+        <div className={`text-[10px] mt-1 flex items-center justify-end gap-2 ${mine ? "opacity-90" : "opacity-70"}`}>
+          {m.edited && <span title={`Modificato alle ${formatTime(m.edited)}`}>modificato</span>}
+          <span>{new Date(at).toLocaleDateString()} {formatTime(at)}</span>
+        </div>
+      </div>
+      {reactions.length > 0 && (
+        <div className="mt-1 flex flex-wrap gap-1">
+          {reactions.map((g) => (
+            <span
+              key={g.emoji}
+              title={g.authors.join(", ")}
+              className={["h-6 px-2 rounded-full border text-xs",
+                dark ? "border-white/10 bg-white/5" : "border-slate-200 bg-white"].join(" ")}
+            >
+              {g.emoji} {g.authors.length}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
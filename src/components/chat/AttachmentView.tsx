@@ -0,0 +1,83 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { downloadAttachment, formatBytes, isImage, type AttachmentMeta } from "@/lib/attachments";
+
+type Props = {
+  meta: AttachmentMeta;
+  mine: boolean;
+};
+
+/** Immagine decifrata inline oppure chip di download per gli altri file */
+export default function AttachmentView({ meta, mine }: Props) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const image = isImage(meta);
+
+  // le immagini si decifrano subito per l'anteprima
+  useEffect(() => {
+    if (!image) return;
+    let alive = true;
+    let objectUrl: string | null = null;
+    downloadAttachment(meta)
+      .then((blob) => {
+        if (!alive) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(() => alive && setFailed(true));
+    return () => {
+      alive = false;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [meta, image]);
+
+  async function save() {
+    setBusy(true);
+    setFailed(false);
+    try {
+      const blob = await downloadAttachment(meta);
+      const href = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = href;
+      a.download = meta.name;
+      a.click();
+      setTimeout(() => URL.revokeObjectURL(href), 1000);
+    } catch {
+      setFailed(true);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (image && url) {
+    return (
+      <a href={url} download={meta.name} className="block mb-1" title={`${meta.name} · ${formatBytes(meta.size)}`}>
+        {/* eslint-disable-next-line @next/next/no-img-element -- blob: URL decifrato, niente next/image */}
+        <img src={url} alt={meta.name} className="max-h-64 rounded-lg object-contain" />
+      </a>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={save}
+      disabled={busy}
+      className={[
+        "mb-1 flex w-full items-center gap-2 rounded-lg border px-2 py-1.5 text-left text-xs",
+        mine ? "border-white/30 bg-white/10" : "border-slate-500/30 bg-black/10",
+      ].join(" ")}
+    >
+      <span className="text-lg">{image ? "🖼️" : "📄"}</span>
+      <span className="min-w-0 flex-1">
+        <span className="block truncate font-medium">{meta.name}</span>
+        <span className="opacity-70">
+          {failed ? "Impossibile decifrare il file" : busy ? "Decifro…" : image ? "Caricamento anteprima…" : formatBytes(meta.size)}
+        </span>
+      </span>
+      {!image && <span aria-hidden>⬇</span>}
+    </button>
+  );
+}
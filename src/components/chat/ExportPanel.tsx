@@ -0,0 +1,134 @@
+"use client";
+
+import React, { useState } from "react";
+import { MIN_PASSPHRASE, describeRange, exportTranscript, type ExportFormat, type Transcript } from "@/lib/transcript";
+
+type Props = {
+  transcript: Transcript;
+  dark: boolean;
+  hasOlder: boolean;
+  loadingOlder: boolean;
+  onLoadOlder: () => void;
+  onClose: () => void;
+};
+
+const FORMATS: { format: ExportFormat; label: string; hint: string }[] = [
+  { format: "markdown", label: "Testo", hint: "Trascrizione leggibile (Markdown), in chiaro." },
+  { format: "json", label: "JSON", hint: "I messaggi decifrati come oggetti JSON, in chiaro." },
+  { format: "archive", label: "Backup cifrato", hint: "Cifrato con una passphrase: si riapre solo da «Apri un backup» in questa app, senza server." },
+];
+
+/** Esporta i messaggi caricati su questo dispositivo in uno dei tre formati */
+export default function ExportPanel({ transcript, dark, hasOlder, loadingOlder, onLoadOlder, onClose }: Props) {
+  const [format, setFormat] = useState<ExportFormat>("markdown");
+  const [passphrase, setPassphrase] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [includeKeys, setIncludeKeys] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const needsPassphrase = format === "archive";
+  const passphraseOk = passphrase.length >= MIN_PASSPHRASE && passphrase === confirm;
+
+  async function save() {
+    setBusy(true);
+    setError("");
+    try {
+      await exportTranscript(transcript, format, { passphrase, includeKeys });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Esportazione non riuscita.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-30 grid place-items-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        className={["w-full max-w-md rounded-2xl border p-5 shadow-lg",
+          dark ? "bg-[#0b0f14] border-white/10" : "bg-white border-slate-200"].join(" ")}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-lg font-semibold mb-3">Esporta la stanza {transcript.room}</h2>
+
+        <dl className="grid grid-cols-[auto,1fr] gap-x-3 gap-y-1 text-xs mb-4">
+          <dt className="opacity-70">Messaggi</dt>
+          <dd>{transcript.messages.length}</dd>
+          <dt className="opacity-70">Partecipanti</dt>
+          <dd>{transcript.participants.join(", ") || "—"}</dd>
+          <dt className="opacity-70">Periodo</dt>
+          <dd>{describeRange(transcript.range)}</dd>
+        </dl>
+        {hasOlder && (
+          <p className="text-xs opacity-70 mb-4">
+            Si esportano solo i messaggi caricati.{" "}
+            <button type="button" onClick={onLoadOlder} disabled={loadingOlder} className="underline disabled:opacity-50">
+              {loadingOlder ? "Carico…" : "Carica anche i precedenti"}
+            </button>
+          </p>
+        )}
+
+        <div className="grid grid-cols-3 gap-2 mb-2">
+          {FORMATS.map((f) => (
+            <button
+              key={f.format}
+              onClick={() => setFormat(f.format)}
+              className={["h-9 rounded-lg text-sm border",
+                format === f.format ? "border-sky-400 bg-sky-500/10" : "border-slate-600/40 hover:bg-white/5"].join(" ")}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs opacity-70 mb-4">{FORMATS.find((f) => f.format === format)!.hint}</p>
+
+        {format === "json" && (
+          <label className="flex items-start gap-2 text-xs mb-4">
+            <input type="checkbox" checked={includeKeys} onChange={(e) => setIncludeKeys(e.target.checked)} className="mt-0.5" />
+            <span>
+              Includi le chiavi degli allegati
+              <span className={["block", includeKeys ? "text-amber-400" : "opacity-70"].join(" ")}>
+                Chi ha il file può scaricare e aprire gli allegati finché restano sul server.
+              </span>
+            </span>
+          </label>
+        )}
+        {needsPassphrase && (
+          <div className="space-y-2 mb-4">
+            <input
+              type="password"
+              className="w-full h-10 rounded-lg border px-3 outline-none focus:ring-2 focus:ring-sky-400/70 bg-transparent"
+              placeholder={`Passphrase (almeno ${MIN_PASSPHRASE} caratteri)`}
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              autoFocus
+            />
+            <input
+              type="password"
+              className="w-full h-10 rounded-lg border px-3 outline-none focus:ring-2 focus:ring-sky-400/70 bg-transparent"
+              placeholder="Ripeti la passphrase"
+              value={confirm}
+              onChange={(e) => setConfirm(e.target.value)}
+            />
+            {!!confirm && passphrase !== confirm && <div className="text-xs text-red-400">Le passphrase non coincidono.</div>}
+            <p className="text-xs opacity-70">Non è recuperabile: senza passphrase il backup non si può più aprire.</p>
+          </div>
+        )}
+        {error && <div className="mb-3 text-xs text-red-400">{error}</div>}
+
+        <div className="flex justify-end gap-2">
+          <button onClick={onClose} className="h-9 px-3 rounded-lg text-sm border border-slate-600/40 hover:bg-white/5">
+            Chiudi
+          </button>
+          <button
+            onClick={() => void save()}
+            disabled={busy || !transcript.messages.length || (needsPassphrase && !passphraseOk)}
+            className="h-9 px-3 rounded-lg text-sm bg-sky-600 text-white hover:bg-sky-700 disabled:opacity-50"
+          >
+            {busy ? "Preparo…" : "Scarica"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
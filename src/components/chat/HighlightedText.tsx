@@ -0,0 +1,22 @@
+"use client";
+
+import React from "react";
+import { highlightSegments } from "@/lib/search";
+
+/** Testo con i termini di ricerca evidenziati (stesse regole della ricerca: inizio parola, senza accenti) */
+export default function HighlightedText({ text, terms }: { text: string; terms?: string[] }) {
+  if (!terms?.length) return <>{text}</>;
+  return (
+    <>
+      {highlightSegments(text, terms).map((s, i) =>
+        s.match ? (
+          <mark key={i} className="rounded bg-amber-300/80 text-slate-900 px-0.5">
+            {s.text}
+          </mark>
+        ) : (
+          <React.Fragment key={i}>{s.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
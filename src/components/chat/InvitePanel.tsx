@@ -0,0 +1,155 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import QRCode from "qrcode";
+import { INVITE_EXPIRIES, buildInviteLink } from "@/lib/invites";
+
+type Mode = "room" | "key" | "token";
+
+type Props = {
+  room: string;
+  password: string;
+  dark: boolean;
+  onCreateToken: (expiresIn: number, singleUse: boolean) => Promise<{ url: string; expiresAt: string }>;
+  onClose: () => void;
+};
+
+const MODES: { mode: Mode; label: string; hint: string }[] = [
+  { mode: "room", label: "Solo stanza", hint: "Chi apre il link deve conoscere la password." },
+  { mode: "key", label: "Con la password", hint: "La password sta dopo il #: non arriva mai al server, ma il link vale per sempre." },
+  { mode: "token", label: "A scadenza", hint: "Il server custodisce la password cifrata finché il link scade o viene usato." },
+];
+
+/** Link di invito della stanza, da copiare o mostrare come QR code */
+export default function InvitePanel({ room, password, dark, onCreateToken, onClose }: Props) {
+  const [mode, setMode] = useState<Mode>("room");
+  const [expiresIn, setExpiresIn] = useState<number>(INVITE_EXPIRIES[1].seconds);
+  const [singleUse, setSingleUse] = useState(true);
+  const [token, setToken] = useState<{ url: string; expiresAt: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const [qr, setQr] = useState("");
+  const [copied, setCopied] = useState(false);
+
+  const url = mode === "token" ? token?.url ?? "" : buildInviteLink(room, mode === "key" ? password : undefined);
+
+  useEffect(() => {
+    let alive = true;
+    if (!url) {
+      setQr("");
+      return;
+    }
+    QRCode.toDataURL(url, { margin: 1, width: 220 }).then((data) => alive && setQr(data));
+    return () => {
+      alive = false;
+    };
+  }, [url]);
+
+  async function generate() {
+    setBusy(true);
+    setError("");
+    try {
+      setToken(await onCreateToken(expiresIn, singleUse));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Impossibile creare l'invito.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function copy() {
+    navigator.clipboard.writeText(url);
+    setCopied(true);
+    window.setTimeout(() => setCopied(false), 1500);
+  }
+
+  return (
+    <div className="fixed inset-0 z-30 grid place-items-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        className={["w-full max-w-md rounded-2xl border p-5 shadow-lg",
+          dark ? "bg-[#0b0f14] border-white/10" : "bg-white border-slate-200"].join(" ")}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-lg font-semibold mb-3">Invita nella stanza {room}</h2>
+
+        <div className="grid grid-cols-3 gap-2 mb-2">
+          {MODES.map((m) => (
+            <button
+              key={m.mode}
+              onClick={() => setMode(m.mode)}
+              className={["h-9 rounded-lg text-sm border",
+                mode === m.mode ? "border-sky-400 bg-sky-500/10" : "border-slate-600/40 hover:bg-white/5"].join(" ")}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs opacity-70 mb-4">{MODES.find((m) => m.mode === mode)!.hint}</p>
+
+        {mode === "token" && (
+          <div className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+            <select
+              value={expiresIn}
+              onChange={(e) => {
+                setExpiresIn(Number(e.target.value));
+                setToken(null);
+              }}
+              className="h-9 rounded-lg border border-slate-600/40 bg-transparent px-2"
+            >
+              {INVITE_EXPIRIES.map((e) => (
+                <option key={e.seconds} value={e.seconds} className="text-slate-900">
+                  Scade dopo {e.label}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={singleUse}
+                onChange={(e) => {
+                  setSingleUse(e.target.checked);
+                  setToken(null);
+                }}
+              />
+              Monouso
+            </label>
+            <button
+              onClick={generate}
+              disabled={busy}
+              className="h-9 px-3 rounded-lg bg-sky-600 text-white hover:bg-sky-700 disabled:opacity-50"
+            >
+              {busy ? "Creo…" : "Crea link"}
+            </button>
+          </div>
+        )}
+        {error && <div className="mb-3 text-xs text-red-400">{error}</div>}
+        {mode === "token" && token && (
+          <div className="mb-3 text-xs opacity-70">Valido fino al {new Date(token.expiresAt).toLocaleString()}.</div>
+        )}
+
+        {url && (
+          <>
+            <div className="flex gap-2 mb-4">
+              <input readOnly value={url} className="flex-1 h-9 rounded-lg border border-slate-600/40 bg-transparent px-2 text-xs font-mono" />
+              <button onClick={copy} className="h-9 px-3 rounded-lg border border-slate-600/40 hover:bg-white/5 text-sm">
+                {copied ? "Copiato!" : "Copia"}
+              </button>
+            </div>
+            {qr && (
+              <>
+                {/* eslint-disable-next-line @next/next/no-img-element -- data: URL generato nel browser, niente next/image */}
+                <img src={qr} alt="QR code dell'invito" className="mx-auto rounded-lg bg-white p-2" width={220} height={220} />
+              </>
+            )}
+          </>
+        )}
+
+        <div className="flex justify-end mt-4">
+          <button onClick={onClose} className="h-9 px-3 rounded-lg text-sm border border-slate-600/40 hover:bg-white/5">
+            Chiudi
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+"use client";
+
+import React from "react";
+import { formatTime, initials } from "@/lib/format";
+import type { Member, MemberStatus, PresenceEvent } from "@/lib/members";
+import { moderationOf, type ModerationLevel, type ModerationLists } from "@/lib/moderation";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+
+type Props = {
+  members: Member[];
+  self: string; // id del partecipante di questo dispositivo
+  dark: boolean;
+  presenceLines: boolean;
+  moderation: ModerationLists;
+  canKick: boolean; // solo l'owner espelle
+  onPresenceLinesChange: (on: boolean) => void;
+  onModerate: (id: string, nick: string, level: ModerationLevel | null) => void;
+  onKick: (member: Member) => void;
+  onClose: () => void;
+};
+
+const STATUS: Record<MemberStatus, { dot: string; label: (since: string) => string }> = {
+  online: { dot: "bg-emerald-400", label: () => "online" },
+  idle: { dot: "bg-amber-400", label: (since) => `inattivo dalle ${formatTime(since)}` },
+  left: { dot: "bg-slate-500", label: (since) => `visto alle ${formatTime(since)}` },
+};
+
+const LEVELS: { level: ModerationLevel; icon: string; on: string; off: string }[] = [
+  { level: "muted", icon: "🔇", on: "Non silenziare più", off: "Silenzia: i suoi messaggi restano chiusi" },
+  { level: "blocked", icon: "🚫", on: "Sblocca", off: "Blocca: i suoi messaggi e le sue reazioni spariscono" },
+];
+
+/**
+ * Chi è nella stanza adesso (online o inattivo) e chi è uscito nell'ultima ora, con silenzia e
+ * blocca (solo su questo dispositivo) e, per l'owner, l'espulsione
+ */
+export default function MemberPanel({
+  members, self, dark, presenceLines, moderation, canKick, onPresenceLinesChange, onModerate, onKick, onClose,
+}: Props) {
+  const here = members.filter((m) => m.status !== "left").length;
+  const listed = (["muted", "blocked"] as const).flatMap((level) =>
+    Object.entries(moderation[level]).map(([id, entry]) => ({ id, level, ...entry }))
+  );
+
+  return (
+    <div className={["px-4 sm:px-5 py-3 border-b text-sm", dark ? "border-white/10" : "border-slate-200"].join(" ")}>
+      <div className="flex items-center justify-between gap-3 mb-2">
+        <span className="font-semibold">👥 {here} nella stanza</span>
+        <button type="button" onClick={onClose} className="text-xs opacity-70 hover:opacity-100 hover:underline">
+          Chiudi
+        </button>
+      </div>
+
+      <ul className="max-h-56 overflow-y-auto space-y-1">
+        {members.map((m) => (
+          <li key={m.id} className={`flex items-center gap-2 ${m.status === "left" ? "opacity-60" : ""}`}>
+            <div className="relative">
+              <Avatar className="size-7">
+                <AvatarFallback className="text-[10px] font-semibold text-white" style={{ backgroundColor: m.color }}>
+                  {initials(m.nick)}
+                </AvatarFallback>
+              </Avatar>
+              <span
+                className={[
+                  "absolute -bottom-0.5 -right-0.5 h-2.5 w-2.5 rounded-full border-2",
+                  dark ? "border-[#0b0f14]" : "border-white",
+                  STATUS[m.status].dot,
+                ].join(" ")}
+              />
+            </div>
+            <span className="truncate">
+              {m.label}
+              {m.id === self && <span className="opacity-60"> (tu)</span>}
+            </span>
+            <span className="ml-auto shrink-0 text-xs opacity-60">{STATUS[m.status].label(m.since)}</span>
+            {m.id !== self && (
+              <span className="shrink-0 flex items-center gap-1 text-xs">
+                {LEVELS.map(({ level, icon, on, off }) => {
+                  const active = moderationOf(moderation, m.id) === level;
+                  return (
+                    <button
+                      key={level}
+                      type="button"
+                      onClick={() => onModerate(m.id, m.nick, active ? null : level)}
+                      title={active ? on : off}
+                      aria-pressed={active}
+                      className={`rounded px-1 ${active ? "bg-amber-500/20" : "opacity-50 hover:opacity-100"}`}
+                    >
+                      {icon}
+                    </button>
+                  );
+                })}
+                {canKick && m.pk && (
+                  <button
+                    type="button"
+                    onClick={() => onKick(m)}
+                    className="rounded px-1.5 text-red-300 hover:bg-red-500/10"
+                    title="Toglie l'accesso alla stanza a questo dispositivo"
+                  >
+                    Espelli
+                  </button>
+                )}
+              </span>
+            )}
+          </li>
+        ))}
+        {!members.length && <li className="text-xs opacity-60">Nessuno collegato.</li>}
+      </ul>
+
+      {listed.length > 0 && (
+        <div className="mt-3 text-xs">
+          <div className="opacity-70 mb-1">Persone silenziate o bloccate su questo dispositivo</div>
+          <ul className="space-y-0.5">
+            {listed.map((e) => (
+              <li key={e.id} className="flex items-center gap-2">
+                <span>{e.level === "muted" ? "🔇" : "🚫"}</span>
+                <span className="truncate">{e.nick}</span>
+                <button
+                  type="button"
+                  onClick={() => onModerate(e.id, e.nick, null)}
+                  className="ml-auto shrink-0 opacity-70 hover:opacity-100 hover:underline"
+                >
+                  Ripristina
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <label className="mt-3 flex items-center gap-2 text-xs opacity-80">
+        <input type="checkbox" checked={presenceLines} onChange={(e) => onPresenceLinesChange(e.target.checked)} />
+        Mostra ingressi e uscite nella chat
+      </label>
+    </div>
+  );
+}
+
+/** Riga di sistema nel flusso: ingresso o uscita di un partecipante */
+export function PresenceLine({ event, name }: { event: PresenceEvent; name: string }) {
+  return (
+    <div className="flex justify-center">
+      <span className="text-[11px] opacity-50">
+        {event.event === "join" ? `→ ${name} è nella stanza` : `← ${name} ha lasciato la stanza`} · {formatTime(event.at)}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+"use client";
+
+import React, { useState } from "react";
+import { formatTime, initials } from "@/lib/format";
+import type { TrustStatus } from "@/lib/identity";
+import { snippet, type Message, type ReactionGroup } from "@/lib/messages";
+import type { ModerationLevel } from "@/lib/moderation";
+import AttachmentView from "@/components/chat/AttachmentView";
+import HighlightedText from "@/components/chat/HighlightedText";
+
+const TRUST_BADGE: Record<TrustStatus, { label: string; title: string }> = {
+  verified: { label: "✔ verificato", title: "Firma valida, chiave verificata col numero di sicurezza" },
+  trusted: { label: "🔏", title: "Firma valida (chiave vista la prima volta in questa stanza)" },
+  changed: { label: "⚠️ chiave cambiata", title: "Questo nome era di un altro partecipante: verifica prima di fidarti" },
+  invalid: { label: "❌ firma non valida", title: "La firma del messaggio non è valida" },
+  unsigned: { label: "non firmato", title: "Messaggio senza firma del dispositivo" },
+};
+
+type Props = {
+  m: Message;
+  mine: boolean;
+  dark: boolean;
+  nameOf: (m: Message) => string; // nickname disambiguato ("Luca #2")
+  color: string;                  // colore dell'autore (dal suo id)
+  canRewrite: boolean;
+  muted: boolean;     // autore silenziato: la bolla resta chiusa finché non la si apre
+  highlighted: boolean;
+  quoted?: Message;   // messaggio citato, se caricato
+  replies: Message[]; // risposte a questo messaggio (thread)
+  reactions: ReactionGroup[];
+  searchTerms?: string[]; // ricerca aperta: termini da evidenziare nel testo
+  onInspect: (m: Message) => void; // apre il numero di sicurezza (solo messaggi firmati)
+  onEdit: (m: Message) => void;
+  onRetract: (m: Message) => void;
+  onReply: (m: Message) => void;
+  onJumpTo: (id: string) => void;
+  onReact: (m: Message, emoji: string) => void;
+  onResend: (m: Message) => void;
+  onDiscard: (m: Message) => void;
+  onModerate: (m: Message, level: ModerationLevel) => void;
+};
+
+const QUICK_REACTIONS = ["👍", "❤️", "😂", "😮", "😢", "🙏"];
+
+/** Bolla di un messaggio (manomesso, ritirato o normale) */
+export default function MessageBubble({
+  m, mine, dark, nameOf, color, canRewrite, muted, highlighted, quoted, replies, reactions, searchTerms,
+  onInspect, onEdit, onRetract, onReply, onJumpTo, onReact, onResend, onDiscard, onModerate,
+}: Props) {
+  const [threadOpen, setThreadOpen] = useState(false);
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const [revealed, setRevealed] = useState(false);
+
+  if (m.integrity === "tampered") {
+    return (
+      <div id={`msg-${m.id}`} className="flex justify-center">
+        <div
+          className="max-w-[85%] rounded-xl border border-dashed border-red-400/50 bg-red-500/10 text-red-300 px-3 py-2 text-xs"
+          title="Autenticazione fallita: stanza, autore, ora o id non corrispondono alla busta cifrata"
+        >
+          ⚠️ Messaggio manomesso da <b>{m.author ? nameOf(m) : "?"}</b> · {formatTime(m.created_at)}
+        </div>
+      </div>
+    );
+  }
+
+  if (m.deleted) {
+    return (
+      <div id={`msg-${m.id}`} className={`flex ${mine ? "justify-end" : "justify-start"}`}>
+        <div className="max-w-[85%] rounded-2xl border border-dashed border-slate-500/40 px-3 py-2 text-xs italic opacity-60">
+          🚫 Messaggio eliminato{mine ? "" : ` da ${nameOf(m)}`} · {formatTime(m.sent_at ?? m.created_at)}
+        </div>
+      </div>
+    );
+  }
+
+  if (muted && !revealed) {
+    return (
+      <div id={`msg-${m.id}`} className="flex justify-start">
+        <div className="max-w-[85%] rounded-2xl border border-dashed border-slate-500/40 px-3 py-2 text-xs opacity-60">
+          🔇 Messaggio di {nameOf(m)} · {formatTime(m.sent_at ?? m.created_at)} ·{" "}
+          <button type="button" onClick={() => setRevealed(true)} className="underline-offset-2 hover:underline">
+            Mostra
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div id={`msg-${m.id}`} className={`group flex flex-col ${mine ? "items-end" : "items-start"}`}>
+      <div
+        className={[
+          "max-w-[85%] sm:max-w-[75%] rounded-2xl px-3 py-2 shadow-sm transition-shadow",
+          m.delivery ? "opacity-70" : "",
+          highlighted ? "ring-2 ring-amber-400" : "",
+          mine
+            ? "bg-gradient-to-br from-sky-600 to-cyan-600 text-white rounded-br-sm"
+            : dark
+            ? "bg-white/5 border border-white/10 rounded-bl-sm"
+            : "bg-white border rounded-bl-sm",
+        ].join(" ")}
+      >
+        <div className={`text-[11px] mb-1 ${mine ? "opacity-90" : "opacity-80"}`}>
+          {!mine && (
+            <span
+              className="inline-grid place-items-center h-4 w-4 mr-1.5 rounded-full text-[8px] font-semibold text-white align-middle"
+              style={{ backgroundColor: color }}
+              aria-hidden
+            >
+              {initials(m.author)}
+            </span>
+          )}
+          {mine ? "Tu" : nameOf(m)}
+          {m.integrity === "ok" && (
+            <button
+              type="button"
+              onClick={() => m.pk && onInspect(m)}
+              disabled={!m.pk}
+              title={TRUST_BADGE[m.trust].title}
+              className={[
+                "ml-2 px-1.5 rounded",
+                m.trust === "changed" || m.trust === "invalid"
+                  ? "bg-amber-500/20 text-amber-300 font-semibold"
+                  : "opacity-80 hover:opacity-100",
+              ].join(" ")}
+            >
+              {TRUST_BADGE[m.trust].label}
+            </button>
+          )}
+          {m.integrity === "legacy" && (
+            <span
+              className="ml-2 px-1.5 rounded border border-current/30 opacity-80"
+              title="Formato legacy: autore e ora non sono autenticati"
+            >
+              legacy
+            </span>
+          )}
+        </div>
+        {m.replyTo && (
+          <button
+            type="button"
+            onClick={() => m.replyTo && onJumpTo(m.replyTo)}
+            className={[
+              "mb-1 block w-full text-left rounded-lg border-l-2 px-2 py-1 text-xs",
+              mine ? "border-white/70 bg-white/10" : "border-sky-400 bg-sky-500/10",
+            ].join(" ")}
+            title="Vai al messaggio originale"
+          >
+            {quoted ? (
+              <>
+                <span className="font-semibold">{nameOf(quoted)}</span>
+                <span className="block opacity-80 truncate">{snippet(quoted)}</span>
+              </>
+            ) : (
+              <span className="italic opacity-70">Messaggio non disponibile</span>
+            )}
+          </button>
+        )}
+        {m.attachment && <AttachmentView meta={m.attachment} mine={mine} />}
+        {m.content && (
+          <div className="whitespace-pre-wrap break-words">
+            <HighlightedText text={m.content} terms={searchTerms} />
+          </div>
+        )}
+        <div className={`text-[10px] mt-1 flex items-center justify-end gap-2 ${mine ? "opacity-90" : "opacity-70"}`}>
+          <button type="button" onClick={() => onReply(m)} className="hidden group-hover:inline underline-offset-2 hover:underline">
+            Rispondi
+          </button>
+          <button
+            type="button"
+            onClick={() => setPickerOpen((v) => !v)}
+            className="hidden group-hover:inline"
+            title="Reagisci"
+          >
+            😊＋
+          </button>
+          {!mine && (
+            <span className="hidden group-hover:inline-flex gap-2">
+              {!muted && (
+                <button type="button" onClick={() => onModerate(m, "muted")} className="underline-offset-2 hover:underline">
+                  Silenzia
+                </button>
+              )}
+              <button type="button" onClick={() => onModerate(m, "blocked")} className="underline-offset-2 hover:underline">
+                Blocca
+              </button>
+            </span>
+          )}
+          {canRewrite && (
+            <span className="hidden group-hover:inline-flex gap-2">
+              <button type="button" onClick={() => onEdit(m)} className="underline-offset-2 hover:underline">
+                Modifica
+              </button>
+              <button type="button" onClick={() => onRetract(m)} className="underline-offset-2 hover:underline">
+                Elimina
+              </button>
+            </span>
+          )}
+          {m.edited && <span title={`Modificato alle ${formatTime(m.edited)}`}>modificato</span>}
+          <span>{formatTime(m.sent_at ?? m.created_at)}</span>
+          {m.delivery === "pending" && <span title="In attesa di invio (verrà ritentato)">⏳</span>}
+        </div>
+      </div>
+
+      {m.delivery === "failed" && (
+        <div className="mt-1 flex gap-3 text-xs text-red-300">
+          <span>⚠️ Non inviato</span>
+          <button type="button" onClick={() => onResend(m)} className="underline">
+            Riprova
+          </button>
+          <button type="button" onClick={() => onDiscard(m)} className="underline opacity-80">
+            Scarta
+          </button>
+        </div>
+      )}
+
+      {pickerOpen && (
+        <div className={["mt-1 flex gap-1 rounded-full border px-2 py-1",
+          dark ? "bg-[#0b0f14] border-white/10" : "bg-white border-slate-200"].join(" ")}>
+          {QUICK_REACTIONS.map((emoji) => (
+            <button
+              key={emoji}
+              type="button"
+              onClick={() => {
+                onReact(m, emoji);
+                setPickerOpen(false);
+              }}
+              className="hover:scale-125 transition-transform"
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {reactions.length > 0 && (
+        <div className="mt-1 flex flex-wrap gap-1">
+          {reactions.map((g) => (
+            <button
+              key={g.emoji}
+              type="button"
+              onClick={() => onReact(m, g.emoji)}
+              title={g.authors.join(", ")}
+              className={[
+                "h-6 px-2 rounded-full border text-xs",
+                g.mine
+                  ? "border-sky-400/60 bg-sky-500/20"
+                  : dark ? "border-white/10 bg-white/5" : "border-slate-200 bg-white",
+              ].join(" ")}
+            >
+              {g.emoji} {g.authors.length}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* thread: risposte a questo messaggio */}
+      {replies.length > 0 && (
+        <div className="mt-1 max-w-[85%] sm:max-w-[75%] text-xs">
+          <button type="button" onClick={() => setThreadOpen((v) => !v)} className="opacity-70 hover:opacity-100">
+            💬 {replies.length} {replies.length === 1 ? "risposta" : "risposte"} {threadOpen ? "▴" : "▾"}
+          </button>
+          {threadOpen && (
+            <ul className={["mt-1 space-y-1 border-l-2 pl-2", dark ? "border-white/15" : "border-slate-300"].join(" ")}>
+              {replies.map((r) => (
+                <li key={r.id}>
+                  <button type="button" onClick={() => onJumpTo(r.id)} className="text-left hover:underline">
+                    <b>{nameOf(r)}</b> <span className="opacity-60">{formatTime(r.sent_at ?? r.created_at)}</span>
+                    <span className="block opacity-80">{snippet(r, 120)}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
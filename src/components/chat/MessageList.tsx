@@ -0,0 +1,153 @@
+"use client";
+
+import React, { useCallback, useEffect, useImperativeHandle, useLayoutEffect, useRef, useState } from "react";
+import { useVirtualizer } from "@tanstack/react-virtual";
+
+export type MessageListHandle = {
+  /** `false` se il messaggio non è tra quelli caricati */
+  scrollToMessage: (id: string) => boolean;
+  /** Porta in fondo e ci resta anche per i messaggi che arrivano subito dopo (es. appena inviati) */
+  scrollToLatest: () => void;
+};
+
+/** Messaggi, o messaggi intercalati da righe di sistema (ingressi e uscite): basta un id stabile */
+type Props<T extends { id: string }> = {
+  messages: T[];
+  dark: boolean;
+  hasOlder: boolean;
+  loadingOlder: boolean;
+  onLoadOlder: () => void;
+  renderMessage: (m: T) => React.ReactNode;
+  ref?: React.Ref<MessageListHandle>;
+};
+
+const ESTIMATED_HEIGHT = 88;
+const BOTTOM_SLACK_PX = 80;  // entro questa distanza dal fondo si considera "in fondo"
+const LOAD_OLDER_PX = 400;   // distanza dall'alto a cui si chiede la pagina precedente
+
+/**
+ * Lista virtualizzata: nel DOM ci sono solo i messaggi visibili (più qualche margine).
+ * In cima carica la pagina precedente mantenendo la posizione; in fondo segue i nuovi
+ * messaggi solo se l'utente era già lì, altrimenti mostra "Vai agli ultimi".
+ */
+export default function MessageList<T extends { id: string }>({
+  messages, dark, hasOlder, loadingOlder, onLoadOlder, renderMessage, ref,
+}: Props<T>) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const stickRef = useRef(true);
+  const [atBottom, setAtBottom] = useState(true);
+  const [unseen, setUnseen] = useState(0);
+
+  const virtualizer = useVirtualizer({
+    count: messages.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => ESTIMATED_HEIGHT,
+    getItemKey: (i) => messages[i].id, // le altezze misurate seguono l'id anche quando si aggiunge in testa
+    overscan: 8,
+  });
+
+  const scrollToEnd = useCallback(() => {
+    if (messages.length) virtualizer.scrollToIndex(messages.length - 1, { align: "end" });
+  }, [messages.length, virtualizer]);
+
+  const followLatest = useCallback(() => {
+    stickRef.current = true;
+    setUnseen(0);
+    scrollToEnd();
+  }, [scrollToEnd]);
+
+  useImperativeHandle(ref, () => ({
+    scrollToMessage(id) {
+      const index = messages.findIndex((m) => m.id === id);
+      if (index < 0) return false;
+      stickRef.current = false;
+      virtualizer.scrollToIndex(index, { align: "center" });
+      return true;
+    },
+    scrollToLatest: followLatest,
+  }), [messages, virtualizer, followLatest]);
+
+  // prima e ultima riga del render precedente: distinguono pagina vecchia in testa da messaggi nuovi in coda
+  const prevRef = useRef({ firstId: "", lastId: "", total: 0, offset: 0 });
+  useLayoutEffect(() => {
+    const prev = prevRef.current;
+    const firstId = messages[0]?.id ?? "";
+    const lastId = messages[messages.length - 1]?.id ?? "";
+    const el = scrollRef.current;
+
+    if (!messages.length) {
+      stickRef.current = true;
+      setUnseen(0);
+    } else if (prev.firstId && firstId !== prev.firstId && messages.some((m) => m.id === prev.firstId)) {
+      // pagina precedente aggiunta sopra: sposto lo scroll di quanto è cresciuto il contenuto
+      if (el) el.scrollTop = prev.offset + (virtualizer.getTotalSize() - prev.total);
+    }
+    if (lastId && lastId !== prev.lastId) {
+      if (stickRef.current) scrollToEnd();
+      else if (prev.lastId) setUnseen((n) => n + 1);
+    }
+    prevRef.current = { firstId, lastId, total: virtualizer.getTotalSize(), offset: el?.scrollTop ?? 0 };
+  }, [messages, virtualizer, scrollToEnd]);
+
+  // pagina corta (tutto visibile senza scroll): chiedo subito la precedente
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el && hasOlder && !loadingOlder && el.scrollHeight <= el.clientHeight) onLoadOlder();
+  }, [messages.length, hasOlder, loadingOlder, onLoadOlder]);
+
+  function onScroll() {
+    const el = scrollRef.current;
+    if (!el) return;
+    const bottom = el.scrollHeight - el.scrollTop - el.clientHeight < BOTTOM_SLACK_PX;
+    stickRef.current = bottom;
+    setAtBottom(bottom);
+    if (bottom) setUnseen(0);
+    prevRef.current.offset = el.scrollTop;
+    prevRef.current.total = virtualizer.getTotalSize();
+    if (el.scrollTop < LOAD_OLDER_PX && hasOlder && !loadingOlder) onLoadOlder();
+  }
+
+  return (
+    <div className="relative">
+      <div
+        ref={scrollRef}
+        onScroll={onScroll}
+        className={["h-[56vh] sm:h-[60vh] overflow-y-auto pr-2 rounded-2xl p-3 [overflow-anchor:none]",
+          dark ? "bg-black/20 border border-white/10" : "bg-slate-50 border"].join(" ")}
+      >
+        <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+          {virtualizer.getVirtualItems().map((item) => (
+            <div
+              key={item.key}
+              data-index={item.index}
+              ref={virtualizer.measureElement}
+              className="absolute left-0 top-0 w-full pb-3"
+              style={{ transform: `translateY(${item.start}px)` }}
+            >
+              {renderMessage(messages[item.index])}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {loadingOlder && (
+        <div className="pointer-events-none absolute top-2 inset-x-0 flex justify-center">
+          <span className={["rounded-full px-3 py-1 text-xs shadow",
+            dark ? "bg-[#0f1620] text-slate-300" : "bg-white text-slate-600"].join(" ")}>
+            Carico messaggi precedenti…
+          </span>
+        </div>
+      )}
+
+      {!atBottom && messages.length > 0 && (
+        <button
+          type="button"
+          onClick={followLatest}
+          className="absolute bottom-3 right-5 h-9 px-3 rounded-full bg-sky-600 text-white text-sm shadow-lg hover:bg-sky-700"
+        >
+          ↓ Vai agli ultimi{unseen ? ` (${unseen})` : ""}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import React, { useState } from "react";
+import type { PushSettings } from "@/lib/push";
+
+type Props = {
+  settings: PushSettings | null;
+  available: boolean;
+  dark: boolean;
+  onEnable: (preview: boolean) => Promise<void>;
+  onUpdate: (patch: Partial<Pick<PushSettings, "muted" | "preview">>) => Promise<void>;
+  onDisable: () => Promise<void>;
+};
+
+/** Notifiche push della stanza: attiva, silenzia, anteprima del testo, disattiva */
+export default function PushMenu({ settings, available, dark, onEnable, onUpdate, onDisable }: Props) {
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [preview, setPreview] = useState(false);
+
+  const run = (fn: () => Promise<void>) => async () => {
+    setBusy(true);
+    try {
+      await fn();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const icon = !settings ? "🔕" : settings.muted ? "🔇" : "🔔";
+  const item = "w-full text-left px-3 py-2 rounded-lg hover:bg-white/5 disabled:opacity-50";
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen((o) => !o)}
+        className="h-9 px-3 rounded-lg border border-slate-600/40 hover:bg-white/5 text-sm"
+        title="Notifiche della stanza"
+      >
+        {icon} Notifiche
+      </button>
+
+      {open && (
+        <div
+          className={["absolute right-0 mt-2 w-64 z-20 rounded-xl border p-2 text-sm shadow-lg",
+            dark ? "bg-[#0f1620] border-white/10" : "bg-white border-slate-200"].join(" ")}
+        >
+          {!available ? (
+            <p className="px-3 py-2 opacity-70">Notifiche push non disponibili qui (browser o server non configurato).</p>
+          ) : !settings ? (
+            <>
+              <label className="flex items-start gap-2 px-3 py-2">
+                <input type="checkbox" checked={preview} onChange={(e) => setPreview(e.target.checked)} className="mt-1" />
+                <span>
+                  Mostra il testo
+                  <span className="block text-xs opacity-70">
+                    Il testo viene decifrato su questo dispositivo, che conserva solo la chiave delle anteprime.
+                  </span>
+                </span>
+              </label>
+              <button disabled={busy} onClick={run(() => onEnable(preview))} className={item}>
+                Attiva notifiche
+              </button>
+            </>
+          ) : (
+            <>
+              <button disabled={busy} onClick={run(() => onUpdate({ muted: !settings.muted }))} className={item}>
+                {settings.muted ? "Riattiva" : "Silenzia questa stanza"}
+              </button>
+              <button disabled={busy} onClick={run(() => onUpdate({ preview: !settings.preview }))} className={item}>
+                {settings.preview ? "Nascondi il testo" : "Mostra il testo"}
+              </button>
+              <button disabled={busy} onClick={run(onDisable)} className={`${item} text-red-400`}>
+                Disattiva notifiche
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import React, { useState } from "react";
+import type { RotationProgress } from "@/lib/rotation";
+
+type Props = {
+  progress: RotationProgress | null; // non null = rotazione in corso
+  dark: boolean;
+  onSubmit: (newPassword: string) => void;
+  onClose: () => void;
+};
+
+/** Nuova password della stanza (solo owner) e avanzamento della ricifratura */
+export default function RotatePasswordPanel({ progress, dark, onSubmit, onClose }: Props) {
+  const [next, setNext] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const mismatch = !!confirm && next !== confirm;
+  const pct = progress && progress.total ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  return (
+    <div className="fixed inset-0 z-30 grid place-items-center bg-black/50 p-4" onClick={progress ? undefined : onClose}>
+      <div
+        className={["w-full max-w-md rounded-2xl border p-5 shadow-lg",
+          dark ? "bg-[#0b0f14] border-white/10" : "bg-white border-slate-200"].join(" ")}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-lg font-semibold mb-1">Cambia password della stanza</h2>
+        <p className="text-xs opacity-70 mb-4">
+          La cronologia viene ricifrata nel browser con la nuova password. Chi è connesso esce e deve
+          rientrare con la nuova password; chi non la riceve non potrà più leggere la stanza.
+        </p>
+
+        {progress ? (
+          <div className="space-y-2">
+            <div className="h-2 rounded-full bg-slate-600/30 overflow-hidden">
+              <div className="h-full bg-sky-500 transition-all" style={{ width: `${pct}%` }} />
+            </div>
+            <div className="text-xs opacity-70 text-center">
+              {progress.total ? `${progress.done} / ${progress.total} righe ricifrate` : "Avvio…"}
+            </div>
+          </div>
+        ) : (
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (next && next === confirm) onSubmit(next);
+            }}
+          >
+            <input
+              type="password"
+              className="w-full h-10 rounded-lg border px-3 outline-none focus:ring-2 focus:ring-sky-400/70 bg-transparent"
+              placeholder="Nuova password"
+              value={next}
+              onChange={(e) => setNext(e.target.value)}
+              autoFocus
+            />
+            <input
+              type="password"
+              className="w-full h-10 rounded-lg border px-3 outline-none focus:ring-2 focus:ring-sky-400/70 bg-transparent"
+              placeholder="Ripeti la nuova password"
+              value={confirm}
+              onChange={(e) => setConfirm(e.target.value)}
+            />
+            {mismatch && <div className="text-xs text-red-400">Le password non coincidono.</div>}
+            <div className="flex justify-end gap-2">
+              <button type="button" onClick={onClose} className="h-9 px-3 rounded-lg text-sm border border-slate-600/40 hover:bg-white/5">
+                Annulla
+              </button>
+              <button
+                type="submit"
+                disabled={!next || next !== confirm}
+                className="h-9 px-3 rounded-lg text-sm bg-sky-600 text-white hover:bg-sky-700 disabled:opacity-50"
+              >
+                Cambia e ricifra
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
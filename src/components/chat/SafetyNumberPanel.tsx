@@ -0,0 +1,117 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { fingerprint, safetyNumber, type TrustStatus } from "@/lib/identity";
+import type { RoomRole } from "@/lib/roles";
+
+type Props = {
+  author: string;
+  pk: string;          // chiave con cui ha firmato il messaggio selezionato
+  myPk: string;
+  pinnedPk?: string;   // chiave dell'altro partecipante già fissato con questo nome
+  status: TrustStatus;
+  dark: boolean;
+  onVerify: () => void;
+  onAcceptKey: () => void;
+  onClose: () => void;
+  role?: RoomRole;
+  onToggleAdmin?: () => void; // solo per l'owner, su altri partecipanti
+};
+
+/** Pannello per confrontare di persona il numero di sicurezza con un altro partecipante */
+export default function SafetyNumberPanel({
+  author,
+  pk,
+  myPk,
+  pinnedPk,
+  status,
+  dark,
+  onVerify,
+  onAcceptKey,
+  onClose,
+  role,
+  onToggleAdmin,
+}: Props) {
+  const [theirFp, setTheirFp] = useState("");
+  const [myFp, setMyFp] = useState("");
+  const [number, setNumber] = useState("");
+
+  useEffect(() => {
+    let alive = true;
+    Promise.all([fingerprint(pk), fingerprint(myPk), safetyNumber(pk, myPk)]).then(([a, b, n]) => {
+      if (!alive) return;
+      setTheirFp(a);
+      setMyFp(b);
+      setNumber(n);
+    });
+    return () => {
+      alive = false;
+    };
+  }, [pk, myPk]);
+
+  return (
+    <div className="fixed inset-0 z-30 grid place-items-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        className={["w-full max-w-md rounded-2xl border p-5 shadow-lg",
+          dark ? "bg-[#0b0f14] border-white/10" : "bg-white border-slate-200"].join(" ")}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-lg font-semibold mb-1">
+          Verifica {author}
+          {role === "owner" && <span className="ml-2 text-xs font-normal opacity-70">👑 owner</span>}
+          {role === "admin" && <span className="ml-2 text-xs font-normal opacity-70">🛡️ admin</span>}
+        </h2>
+        <p className="text-xs opacity-70 mb-4">
+          Confrontate di persona (o su un canale fidato) il numero qui sotto: deve essere identico su entrambi i dispositivi.
+        </p>
+
+        {status === "changed" && (
+          <div className="mb-4 rounded-lg border border-amber-400/40 bg-amber-500/10 text-amber-300 px-3 py-2 text-sm">
+            ⚠️ {author} sta usando una chiave diversa da quella vista la prima volta
+            {pinnedPk ? " in questa stanza" : ""}. Potrebbe essere un nuovo dispositivo oppure qualcun altro con lo stesso nome.
+          </div>
+        )}
+        {status === "invalid" && (
+          <div className="mb-4 rounded-lg border border-amber-400/40 bg-amber-500/10 text-amber-300 px-3 py-2 text-sm">
+            ❌ La firma di questo messaggio non corrisponde alla chiave indicata, quindi non si può verificare.
+          </div>
+        )}
+
+        <div className="font-mono text-lg tracking-wider text-center rounded-xl border border-slate-600/40 py-3 mb-4">
+          {number || "…"}
+        </div>
+
+        <dl className="text-xs space-y-1 mb-5">
+          <div className="flex justify-between gap-3">
+            <dt className="opacity-70">Chiave di {author}</dt>
+            <dd className="font-mono">{theirFp || "…"}</dd>
+          </div>
+          <div className="flex justify-between gap-3">
+            <dt className="opacity-70">La tua chiave</dt>
+            <dd className="font-mono">{myFp || "…"}</dd>
+          </div>
+        </dl>
+
+        <div className="flex flex-wrap justify-end gap-2">
+          <button onClick={onClose} className="h-9 px-3 rounded-lg text-sm border border-slate-600/40 hover:bg-white/5">
+            Chiudi
+          </button>
+          {onToggleAdmin && role !== "owner" && (
+            <button onClick={onToggleAdmin} className="h-9 px-3 rounded-lg text-sm border border-sky-400/40 hover:bg-sky-500/10">
+              {role === "admin" ? "Revoca admin" : "Rendi admin"}
+            </button>
+          )}
+          {status === "changed" ? (
+            <button onClick={onAcceptKey} className="h-9 px-3 rounded-lg text-sm bg-amber-600 text-white hover:bg-amber-700">
+              Accetta nuova chiave
+            </button>
+          ) : status !== "verified" && status !== "invalid" && (
+            <button onClick={onVerify} className="h-9 px-3 rounded-lg text-sm bg-emerald-600 text-white hover:bg-emerald-700">
+              Numeri uguali: verifica
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { formatTime } from "@/lib/format";
+import { MAX_HITS, searchIndex, tokenize, type SearchIndex, type SearchQuery } from "@/lib/search";
+import HighlightedText from "@/components/chat/HighlightedText";
+
+type Props = {
+  index: SearchIndex;
+  query: SearchQuery;
+  authors: string[];
+  dark: boolean;
+  hasOlder: boolean;
+  loadingOlder: boolean;
+  onChange: (query: SearchQuery) => void;
+  onLoadOlder: () => void;
+  onSelect: (id: string) => void;
+  onClose: () => void;
+};
+
+const field = "h-9 rounded-lg border border-slate-600/40 bg-transparent px-2 text-sm";
+
+/** Ricerca nei messaggi caricati su questo dispositivo: testo, autore e intervallo di date */
+export default function SearchPanel({
+  index, query, authors, dark, hasOlder, loadingOlder, onChange, onLoadOlder, onSelect, onClose,
+}: Props) {
+  const hits = useMemo(() => searchIndex(index, query), [index, query]);
+  const terms = useMemo(() => tokenize(query.text), [query.text]);
+  const active = !!(terms.length || query.author || query.from || query.to);
+
+  return (
+    <div className={["rounded-xl border p-3 space-y-3",
+      dark ? "bg-[#0f1620] border-white/10" : "bg-white border-slate-200"].join(" ")}>
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          autoFocus
+          type="search"
+          value={query.text}
+          onChange={(e) => onChange({ ...query, text: e.target.value })}
+          onKeyDown={(e) => e.key === "Escape" && onClose()}
+          placeholder="Cerca nei messaggi…"
+          className={`${field} flex-1 min-w-[10rem]`}
+        />
+        <select
+          value={query.author ?? ""}
+          onChange={(e) => onChange({ ...query, author: e.target.value || undefined })}
+          className={field}
+        >
+          <option value="" className="text-slate-900">Tutti</option>
+          {authors.map((a) => (
+            <option key={a} value={a} className="text-slate-900">{a}</option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={query.from ?? ""}
+          max={query.to}
+          onChange={(e) => onChange({ ...query, from: e.target.value || undefined })}
+          className={field}
+          title="Dal giorno"
+        />
+        <input
+          type="date"
+          value={query.to ?? ""}
+          min={query.from}
+          onChange={(e) => onChange({ ...query, to: e.target.value || undefined })}
+          className={field}
+          title="Al giorno"
+        />
+        <button type="button" onClick={onClose} className="h-9 px-3 rounded-lg border border-slate-600/40 hover:bg-white/5 text-sm">
+          Chiudi
+        </button>
+      </div>
+
+      {active && (
+        <div className="max-h-64 overflow-y-auto space-y-1">
+          {hits.map((h) => (
+            <button
+              key={h.id}
+              type="button"
+              onClick={() => onSelect(h.id)}
+              className="w-full text-left rounded-lg px-2 py-1.5 text-sm hover:bg-white/5"
+            >
+              <span className="text-xs opacity-70">
+                <b>{h.author}</b> · {new Date(h.at).toLocaleDateString()} {formatTime(h.at)}
+              </span>
+              <span className="block truncate">
+                <HighlightedText text={h.text} terms={terms} />
+              </span>
+            </button>
+          ))}
+          {!hits.length && <p className="px-2 py-1.5 text-sm opacity-70">Nessun risultato.</p>}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-3 text-xs opacity-70">
+        <span>
+          {active && `${hits.length === MAX_HITS ? `Primi ${MAX_HITS}` : hits.length} risultati · `}
+          {index.docs.size} messaggi caricati, cercati solo su questo dispositivo
+        </span>
+        {hasOlder && (
+          <button type="button" onClick={onLoadOlder} disabled={loadingOlder} className="underline disabled:opacity-50">
+            {loadingOlder ? "Carico…" : "Cerca anche più indietro"}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+/* ========== Client per le route /api (browser) ========== */
+import type { AdminProof, DeviceProof, RoomAdmin, RoomRoles } from "@/lib/roles";
+import type { ChatTable, NewRow } from "@/lib/transport/types";
+
+export class ApiError extends Error {
+  constructor(message: string, public status: number, public body: Record<string, unknown>) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+async function apiFetch<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) throw new ApiError(body?.error ?? `Errore HTTP ${res.status}`, res.status, body);
+  return body as T;
+}
+
+/* ---------- /api/rooms/join ---------- */
+export type RoomInfoResponse = {
+  exists: boolean;
+  kdfSalt: string | null; // null = stanza nuova o creata prima del salt per-stanza
+  legacy: boolean;        // true = accesso ancora verificato con `pass_hash` SHA-256
+  ttlSeconds: number | null;
+  rotating: boolean;          // rotazione della password avviata e non ancora confermata
+  clearedAt: string | null;   // ultima "Elimina cronologia"
+};
+
+export type JoinRoomRequest = {
+  room: string;
+  verifier: string;     // base64, sottochiave HKDF "verifier"
+  kdfSalt: string;      // salt con cui è stato derivato il verifier
+  legacyHash?: string;  // solo per migrare stanze legacy
+  ttlSeconds?: number;  // solo alla creazione: uno di ROOM_TTLS
+  device: DeviceProof;  // chiave del dispositivo (firmata): diventa owner se la stanza non ne ha uno
+};
+
+/** JWT con claim `room` e `pk` per le policy RLS di Supabase (null = server senza `SUPABASE_JWT_SECRET`) */
+export type RoomToken = { token: string; expiresAt: string };
+
+export type JoinRoomResponse = {
+  created: boolean;
+  migrated: boolean;
+  kdfSalt: string;
+  ttlSeconds: number | null;
+  clearedAt: string | null; // ultima "Elimina cronologia": se cambia, la copia locale non vale più
+  roles: RoomRoles;
+  access: RoomToken | null;
+};
+
+export function getRoomInfo(room: string) {
+  return apiFetch<RoomInfoResponse>(`/api/rooms/join?room=${encodeURIComponent(room)}`);
+}
+
+export function postJoinRoom(req: JoinRoomRequest) {
+  return apiFetch<JoinRoomResponse>("/api/rooms/join", { method: "POST", body: JSON.stringify(req) });
+}
+
+/* ---------- /api/messages ---------- */
+export type InsertRowRequest = { table: ChatTable; row: NewRow };
+
+/** INSERT del backend Supabase: passa dalla route, che applica limiti di frequenza e dimensione */
+export function postChatRow(req: InsertRowRequest, token: string | null) {
+  return apiFetch<{ ok: true }>("/api/messages", {
+    method: "POST",
+    body: JSON.stringify(req),
+    headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+  });
+}
+
+/* ---------- /api/rooms/token ---------- */
+export type RoomTokenRequest = { room: string; verifier: string; device: DeviceProof };
+export type RoomTokenResponse = { access: RoomToken | null };
+
+export function postRoomToken(req: RoomTokenRequest) {
+  return apiFetch<RoomTokenResponse>("/api/rooms/token", { method: "POST", body: JSON.stringify(req) });
+}
+
+/* ---------- /api/push ---------- */
+export type PushSubscriptionRequest = {
+  room: string;
+  verifier: string;             // stesso verifier del join: solo i membri si iscrivono
+  device: DeviceProof;          // chiave del dispositivo: i propri messaggi non si notificano
+  subscription: PushSubscriptionJSON;
+  muted: boolean;
+};
+
+export type PushUnsubscribeRequest = {
+  room: string;
+  endpoint: string;
+  verifier: string;
+};
+
+export function postPushSubscription(req: PushSubscriptionRequest) {
+  return apiFetch<{ ok: true }>("/api/push", { method: "POST", body: JSON.stringify(req) });
+}
+
+export function deletePushSubscription(req: PushUnsubscribeRequest) {
+  return apiFetch<{ ok: true }>("/api/push", { method: "DELETE", body: JSON.stringify(req) });
+}
+
+/* ---------- azioni riservate a owner/admin ---------- */
+export type ClearRoomRequest = { room: string; proof: AdminProof };
+export type GrantAdminRequest = { room: string; proof: AdminProof; target: RoomAdmin };
+export type RevokeAdminRequest = { room: string; proof: AdminProof; pk: string };
+export type RoomSettings = { ttlSeconds: number };
+export type RoomSettingsRequest = { room: string; proof: AdminProof; settings: RoomSettings };
+export type KickRequest = { room: string; proof: AdminProof; pk: string };
+
+export function postClearRoom(req: ClearRoomRequest) {
+  return apiFetch<{ ok: true }>("/api/rooms/clear", { method: "POST", body: JSON.stringify(req) });
+}
+
+export function getRoomRoles(room: string) {
+  return apiFetch<RoomRoles>(`/api/rooms/admins?room=${encodeURIComponent(room)}`);
+}
+
+export function postGrantAdmin(req: GrantAdminRequest) {
+  return apiFetch<RoomRoles>("/api/rooms/admins", { method: "POST", body: JSON.stringify(req) });
+}
+
+export function deleteAdmin(req: RevokeAdminRequest) {
+  return apiFetch<RoomRoles>("/api/rooms/admins", { method: "DELETE", body: JSON.stringify(req) });
+}
+
+export function patchRoomSettings(req: RoomSettingsRequest) {
+  return apiFetch<{ ok: true; settings: RoomSettings }>("/api/rooms/settings", {
+    method: "PATCH",
+    body: JSON.stringify(req),
+  });
+}
+
+export function postKick(req: KickRequest) {
+  return apiFetch<RoomRoles>("/api/rooms/kick", { method: "POST", body: JSON.stringify(req) });
+}
+
+/* ---------- /api/rooms/rotate (solo owner) ---------- */
+export type RekeyedRow = { table: "messages" | "reactions"; id: string; content: string };
+
+export type RotateStep =
+  | { phase: "begin"; kdfSalt: string; verifier: string } // nuovo salt + verifier della nuova password
+  | { phase: "batch"; rows: RekeyedRow[] }                // righe ricifrate
+  | { phase: "commit"; verifier: string };                // la nuova password diventa quella della stanza
+
+export type RotateRequest = { room: string; proof: AdminProof; step: RotateStep };
+
+export type RotateResponse = { ok: true; updated?: number };
+
+export function postRotateStep(req: RotateRequest) {
+  return apiFetch<RotateResponse>("/api/rooms/rotate", { method: "POST", body: JSON.stringify(req) });
+}
+
+/* ---------- /api/invites ---------- */
+export type CreateInviteRequest = {
+  room: string;
+  verifier: string;
+  sealed: string;      // password cifrata col segreto del fragment: il server non la legge
+  expiresIn: number;   // secondi, uno di INVITE_EXPIRIES
+  singleUse: boolean;
+};
+
+export type CreateInviteResponse = { id: string; expiresAt: string };
+
+export type RedeemInviteRequest = { room: string; id: string };
+
+export type RedeemInviteResponse = { sealed: string };
+
+export function postCreateInvite(req: CreateInviteRequest) {
+  return apiFetch<CreateInviteResponse>("/api/invites", { method: "POST", body: JSON.stringify(req) });
+}
+
+export function postRedeemInvite(req: RedeemInviteRequest) {
+  return apiFetch<RedeemInviteResponse>("/api/invites/redeem", { method: "POST", body: JSON.stringify(req) });
+}
@@ -0,0 +1,104 @@
+/* ========== Allegati cifrati (file e immagini) ========== */
+import { roomAccessToken, supabase } from "@/lib/supabase";
+import { fromB64, roomFolder, toB64 } from "@/lib/encoding";
+
+/**
+ * Ogni file è cifrato nel browser con una chiave AES-GCM nuova; sul backend finisce solo il
+ * ciphertext. Chiave, iv e metadati viaggiano dentro la busta cifrata del messaggio.
+ *
+ * Backend (NEXT_PUBLIC_ATTACHMENT_STORE):
+ * - "supabase" (default): bucket Storage `attachments`
+ * - "local": route `/api/attachments/...` che salva su disco (sviluppo/test senza Supabase)
+ */
+export type AttachmentMeta = {
+  path: string;  // `${roomFolder(room)}/${uuid}` (prima `${room}/${uuid}`)
+  name: string;
+  type: string;  // MIME originale
+  size: number;  // byte in chiaro
+  key: string;   // AES-GCM raw, base64
+  iv: string;    // base64
+};
+
+const BUCKET = "attachments";
+const STORE = process.env.NEXT_PUBLIC_ATTACHMENT_STORE === "local" ? "local" : "supabase";
+
+export const MAX_ATTACHMENT_BYTES = Number(process.env.NEXT_PUBLIC_MAX_ATTACHMENT_MB ?? 10) * 1024 * 1024;
+
+export function formatBytes(n: number): string {
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(1)} KB`;
+  return `${(n / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function isImage(meta: Pick<AttachmentMeta, "type">): boolean {
+  return /^image\/(png|jpe?g|gif|webp|avif)$/.test(meta.type);
+}
+
+/* ---------- backend ---------- */
+/** La route locale, come le policy del bucket, vuole il token della stanza */
+async function localRequest(path: string, init: RequestInit = {}): Promise<Response> {
+  const token = await roomAccessToken();
+  const url = path.split("/").map(encodeURIComponent).join("/");
+  return fetch(`/api/attachments/${url}`, { ...init, headers: token ? { Authorization: `Bearer ${token}` } : undefined });
+}
+
+async function putBlob(path: string, blob: Blob): Promise<void> {
+  if (STORE === "local") {
+    const res = await localRequest(path, { method: "PUT", body: blob });
+    if (!res.ok) throw new Error(`Upload fallito (${res.status})`);
+    return;
+  }
+  const { error } = await supabase.storage.from(BUCKET).upload(path, blob, { contentType: "application/octet-stream" });
+  if (error) throw error;
+}
+
+async function getBlob(path: string): Promise<Blob> {
+  if (STORE === "local") {
+    const res = await localRequest(path);
+    if (!res.ok) throw new Error(`Download fallito (${res.status})`);
+    return res.blob();
+  }
+  const { data, error } = await supabase.storage.from(BUCKET).download(path);
+  if (error || !data) throw error ?? new Error("Download fallito");
+  return data;
+}
+
+async function removeBlob(path: string): Promise<void> {
+  if (STORE === "local") {
+    await localRequest(path, { method: "DELETE" });
+    return;
+  }
+  await supabase.storage.from(BUCKET).remove([path]);
+}
+
+/* ---------- cifra + carica / scarica + decifra ---------- */
+export async function uploadAttachment(room: string, file: File): Promise<AttachmentMeta> {
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new Error(`File troppo grande (max ${formatBytes(MAX_ATTACHMENT_BYTES)}).`);
+  }
+  const key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, ["encrypt", "decrypt"]);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ct = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, await file.arrayBuffer());
+  const path = `${await roomFolder(room)}/${crypto.randomUUID()}`;
+  await putBlob(path, new Blob([ct], { type: "application/octet-stream" }));
+  return {
+    path,
+    name: file.name,
+    type: file.type || "application/octet-stream",
+    size: file.size,
+    key: toB64(await crypto.subtle.exportKey("raw", key)),
+    iv: toB64(iv),
+  };
+}
+
+export async function downloadAttachment(meta: AttachmentMeta): Promise<Blob> {
+  const ct = await (await getBlob(meta.path)).arrayBuffer();
+  const key = await crypto.subtle.importKey("raw", fromB64(meta.key), { name: "AES-GCM" }, false, ["decrypt"]);
+  const plain = await crypto.subtle.decrypt({ name: "AES-GCM", iv: new Uint8Array(fromB64(meta.iv)) }, key, ct);
+  return new Blob([plain], { type: meta.type });
+}
+
+/** Best effort: il messaggio è già stato ritirato, un blob orfano è solo spazio sprecato */
+export function deleteAttachment(meta: AttachmentMeta): Promise<void> {
+  return removeBlob(meta.path).catch(() => undefined);
+}
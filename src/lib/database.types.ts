@@ -0,0 +1,339 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  // Allows to automatically instantiate createClient with right options
+  // instead of createClient<Database, { PostgrestVersion: 'XX' }>(URL, KEY)
+  __InternalSupabase: {
+    PostgrestVersion: "12.2.3 (519615d)"
+  }
+  public: {
+    Tables: {
+      messages: {
+        Row: {
+          author: string
+          content: string
+          created_at: string
+          id: string
+          pk: string | null
+          room: string
+        }
+        Insert: {
+          author: string
+          content: string
+          created_at?: string
+          id?: string
+          pk?: string | null
+          room: string
+        }
+        Update: {
+          author?: string
+          content?: string
+          created_at?: string
+          id?: string
+          pk?: string | null
+          room?: string
+        }
+        Relationships: []
+      }
+      push_subscriptions: {
+        Row: {
+          author: string | null
+          created_at: string
+          endpoint: string
+          muted: boolean
+          pk: string | null
+          room: string
+          subscription: Json
+        }
+        Insert: {
+          author?: string | null
+          created_at?: string
+          endpoint: string
+          muted?: boolean
+          pk?: string | null
+          room: string
+          subscription: Json
+        }
+        Update: {
+          author?: string | null
+          created_at?: string
+          endpoint?: string
+          muted?: boolean
+          pk?: string | null
+          room?: string
+          subscription?: Json
+        }
+        Relationships: []
+      }
+      reactions: {
+        Row: {
+          author: string
+          content: string
+          created_at: string
+          id: string
+          pk: string | null
+          room: string
+        }
+        Insert: {
+          author: string
+          content: string
+          created_at?: string
+          id?: string
+          pk?: string | null
+          room: string
+        }
+        Update: {
+          author?: string
+          content?: string
+          created_at?: string
+          id?: string
+          pk?: string | null
+          room?: string
+        }
+        Relationships: []
+      }
+      room_admins: {
+        Row: {
+          created_at: string
+          name: string
+          pk: string
+          room: string
+        }
+        Insert: {
+          created_at?: string
+          name: string
+          pk: string
+          room: string
+        }
+        Update: {
+          created_at?: string
+          name?: string
+          pk?: string
+          room?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "room_admins_room_fkey"
+            columns: ["room"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["room"]
+          },
+        ]
+      }
+      room_kicks: {
+        Row: {
+          created_at: string
+          kicked_by: string
+          pk: string
+          room: string
+        }
+        Insert: {
+          created_at?: string
+          kicked_by: string
+          pk: string
+          room: string
+        }
+        Update: {
+          created_at?: string
+          kicked_by?: string
+          pk?: string
+          room?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "room_kicks_room_fkey"
+            columns: ["room"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["room"]
+          },
+        ]
+      }
+      room_invites: {
+        Row: {
+          created_at: string
+          expires_at: string
+          id: string
+          max_uses: number | null
+          room: string
+          sealed: string
+          uses: number
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          id: string
+          max_uses?: number | null
+          room: string
+          sealed: string
+          uses?: number
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          id?: string
+          max_uses?: number | null
+          room?: string
+          sealed?: string
+          uses?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "room_invites_room_fkey"
+            columns: ["room"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["room"]
+          },
+        ]
+      }
+      rooms: {
+        Row: {
+          cleared_at: string | null
+          created_at: string
+          kdf_salt: string | null
+          owner_pk: string | null
+          pass_hash: string | null
+          room: string
+          rotation: Json | null
+          ttl_seconds: number | null
+          verifier: string | null
+        }
+        Insert: {
+          cleared_at?: string | null
+          created_at?: string
+          kdf_salt?: string | null
+          owner_pk?: string | null
+          pass_hash?: string | null
+          room: string
+          rotation?: Json | null
+          ttl_seconds?: number | null
+          verifier?: string | null
+        }
+        Update: {
+          cleared_at?: string | null
+          created_at?: string
+          kdf_salt?: string | null
+          owner_pk?: string | null
+          pass_hash?: string | null
+          room?: string
+          rotation?: Json | null
+          ttl_seconds?: number | null
+          verifier?: string | null
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      jwt_room: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type DatabaseWithoutInternals = Omit<Database, "__InternalSupabase">
+
+type DefaultSchema = DatabaseWithoutInternals[Extract<keyof Database, "public">]
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema["Tables"] & DefaultSchema["Views"])
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+        DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+      DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])
+    ? (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
+
+export const Constants = {
+  public: {
+    Enums: {},
+  },
+} as const
@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import {
+  decryptMessage,
+  decryptPushPreview,
+  deriveLocalCacheKey,
+  derivePushPreviewKey,
+  deriveRoomKeyring,
+  encryptMessage,
+  encryptPushPreview,
+  encryptTextLegacy,
+  generateRoomSalt,
+  reencryptMessage,
+  type CipherEnvelopeV2,
+  type RoomKeyring,
+} from "./e2ee";
+import { loadDeviceIdentity, type DeviceIdentity } from "./identity";
+
+/* ========== Buste cifrate: dati autenticati v2, buste v1 e replay ========== */
+
+const ROW = { id: "0b8e0f4e-5d0a-4c55-9f4c-7d2b1f0e9a11", room: "stanza", author: "ann" };
+
+describe("e2ee", () => {
+  let keyring: RoomKeyring;
+  let identity: DeviceIdentity;
+
+  before(async () => {
+    keyring = await deriveRoomKeyring("password giusta", generateRoomSalt());
+    identity = await loadDeviceIdentity(); // senza IndexedDB: identità solo per questa sessione
+  });
+
+  const seal = async (text = "ciao") =>
+    JSON.stringify(await encryptMessage({ text }, keyring, { room: ROW.room, author: ROW.author, id: ROW.id }, identity));
+
+  it("una busta v2 si apre sulla sua riga, con timestamp e firma del dispositivo", async () => {
+    const dec = await decryptMessage(await seal(), keyring, ROW);
+    assert.equal(dec.integrity, "ok");
+    assert.equal(dec.body.text, "ciao");
+    assert.equal(typeof dec.ts, "string");
+    assert.deepEqual(dec.signer, { pk: identity.pk, valid: true });
+  });
+
+  it("stanza, autore e id sono dati autenticati: la busta spostata su un'altra riga è manomessa", async () => {
+    const content = await seal();
+    for (const ctx of [{ ...ROW, room: "altra" }, { ...ROW, author: "bob" }, { ...ROW, id: crypto.randomUUID() }]) {
+      assert.equal((await decryptMessage(content, keyring, ctx)).integrity, "tampered");
+    }
+    const env = JSON.parse(content) as CipherEnvelopeV2;
+    const backdated = JSON.stringify({ ...env, ts: "2020-01-01T00:00:00.000Z" });
+    assert.equal((await decryptMessage(backdated, keyring, ROW)).integrity, "tampered");
+  });
+
+  it("con un'altra password la busta non si apre", async () => {
+    const other = await deriveRoomKeyring("password sbagliata", generateRoomSalt());
+    assert.equal((await decryptMessage(await seal(), other, ROW)).integrity, "tampered");
+  });
+
+  it("un id già accettato in sessione è un replay; un falso non brucia l'id", async () => {
+    const content = await seal();
+    const env = JSON.parse(content) as CipherEnvelopeV2;
+    const forged = JSON.stringify({ ...env, ct: env.ct.replace(/^./, (c) => (c === "A" ? "B" : "A")) });
+    const seen = new Set<string>();
+    assert.equal((await decryptMessage(forged, keyring, ROW, seen)).integrity, "tampered");
+    assert.equal((await decryptMessage(content, keyring, ROW, seen)).integrity, "ok");
+    assert.equal((await decryptMessage(content, keyring, ROW, seen)).integrity, "replay");
+    // senza `seen` (UPDATE di un messaggio già mostrato) lo stesso id si riapre
+    assert.equal((await decryptMessage(content, keyring, ROW)).integrity, "ok");
+  });
+
+  it("buste v1 e testo in chiaro si leggono ma restano legacy", async () => {
+    const legacy = JSON.stringify(await encryptTextLegacy("vecchio", "password giusta"));
+    assert.deepEqual(await decryptMessage(legacy, keyring, ROW), { integrity: "legacy", body: { text: "vecchio" } });
+    assert.deepEqual(await decryptMessage("in chiaro", keyring, ROW), { integrity: "legacy", body: { text: "in chiaro" } });
+  });
+
+  it("la ricifratura cambia chiave ma tiene id, timestamp e firma", async () => {
+    const content = await seal("da ruotare");
+    const next = await deriveRoomKeyring("password nuova", generateRoomSalt());
+    const rotated = await reencryptMessage(content, keyring, next, ROW);
+    assert.ok(rotated);
+    assert.equal((await decryptMessage(rotated, keyring, ROW)).integrity, "tampered");
+    const dec = await decryptMessage(rotated, next, ROW);
+    assert.equal(dec.body.text, "da ruotare");
+    assert.equal(dec.ts, (JSON.parse(content) as CipherEnvelopeV2).ts);
+    assert.deepEqual(dec.signer, { pk: identity.pk, valid: true });
+    // già ricifrata: con la vecchia chiave non c'è nulla da aggiornare
+    assert.equal(await reencryptMessage(rotated, keyring, next, ROW), null);
+  });
+
+  it("la sottochiave delle anteprime apre solo le anteprime della sua riga, non la cache locale", async () => {
+    const key = await derivePushPreviewKey(keyring);
+    const sealed = await encryptPushPreview("ciao", key, ROW);
+    assert.equal(await decryptPushPreview(sealed, key, ROW), "ciao");
+    assert.equal(await decryptPushPreview(sealed, key, { ...ROW, author: "bob" }), null);
+    assert.equal(await decryptPushPreview(sealed, await deriveLocalCacheKey(keyring), ROW), null);
+    const cached = await encryptPushPreview("in cache", await deriveLocalCacheKey(keyring), ROW);
+    assert.equal(await decryptPushPreview(cached, key, ROW), null);
+  });
+});
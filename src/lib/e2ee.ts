@@ -0,0 +1,377 @@
+/* ========== E2EE: key schedule e buste cifrate ========== */
+// import relativi: questo modulo entra anche nel service worker (src/worker), che non risolve "@/"
+import { fromB64, toB64 } from "./encoding";
+import { signBytes, verifyBytes, type DeviceIdentity } from "./identity";
+import type { AttachmentMeta } from "./attachments";
+
+/**
+ * Key schedule versionato.
+ * - legacy: PBKDF2 (120k) con salt casuale per OGNI messaggio (buste v1 senza `ks`)
+ * - v1: salt per-stanza salvato in `rooms.kdf_salt`, una sola PBKDF2 al join
+ *   → chiave radice HKDF non estraibile → chiave AES-GCM per messaggio via HKDF
+ */
+export const KEY_SCHEDULES = {
+  1: { iterations: 310_000, hash: "SHA-256" },
+} as const;
+export type KeyScheduleVersion = keyof typeof KEY_SCHEDULES;
+export const CURRENT_KEY_SCHEDULE: KeyScheduleVersion = 1;
+
+const LEGACY_ITERATIONS = 120_000;
+// sottochiavi HKDF indipendenti: il verifier inviato al server non rivela le chiavi dei messaggi
+const MSG_KEY_INFO = "chat-anonima/msg";
+const VERIFIER_INFO = "chat-anonima/verifier";
+const LOCAL_CACHE_INFO = "chat-anonima/local-cache";
+const PUSH_PREVIEW_INFO = "chat-anonima/push-preview";
+
+/** Busta v1: cifra solo `content` (nessun dato autenticato) */
+export type CipherEnvelopeV1 = {
+  v: "v1";
+  alg: "AES-GCM";
+  ks?: KeyScheduleVersion; // assente = legacy (PBKDF2 per messaggio)
+  iv: string;   // base64
+  salt: string; // base64 (salt PBKDF2 se legacy, salt HKDF altrimenti)
+  ct: string;   // base64
+};
+
+/**
+ * Busta v2: stanza, autore, timestamp client e id messaggio entrano come
+ * additional data AES-GCM → non si possono cambiare o spostare senza rompere il tag.
+ */
+export type CipherEnvelopeV2 = {
+  v: "v2";
+  alg: "AES-GCM";
+  ks: KeyScheduleVersion;
+  mid: string;  // id messaggio (uguale a `messages.id`)
+  ts: string;   // timestamp client ISO
+  pl?: 1;       // il testo in chiaro è un MessagePayload JSON (altrimenti testo semplice)
+  iv: string;   // base64
+  salt: string; // base64 (salt HKDF)
+  ct: string;   // base64
+};
+
+/** Contenuto del messaggio (cifrato) */
+export type MessageBody = {
+  text: string;
+  replyTo?: string; // id del messaggio a cui risponde (cifrato: il server non vede il grafo)
+  edited?: string;  // ISO, presente se il messaggio è stato modificato
+  deleted?: true;   // ritirato dall'autore: resta solo il segnaposto
+  reaction?: { to: string; emoji: string }; // solo righe della tabella `reactions`
+  attachment?: AttachmentMeta; // chiave del file inclusa: resta dentro la busta cifrata
+};
+
+/** Testo in chiaro delle buste v2 con `pl: 1`: corpo + firma del dispositivo */
+type MessagePayload = MessageBody & {
+  pk?: string;  // chiave pubblica del dispositivo (base64)
+  sig?: string; // ECDSA su [additional data, payload senza sig]
+};
+
+/** Esito della verifica: `legacy` = v1 / testo in chiaro, nessuna autenticazione del contesto */
+export type Integrity = "ok" | "legacy" | "tampered" | "replay";
+
+export type DecryptedMessage = {
+  integrity: Integrity;
+  body: MessageBody;
+  ts?: string; // timestamp autenticato (solo v2)
+  signer?: { pk: string; valid: boolean }; // assente = messaggio non firmato
+};
+
+/** Contesto della riga DB che la busta deve confermare */
+export type EnvelopeContext = {
+  id: string;
+  room: string;
+  author: string;
+};
+
+/** Chiavi della stanza, derivate una volta per sessione */
+export type RoomKeyring = {
+  version: KeyScheduleVersion;
+  root: CryptoKey;   // HKDF, non estraibile
+  password: string;  // serve solo per decifrare le buste legacy
+};
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/** Salt casuale (base64) da salvare con la stanza alla creazione */
+export function generateRoomSalt(): string {
+  return toB64(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+/* ---------- legacy: una PBKDF2 per messaggio ---------- */
+async function deriveLegacyKey(password: string, salt: ArrayBuffer): Promise<CryptoKey> {
+  const keyMaterial = await crypto.subtle.importKey("raw", textEncoder.encode(password), { name: "PBKDF2" }, false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations: LEGACY_ITERATIONS, hash: "SHA-256" },
+    keyMaterial,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+/* ---------- key schedule per-stanza ---------- */
+export async function deriveRoomKeyring(
+  password: string,
+  roomSalt: string,
+  version: KeyScheduleVersion = CURRENT_KEY_SCHEDULE
+): Promise<RoomKeyring> {
+  const { iterations, hash } = KEY_SCHEDULES[version];
+  const keyMaterial = await crypto.subtle.importKey("raw", textEncoder.encode(password), { name: "PBKDF2" }, false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", salt: fromB64(roomSalt), iterations, hash },
+    keyMaterial,
+    256
+  );
+  const root = await crypto.subtle.importKey("raw", bits, { name: "HKDF" }, false, ["deriveKey", "deriveBits"]);
+  return { version, root, password };
+}
+
+async function deriveMessageKey(keyring: RoomKeyring, salt: ArrayBuffer): Promise<CryptoKey> {
+  return crypto.subtle.deriveKey(
+    { name: "HKDF", hash: "SHA-256", salt, info: textEncoder.encode(MSG_KEY_INFO) },
+    keyring.root,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+/** Verifier di accesso (base64) da inviare a `/api/rooms/join` al posto della password */
+export async function deriveAccessVerifier(keyring: RoomKeyring): Promise<string> {
+  const bits = await crypto.subtle.deriveBits(
+    { name: "HKDF", hash: "SHA-256", salt: new Uint8Array(0), info: textEncoder.encode(VERIFIER_INFO) },
+    keyring.root,
+    256
+  );
+  return toB64(bits);
+}
+
+/** Chiave AES-GCM della cache locale (IndexedDB): cambia con la password, non lascia mai il dispositivo */
+export async function deriveLocalCacheKey(keyring: RoomKeyring): Promise<CryptoKey> {
+  return crypto.subtle.deriveKey(
+    { name: "HKDF", hash: "SHA-256", salt: new Uint8Array(0), info: textEncoder.encode(LOCAL_CACHE_INFO) },
+    keyring.root,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+/**
+ * Chiave AES-GCM delle anteprime push: è l'unica che il service worker conserva. Apre solo le
+ * anteprime cifrate da chi scrive, non i messaggi, la cache locale o il verifier.
+ */
+export async function derivePushPreviewKey(keyring: RoomKeyring): Promise<CryptoKey> {
+  return crypto.subtle.deriveKey(
+    { name: "HKDF", hash: "SHA-256", salt: new Uint8Array(0), info: textEncoder.encode(PUSH_PREVIEW_INFO) },
+    keyring.root,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+/** Vecchio hash SHA-256 di `rooms.pass_hash`: serve solo a migrare le stanze legacy */
+export async function legacyPasswordHash(password: string): Promise<string> {
+  const buf = await crypto.subtle.digest("SHA-256", textEncoder.encode(password));
+  return Array.from(new Uint8Array(buf))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/* ---------- cifra / decifra ---------- */
+function additionalData(ctx: EnvelopeContext, ts: string): string {
+  return JSON.stringify(["chat-anonima/v2", ctx.room, ctx.author, ts, ctx.id]);
+}
+
+/** Byte firmati: lega il payload al contesto della riga (stanza, autore, ora, id) */
+function signedBytes(aad: string, payload: MessagePayload): BufferSource {
+  const unsigned = { ...payload };
+  delete unsigned.sig;
+  return textEncoder.encode(JSON.stringify([aad, unsigned]));
+}
+
+/** AES-GCM con chiave HKDF nuova (salt casuale) per ogni busta */
+async function seal(plain: string, keyring: RoomKeyring, aad?: string): Promise<{ iv: string; salt: string; ct: string }> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveMessageKey(keyring, salt.buffer);
+  const ctBuf = await crypto.subtle.encrypt(
+    aad === undefined ? { name: "AES-GCM", iv } : { name: "AES-GCM", iv, additionalData: textEncoder.encode(aad) },
+    key,
+    textEncoder.encode(plain)
+  );
+  return { iv: toB64(iv), salt: toB64(salt), ct: toB64(ctBuf) };
+}
+
+async function openV2(env: CipherEnvelopeV2, keyring: RoomKeyring, aad: string): Promise<string> {
+  const key = await deriveMessageKey(keyring, fromB64(env.salt));
+  const plainBuf = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: new Uint8Array(fromB64(env.iv)), additionalData: textEncoder.encode(aad) },
+    key,
+    fromB64(env.ct)
+  );
+  return textDecoder.decode(plainBuf);
+}
+
+export async function encryptMessage(
+  body: MessageBody,
+  keyring: RoomKeyring,
+  ctx: Omit<EnvelopeContext, "id"> & { id?: string; ts?: string },
+  identity?: DeviceIdentity
+): Promise<CipherEnvelopeV2> {
+  // id e ts espliciti solo per ricifrare un messaggio esistente (modifica / ritiro)
+  const mid = ctx.id ?? crypto.randomUUID();
+  const ts = ctx.ts ?? new Date().toISOString();
+  const aad = additionalData({ room: ctx.room, author: ctx.author, id: mid }, ts);
+  const payload: MessagePayload = { ...body };
+  if (identity) {
+    payload.pk = identity.pk;
+    payload.sig = await signBytes(identity, signedBytes(aad, payload));
+  }
+  const sealed = await seal(JSON.stringify(payload), keyring, aad);
+  return { v: "v2", alg: "AES-GCM", ks: keyring.version, mid, ts, pl: 1, ...sealed };
+}
+
+async function decryptV1(env: CipherEnvelopeV1, keyring: RoomKeyring): Promise<string> {
+  const salt = fromB64(env.salt);
+  const key = env.ks === undefined
+    ? await deriveLegacyKey(keyring.password, salt)
+    : await deriveMessageKey(keyring, salt);
+  const plainBuf = await crypto.subtle.decrypt({ name: "AES-GCM", iv: new Uint8Array(fromB64(env.iv)) }, key, fromB64(env.ct));
+  return textDecoder.decode(plainBuf);
+}
+
+/**
+ * Decifra il campo `content` di una riga e verifica che la busta appartenga a quella riga.
+ * `seen` raccoglie gli id già accettati in sessione: un id ripetuto viene rifiutato come replay
+ * (da omettere per gli UPDATE, che ricifrano legittimamente lo stesso id).
+ */
+export async function decryptMessage(
+  contentField: string,
+  keyring: RoomKeyring,
+  ctx: EnvelopeContext,
+  seen?: Set<string>
+): Promise<DecryptedMessage> {
+  let env: CipherEnvelopeV1 | CipherEnvelopeV2;
+  try {
+    env = JSON.parse(contentField);
+  } catch {
+    return { integrity: "legacy", body: { text: contentField } }; // messaggi in chiaro pre-E2EE
+  }
+  if (env?.alg !== "AES-GCM") return { integrity: "legacy", body: { text: contentField } };
+
+  if (env.v === "v1") {
+    try {
+      return { integrity: "legacy", body: { text: await decryptV1(env, keyring) } };
+    } catch {
+      return { integrity: "tampered", body: { text: "" } };
+    }
+  }
+  if (env.v !== "v2" || env.mid !== ctx.id) return { integrity: "tampered", body: { text: "" } };
+
+  const aad = additionalData(ctx, env.ts);
+  let plain: string;
+  try {
+    plain = await openV2(env, keyring, aad);
+  } catch {
+    return { integrity: "tampered", body: { text: "" } };
+  }
+  // registro l'id solo dopo l'autenticazione, così un falso non "brucia" un id valido
+  if (seen) {
+    if (seen.has(env.mid)) return { integrity: "replay", body: { text: "" } };
+    seen.add(env.mid);
+  }
+  if (env.pl !== 1) return { integrity: "ok", body: { text: plain }, ts: env.ts };
+
+  let payload: MessagePayload;
+  try {
+    payload = JSON.parse(plain);
+  } catch {
+    return { integrity: "tampered", body: { text: "" } };
+  }
+  const signer = payload.pk
+    ? { pk: payload.pk, valid: !!payload.sig && (await verifyBytes(payload.pk, payload.sig, signedBytes(aad, payload))) }
+    : undefined;
+  const body: MessageBody = { text: String(payload.text ?? "") };
+  if (typeof payload.replyTo === "string") body.replyTo = payload.replyTo;
+  if (typeof payload.edited === "string") body.edited = payload.edited;
+  if (payload.deleted === true) body.deleted = true;
+  const r = payload.reaction;
+  if (r && typeof r.to === "string" && typeof r.emoji === "string") body.reaction = { to: r.to, emoji: r.emoji };
+  const a = payload.attachment;
+  if (a && typeof a.path === "string" && typeof a.name === "string" && typeof a.type === "string"
+    && typeof a.size === "number" && typeof a.key === "string" && typeof a.iv === "string") {
+    body.attachment = { path: a.path, name: a.name, type: a.type, size: a.size, key: a.key, iv: a.iv };
+  }
+  return { integrity: "ok", body, ts: env.ts, signer };
+}
+
+/**
+ * Ricifra una busta con le chiavi della nuova password (rotazione). Mid, ts e payload restano
+ * identici, firma compresa: la firma copre additional data e payload, non la chiave.
+ * Le buste v1 restano v1 (non diventano autenticate). Restituisce null se la busta non si apre
+ * con `from` (già ricifrata, testo in chiaro o illeggibile): nulla da aggiornare.
+ */
+export async function reencryptMessage(
+  contentField: string,
+  from: RoomKeyring,
+  to: RoomKeyring,
+  ctx: EnvelopeContext
+): Promise<string | null> {
+  let env: CipherEnvelopeV1 | CipherEnvelopeV2;
+  try {
+    env = JSON.parse(contentField);
+  } catch {
+    return null;
+  }
+  if (env?.alg !== "AES-GCM") return null;
+  try {
+    if (env.v === "v1") {
+      const next: CipherEnvelopeV1 = { v: "v1", alg: "AES-GCM", ks: to.version, ...(await seal(await decryptV1(env, from), to)) };
+      return JSON.stringify(next);
+    }
+    if (env.v !== "v2" || env.mid !== ctx.id) return null;
+    const aad = additionalData(ctx, env.ts);
+    const next: CipherEnvelopeV2 = { ...env, ks: to.version, ...(await seal(await openV2(env, from, aad), to, aad)) };
+    return JSON.stringify(next);
+  } catch {
+    return null;
+  }
+}
+
+/* ---------- anteprime push ---------- */
+function previewData(ctx: EnvelopeContext): BufferSource {
+  return textEncoder.encode(JSON.stringify(["chat-anonima/push-preview", ctx.room, ctx.author, ctx.id]));
+}
+
+/** Anteprima cifrata (JSON `{iv, ct}`) legata a stanza, autore e id del messaggio */
+export async function encryptPushPreview(text: string, key: CryptoKey, ctx: EnvelopeContext): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ctBuf = await crypto.subtle.encrypt({ name: "AES-GCM", iv, additionalData: previewData(ctx) }, key, textEncoder.encode(text));
+  return JSON.stringify({ iv: toB64(iv), ct: toB64(ctBuf) });
+}
+
+/** Testo dell'anteprima, o `null` se non si apre con questa chiave o non è della riga `ctx` */
+export async function decryptPushPreview(sealed: string, key: CryptoKey, ctx: EnvelopeContext): Promise<string | null> {
+  try {
+    const { iv, ct } = JSON.parse(sealed) as { iv: string; ct: string };
+    const plainBuf = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: new Uint8Array(fromB64(iv)), additionalData: previewData(ctx) },
+      key,
+      fromB64(ct)
+    );
+    return textDecoder.decode(plainBuf);
+  } catch {
+    return null;
+  }
+}
+
+/** Solo per il benchmark: cifra come facevano i client legacy */
+export async function encryptTextLegacy(plain: string, password: string): Promise<CipherEnvelopeV1> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveLegacyKey(password, salt.buffer);
+  const ctBuf = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, textEncoder.encode(plain));
+  return { v: "v1", alg: "AES-GCM", iv: toB64(iv), salt: toB64(salt), ct: toB64(ctBuf) };
+}
@@ -0,0 +1,24 @@
+/* ========== Codifiche binario ↔ testo ========== */
+
+export function toB64(buf: ArrayBuffer | Uint8Array): string {
+  const bytes = buf instanceof Uint8Array ? buf : new Uint8Array(buf);
+  let binary = "";
+  for (let i = 0; i < bytes.byteLength; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+}
+
+export function fromB64(b64: string): ArrayBuffer {
+  const binary = atob(b64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+}
+
+/**
+ * Cartella degli allegati di una stanza: SHA-256 esadecimale del nome (UTF-8). Il nome è testo
+ * libero, la cartella resta un segmento di path valido su disco e nelle chiavi dello Storage.
+ */
+export async function roomFolder(room: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(room)));
+  return Array.from(digest, (b) => b.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,73 @@
+/* ========== Cronologia a pagine: dai messaggi più recenti all'indietro ========== */
+import { transport, type RowCursor } from "@/lib/transport";
+import type { MessageRow } from "@/lib/messages";
+
+export const MESSAGE_PAGE = 100;
+const REACTION_PAGE = 500;
+
+/** Cursore delle reazioni: `before` = la più vecchia già letta, `done` se non ce ne sono altre */
+export type ReactionCursor = { before?: RowCursor; done: boolean };
+
+export const FRESH_REACTIONS: ReactionCursor = { done: false };
+
+/** Le pagine si tagliano su (created_at, id): col solo istante le righe a pari merito si perdono */
+export function rowCursor({ created_at, id }: RowCursor): RowCursor {
+  return { created_at, id };
+}
+
+/** `a` viene dopo `b` nell'ordine (created_at, id) */
+export function isAfter(a: RowCursor, b: RowCursor): boolean {
+  return a.created_at > b.created_at || (a.created_at === b.created_at && a.id > b.id);
+}
+
+/**
+ * Una pagina di messaggi: i più recenti prima di `before` (o in assoluto), in ordine
+ * cronologico. `hasOlder` è falso quando la pagina è l'ultima.
+ */
+export async function fetchMessagePage(room: string, before?: RowCursor): Promise<{ rows: MessageRow[]; hasOlder: boolean }> {
+  const rows = await transport.history("messages", room, { limit: MESSAGE_PAGE, order: "desc", before });
+  return { rows: rows.reverse(), hasOlder: rows.length === MESSAGE_PAGE };
+}
+
+/**
+ * Reazioni che possono riferirsi a messaggi creati da `since` in poi: una reazione non è mai
+ * più vecchia del suo messaggio, quindi si legge all'indietro finché si supera `since`.
+ */
+export async function fetchReactionsSince(
+  room: string,
+  since: string | undefined,
+  cursor: ReactionCursor
+): Promise<{ rows: MessageRow[]; cursor: ReactionCursor }> {
+  const rows: MessageRow[] = [];
+  let { before, done } = cursor;
+  while (since && !done && !(before && before.created_at < since)) {
+    const page = await transport.history("reactions", room, { limit: REACTION_PAGE, order: "desc", before });
+    rows.push(...page);
+    done = page.length < REACTION_PAGE;
+    if (page.length) before = rowCursor(page[page.length - 1]);
+  }
+  return { rows: rows.reverse(), cursor: { before, done } };
+}
+
+/**
+ * La finestra della copia locale riletta dal server: tutti i messaggi da `from` (il più vecchio in
+ * copia, incluso) in poi, in ordine cronologico. Quelli che mancano sono stati cancellati o sono
+ * scaduti, gli altri possono essere stati modificati o ritirati. Oltre `max` righe `complete` è
+ * falso: troppi messaggi nuovi, la copia non è più contigua e conviene ripartire dagli ultimi.
+ */
+export async function fetchMessagesSince(
+  room: string,
+  from: RowCursor,
+  max: number
+): Promise<{ rows: MessageRow[]; complete: boolean }> {
+  const rows: MessageRow[] = [];
+  let before: RowCursor | undefined;
+  for (;;) {
+    const page = await transport.history("messages", room, { limit: MESSAGE_PAGE, order: "desc", before });
+    const inWindow = page.filter((r) => !isAfter(from, r));
+    rows.push(...inWindow);
+    if (inWindow.length < page.length || page.length < MESSAGE_PAGE) return { rows: rows.reverse(), complete: true };
+    if (rows.length >= max) return { rows: rows.reverse(), complete: false };
+    before = rowCursor(page[page.length - 1]);
+  }
+}
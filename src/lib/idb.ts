@@ -0,0 +1,83 @@
+/* ========== IndexedDB minimale (solo browser) ========== */
+
+const DB_NAME = "chat-anonima";
+const DB_VERSION = 6;
+
+/**
+ * Store e chiavi: `identity` → "device"; `trust` → [room, id del partecipante]; `outbox` → [room, id];
+ * `history` → room; `push` → room; `prefs` → nome dell'impostazione (es. "ui"); `moderation` → room
+ */
+export type StoreName = "identity" | "trust" | "outbox" | "history" | "push" | "prefs" | "moderation";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains("identity")) db.createObjectStore("identity");
+      if (!db.objectStoreNames.contains("trust")) db.createObjectStore("trust");
+      if (!db.objectStoreNames.contains("outbox")) db.createObjectStore("outbox");
+      if (!db.objectStoreNames.contains("history")) db.createObjectStore("history");
+      if (!db.objectStoreNames.contains("push")) db.createObjectStore("push");
+      if (!db.objectStoreNames.contains("prefs")) db.createObjectStore("prefs");
+      if (!db.objectStoreNames.contains("moderation")) db.createObjectStore("moderation");
+    };
+    req.onsuccess = () => {
+      const db = req.result;
+      // un'altra scheda (o il service worker) cancella o aggiorna il database: lascio la connessione
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+  });
+  return dbPromise;
+}
+
+function wrap<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function store(name: StoreName, mode: IDBTransactionMode) {
+  const db = await openDb();
+  return db.transaction(name, mode).objectStore(name);
+}
+
+export async function idbGet<T>(name: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return wrap((await store(name, "readonly")).get(key));
+}
+
+export async function idbGetAll<T>(name: StoreName, range?: IDBKeyRange): Promise<T[]> {
+  return wrap((await store(name, "readonly")).getAll(range));
+}
+
+export async function idbPut(name: StoreName, key: IDBValidKey, value: unknown): Promise<void> {
+  await wrap((await store(name, "readwrite")).put(value, key));
+}
+
+export async function idbDelete(name: StoreName, key: IDBValidKey | IDBKeyRange): Promise<void> {
+  await wrap((await store(name, "readwrite")).delete(key));
+}
+
+/** Cancella l'intero database; le altre connessioni si chiudono su `versionchange` */
+export async function idbDeleteDatabase(): Promise<void> {
+  const db = await dbPromise?.catch(() => null);
+  db?.close();
+  dbPromise = null;
+  await new Promise<void>((resolve, reject) => {
+    const req = indexedDB.deleteDatabase(DB_NAME);
+    req.onsuccess = () => resolve();
+    req.onerror = () => reject(req.error);
+  });
+}
@@ -0,0 +1,92 @@
+/* ========== Identità del dispositivo, firme e numero di sicurezza ========== */
+// import relativi: usato anche dal service worker (src/worker), che non risolve "@/"
+import { fromB64, toB64 } from "./encoding";
+import { idbGet, idbPut } from "./idb";
+
+const ALG = { name: "ECDSA", namedCurve: "P-256" } as const;
+const SIGN_ALG = { name: "ECDSA", hash: "SHA-256" } as const;
+
+/** Coppia di chiavi persistente del browser (privata non estraibile) */
+export type DeviceIdentity = {
+  privateKey: CryptoKey;
+  publicKey: CryptoKey;
+  pk: string; // chiave pubblica raw, base64
+};
+
+/**
+ * Stato della firma di un messaggio rispetto ai partecipanti già fissati nella stanza:
+ * - verified: firma valida, chiave confermata di persona col numero di sicurezza
+ * - trusted: firma valida, partecipante fissato al primo utilizzo
+ * - changed: firma valida, ma da un partecipante nuovo che usa il nome di uno già fissato
+ * - invalid: firma presente ma non valida
+ * - unsigned: nessuna firma (client vecchi / buste legacy)
+ */
+export type TrustStatus = "verified" | "trusted" | "changed" | "invalid" | "unsigned";
+
+/* ---------- chiavi del dispositivo ---------- */
+async function generateIdentity(): Promise<DeviceIdentity> {
+  const pair = await crypto.subtle.generateKey(ALG, false, ["sign", "verify"]);
+  const raw = await crypto.subtle.exportKey("raw", pair.publicKey);
+  return { privateKey: pair.privateKey, publicKey: pair.publicKey, pk: toB64(raw) };
+}
+
+/** Carica (o crea al primo avvio) l'identità salvata in IndexedDB */
+export async function loadDeviceIdentity(): Promise<DeviceIdentity> {
+  try {
+    const stored = await idbGet<DeviceIdentity>("identity", "device");
+    if (stored) return stored;
+    const fresh = await generateIdentity();
+    await idbPut("identity", "device", fresh);
+    return fresh;
+  } catch {
+    // IndexedDB non disponibile (es. navigazione privata): identità solo per questa sessione
+    return generateIdentity();
+  }
+}
+
+export async function signBytes(identity: DeviceIdentity, data: BufferSource): Promise<string> {
+  return toB64(await crypto.subtle.sign(SIGN_ALG, identity.privateKey, data));
+}
+
+const publicKeyCache = new Map<string, Promise<CryptoKey>>();
+
+export async function verifyBytes(pk: string, sig: string, data: BufferSource): Promise<boolean> {
+  try {
+    let key = publicKeyCache.get(pk);
+    if (!key) {
+      key = crypto.subtle.importKey("raw", fromB64(pk), ALG, false, ["verify"]);
+      publicKeyCache.set(pk, key);
+    }
+    return await crypto.subtle.verify(SIGN_ALG, await key, fromB64(sig), data);
+  } catch {
+    publicKeyCache.delete(pk);
+    return false;
+  }
+}
+
+/* ---------- fingerprint e numero di sicurezza ---------- */
+function digitGroups(bytes: Uint8Array, groups: number): string[] {
+  const out: string[] = [];
+  for (let i = 0; i < groups; i++) {
+    // 5 byte → numero a 5 cifre (come i safety number di Signal)
+    let n = 0;
+    for (let j = 0; j < 5; j++) n = n * 256 + bytes[i * 5 + j];
+    out.push(String(n % 100_000).padStart(5, "0"));
+  }
+  return out;
+}
+
+/** Fingerprint breve di una chiave pubblica, es. "a1b2 c3d4 e5f6 0718" */
+export async function fingerprint(pk: string): Promise<string> {
+  const hash = new Uint8Array(await crypto.subtle.digest("SHA-256", fromB64(pk)));
+  const hex = Array.from(hash.slice(0, 8), (b) => b.toString(16).padStart(2, "0")).join("");
+  return hex.match(/.{4}/g)!.join(" ");
+}
+
+/** Numero di sicurezza di una coppia di chiavi: uguale su entrambi i dispositivi */
+export async function safetyNumber(pkA: string, pkB: string): Promise<string> {
+  const [first, second] = [pkA, pkB].sort();
+  const data = new Uint8Array([...new Uint8Array(fromB64(first)), ...new Uint8Array(fromB64(second))]);
+  const hash = new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+  return digitGroups(hash, 6).join(" ");
+}
@@ -0,0 +1,116 @@
+/* ========== Link di invito (browser) ========== */
+import { fromB64, toB64 } from "@/lib/encoding";
+import { postCreateInvite, postRedeemInvite } from "@/lib/api";
+
+/**
+ * Tre forme di invito, tutte su `/?room=…`:
+ * - solo stanza: precompila il form;
+ * - `#k=<password>`: la password sta nel fragment, che il browser non invia mai al server;
+ * - `&invite=<id>#s=<segreto>`: il server conserva la password cifrata col segreto del fragment
+ *   e la consegna finché l'invito non scade (o una sola volta). Il server non può aprirla.
+ */
+export const INVITE_EXPIRIES = [
+  { seconds: 60 * 60, label: "1 ora" },
+  { seconds: 24 * 60 * 60, label: "1 giorno" },
+  { seconds: 7 * 24 * 60 * 60, label: "1 settimana" },
+] as const;
+
+export type InviteLink = {
+  room: string;
+  name?: string;
+  password?: string;                       // da `#k=`
+  token?: { id: string; secret: string };  // da `invite=` + `#s=`
+};
+
+function toB64Url(buf: ArrayBuffer | Uint8Array): string {
+  return toB64(buf).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+function fromB64Url(s: string): ArrayBuffer {
+  const b64 = s.replace(/-/g, "+").replace(/_/g, "/");
+  return fromB64(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+}
+
+async function secretKey(secret: string, usage: KeyUsage): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", fromB64Url(secret), { name: "AES-GCM" }, false, [usage]);
+}
+
+/** Legge l'invito dall'URL corrente (null se non c'è `room`) */
+export function readInviteLink(location: Location): InviteLink | null {
+  const params = new URLSearchParams(location.search);
+  const fragment = new URLSearchParams(location.hash.slice(1));
+  const room = params.get("room")?.trim().toLowerCase();
+  if (!room) return null;
+  const invite = params.get("invite");
+  const secret = fragment.get("s");
+  return {
+    room,
+    name: params.get("name")?.trim() || undefined,
+    password: fragment.get("k") ?? undefined,
+    token: invite && secret ? { id: invite, secret } : undefined,
+  };
+}
+
+/** Toglie password e token dalla barra degli indirizzi (e dalla cronologia del browser) */
+export function scrubInviteLink(): void {
+  const url = new URL(window.location.href);
+  url.searchParams.delete("invite");
+  url.searchParams.delete("name");
+  url.hash = "";
+  window.history.replaceState(null, "", url.toString());
+}
+
+function baseUrl(room: string): URL {
+  const url = new URL(window.location.origin + window.location.pathname);
+  url.searchParams.set("room", room);
+  return url;
+}
+
+export function buildInviteLink(room: string, password?: string): string {
+  const url = baseUrl(room);
+  if (password) url.hash = new URLSearchParams({ k: password }).toString();
+  return url.toString();
+}
+
+/** Crea un invito a scadenza (o monouso) e restituisce il link con il segreto nel fragment */
+export async function createTokenInvite(opts: {
+  room: string;
+  password: string;
+  verifier: string;
+  expiresIn: number;
+  singleUse: boolean;
+}): Promise<{ url: string; expiresAt: string }> {
+  const secret = toB64Url(crypto.getRandomValues(new Uint8Array(32)));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ct = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: new TextEncoder().encode(opts.room) },
+    await secretKey(secret, "encrypt"),
+    new TextEncoder().encode(opts.password)
+  );
+  const { id, expiresAt } = await postCreateInvite({
+    room: opts.room,
+    verifier: opts.verifier,
+    sealed: JSON.stringify({ iv: toB64(iv), ct: toB64(ct) }),
+    expiresIn: opts.expiresIn,
+    singleUse: opts.singleUse,
+  });
+  const url = baseUrl(opts.room);
+  url.searchParams.set("invite", id);
+  url.hash = new URLSearchParams({ s: secret }).toString();
+  return { url: url.toString(), expiresAt };
+}
+
+/** Riscatta l'invito sul server e apre la password col segreto del fragment */
+export async function redeemTokenInvite(room: string, token: { id: string; secret: string }): Promise<string> {
+  const { sealed } = await postRedeemInvite({ room, id: token.id });
+  const { iv, ct } = JSON.parse(sealed) as { iv: string; ct: string };
+  try {
+    const plain = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: new Uint8Array(fromB64(iv)), additionalData: new TextEncoder().encode(room) },
+      await secretKey(token.secret, "decrypt"),
+      fromB64(ct)
+    );
+    return new TextDecoder().decode(plain);
+  } catch {
+    throw new Error("Link di invito incompleto o alterato.");
+  }
+}
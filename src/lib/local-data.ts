@@ -0,0 +1,26 @@
+/* ========== "Dimentica questo dispositivo": via tutti i dati locali ========== */
+import { idbDeleteDatabase } from "@/lib/idb";
+
+/**
+ * Cancella identità del dispositivo, chiavi fissate, outbox, copie delle stanze, impostazioni
+ * push e dell'interfaccia, utenti silenziati e bloccati (tutto IndexedDB), l'iscrizione push del
+ * browser e le cache runtime del service worker.
+ * Il precache dell'app resta: è lo stesso per tutti e serve ad aprirla offline.
+ */
+export async function forgetThisDevice(): Promise<void> {
+  // l'iscrizione è condivisa fra stanze: il server la scarta al primo invio fallito (404/410)
+  try {
+    const reg = await navigator.serviceWorker?.getRegistration();
+    await (await reg?.pushManager.getSubscription())?.unsubscribe();
+  } catch {
+    // service worker assente (dev) o push non supportato: niente da togliere
+  }
+
+  await idbDeleteDatabase();
+
+  if ("caches" in window) {
+    for (const name of await caches.keys()) {
+      if (!name.startsWith("workbox-precache")) await caches.delete(name);
+    }
+  }
+}
@@ -0,0 +1,123 @@
+/* ========== Membri della stanza: online, inattivi, usciti da poco ========== */
+import { idbGet, idbPut } from "@/lib/idb";
+import type { Message } from "@/lib/messages";
+import { avatarColor, type Participant, type PresenceSighting, type Sighting } from "@/lib/participants";
+
+export type MemberStatus = "online" | "idle" | "left";
+
+/**
+ * Voce del pannello membri: `since` = collegato da (online), inattivo da (idle), visto l'ultima volta (left);
+ * `pk` = chiave del dispositivo vista nella presence
+ */
+export type Member = Participant & { status: MemberStatus; since: string; pk?: string };
+
+/** Chi è uscito da poco: si tiene anche la chiave, l'owner può espellere pure dopo l'uscita */
+export type Departed = Sighting & { pk?: string };
+
+/** Riga di sistema nel flusso dei messaggi (solo in memoria, non finisce nella cronologia) */
+export type PresenceEvent = {
+  id: string;
+  kind: "presence";
+  event: "join" | "leave";
+  who: string; // id del partecipante
+  at: string;
+};
+
+export type StreamItem = Message | PresenceEvent;
+
+/** Impostazioni dell'interfaccia, per dispositivo (IndexedDB `prefs`) */
+export type UiPrefs = {
+  presenceLines: boolean;
+  nick?: string; // ultimo nickname usato: precompila il form e fa entrare da soli dai link di invito
+};
+
+export const DEFAULT_UI_PREFS: UiPrefs = { presenceLines: true };
+
+export const IDLE_AFTER_MS = 2 * 60 * 1000;     // senza input (o con la scheda nascosta) si è inattivi
+export const RECENT_LEFT_MS = 60 * 60 * 1000;   // chi è uscito resta nel pannello per un'ora
+const MAX_PRESENCE_EVENTS = 200;
+
+export function isPresenceEvent(item: StreamItem): item is PresenceEvent {
+  return (item as PresenceEvent).kind === "presence";
+}
+
+let eventSeq = 0;
+
+/**
+ * Confronta due stati presence verificati: chi è comparso e chi è sparito.
+ * Il primo stato dopo l'ingresso (`prev` null) non genera righe: sono i presenti, non ingressi.
+ */
+export function presenceChanges(prev: PresenceSighting[] | null, next: PresenceSighting[], self: string): PresenceEvent[] {
+  if (!prev) return [];
+  const at = new Date().toISOString();
+  const before = new Set(prev.map((s) => s.id));
+  const after = new Set(next.map((s) => s.id));
+  const events: PresenceEvent[] = [];
+  for (const id of after) {
+    if (!before.has(id) && id !== self) events.push({ id: `presence:${++eventSeq}`, kind: "presence", event: "join", who: id, at });
+  }
+  for (const id of before) {
+    if (!after.has(id) && id !== self) events.push({ id: `presence:${++eventSeq}`, kind: "presence", event: "leave", who: id, at });
+  }
+  return events;
+}
+
+export function appendPresenceEvents(list: PresenceEvent[], events: PresenceEvent[]): PresenceEvent[] {
+  return events.length ? [...list, ...events].slice(-MAX_PRESENCE_EVENTS) : list;
+}
+
+/**
+ * Messaggi e righe di sistema in ordine di tempo. Le righe più vecchie del primo messaggio
+ * caricato restano fuori (la cronologia sopra non è ancora arrivata); l'outbox resta in fondo.
+ */
+export function mergeStream(messages: Message[], events: PresenceEvent[]): StreamItem[] {
+  if (!events.length) return messages;
+  const sent = messages.filter((m) => !m.delivery);
+  const queued = messages.filter((m) => m.delivery);
+  const first = sent[0] ? (sent[0].sent_at ?? sent[0].created_at) : "";
+  const out: StreamItem[] = [];
+  let i = 0;
+  for (const m of sent) {
+    const at = m.sent_at ?? m.created_at;
+    for (; i < events.length && events[i].at < at; i++) {
+      if (events[i].at >= first) out.push(events[i]);
+    }
+    out.push(m);
+  }
+  out.push(...events.slice(i), ...queued);
+  return out;
+}
+
+/** Online e inattivi (dalla presence), poi usciti da poco, ciascuno col nome disambiguato */
+export function buildMembers(
+  online: PresenceSighting[],
+  departed: Departed[],
+  roster: Map<string, Participant>,
+  now = Date.now()
+): Member[] {
+  const present = new Set(online.map((s) => s.id));
+  const withName = (s: Sighting): Participant =>
+    roster.get(s.id) ?? { id: s.id, nick: s.nick, label: s.nick, color: avatarColor(s.id) };
+  const rank: Record<MemberStatus, number> = { online: 0, idle: 1, left: 2 };
+  return [
+    ...online.map((s): Member => ({ ...withName(s), status: s.idle ? "idle" : "online", since: s.since, pk: s.pk })),
+    ...departed
+      .filter((s) => !present.has(s.id) && now - new Date(s.at).getTime() < RECENT_LEFT_MS)
+      .map((s): Member => ({ ...withName(s), status: "left", since: s.at, pk: s.pk })),
+  ].sort((a, b) =>
+    rank[a.status] - rank[b.status]
+    || (a.status === "left" ? b.since.localeCompare(a.since) : a.label.localeCompare(b.label))
+  );
+}
+
+export async function loadUiPrefs(): Promise<UiPrefs> {
+  try {
+    return { ...DEFAULT_UI_PREFS, ...(await idbGet<Partial<UiPrefs>>("prefs", "ui")) };
+  } catch {
+    return DEFAULT_UI_PREFS;
+  }
+}
+
+export function saveUiPrefs(prefs: UiPrefs): Promise<void> {
+  return idbPut("prefs", "ui", prefs).catch(() => undefined);
+}
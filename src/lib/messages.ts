@@ -0,0 +1,149 @@
+/* ========== Messaggi: righe DB ↔ modello UI ========== */
+import { decryptMessage, type Integrity, type RoomKeyring } from "@/lib/e2ee";
+import type { AttachmentMeta } from "@/lib/attachments";
+import type { TrustStatus } from "@/lib/identity";
+import { assessTrust, authorId, participantId, type PinMap } from "@/lib/participants";
+
+/** Modello del messaggio (in chiaro lato UI) */
+export type Message = {
+  id: string;
+  room: string;
+  author: string;
+  content: string;
+  created_at: string;
+  sent_at?: string; // timestamp client autenticato (buste v2)
+  replyTo?: string; // id del messaggio citato
+  attachment?: AttachmentMeta;
+  edited?: string;  // ultima modifica (autenticata)
+  deleted?: boolean; // ritirato dall'autore → segnaposto
+  integrity: Exclude<Integrity, "replay">;
+  pk?: string; // chiave pubblica del dispositivo che ha firmato
+  signatureValid?: boolean;
+  sid?: string; // id del partecipante (solo con firma valida), vedi `participants.ts`
+  trust: TrustStatus;
+  delivery?: "pending" | "failed"; // solo messaggi propri ancora nell'outbox
+};
+
+/** Reazione emoji (tabella `reactions`, stessa busta cifrata dei messaggi) */
+export type Reaction = {
+  id: string;
+  room: string;
+  author: string;
+  to: string; // id del messaggio
+  emoji: string;
+  pk?: string;
+  sid?: string;
+  created_at: string;
+};
+
+/** Reazioni a un messaggio raggruppate per emoji */
+export type ReactionGroup = {
+  emoji: string;
+  authors: string[]; // nomi da mostrare
+  mine?: Reaction; // la propria reazione, per toglierla con un secondo click
+};
+
+/** Riga delle tabelle `messages` / `reactions` (content = busta cifrata) */
+export type MessageRow = {
+  id: string;
+  room: string;
+  author: string;
+  content: string;
+  created_at: string;
+};
+
+/** Decifra una riga; `null` se è un replay di un id già visto. La fiducia si valuta dopo (`withTrust`) */
+export async function rowToMessage(row: MessageRow, keyring: RoomKeyring, seen?: Set<string>): Promise<Message | null> {
+  const dec = await decryptMessage(row.content, keyring, { id: row.id, room: row.room, author: row.author }, seen);
+  if (dec.integrity === "replay") return null;
+  // una reazione copiata nella tabella messaggi non è un messaggio
+  const integrity = dec.body.reaction ? "tampered" : dec.integrity;
+  return {
+    id: row.id,
+    room: row.room,
+    author: row.author,
+    content: dec.body.deleted ? "" : dec.body.text,
+    created_at: row.created_at,
+    sent_at: dec.ts,
+    replyTo: dec.body.replyTo,
+    attachment: dec.body.deleted ? undefined : dec.body.attachment,
+    edited: dec.body.edited,
+    deleted: dec.body.deleted,
+    integrity,
+    pk: dec.signer?.pk,
+    signatureValid: dec.signer?.valid,
+    sid: dec.signer?.valid ? await participantId(row.room, dec.signer.pk) : undefined,
+    trust: "unsigned",
+  };
+}
+
+/**
+ * Applica un UPDATE (modifica o ritiro) a un messaggio già in lista.
+ * Scarta versioni manomesse, firmate da un'altra chiave o più vecchie di quella mostrata (rollback):
+ * una riga riscritta da altri non cancella il messaggio che si stava leggendo.
+ */
+export function applyUpdate(current: Message, updated: Message): Message {
+  if (updated.integrity === "tampered") return current.integrity === "tampered" ? updated : current;
+  if (current.pk && updated.pk !== current.pk) return current;
+  if (current.deleted) return current;
+  if (current.edited && (!updated.edited || updated.edited <= current.edited) && !updated.deleted) return current;
+  return updated;
+}
+
+/** Applica i pin TOFU della stanza senza modificarli: i nuovi li fissa prima `pinFirstSeen` */
+export function withTrust(m: Message, pins: PinMap): Message {
+  const signer = m.pk ? { sid: m.sid, pk: m.pk, valid: !!m.signatureValid } : undefined;
+  return { ...m, trust: assessTrust(pins, m.room, m.author, signer) };
+}
+
+/** Anteprima breve del testo (citazioni, thread) */
+export function snippet(m: Message, max = 80): string {
+  if (m.deleted) return "Messaggio eliminato";
+  const flat = (m.content || (m.attachment ? `📎 ${m.attachment.name}` : "")).replace(/\s+/g, " ").trim();
+  return flat.length > max ? `${flat.slice(0, max - 1)}…` : flat;
+}
+
+/** Decifra una riga di `reactions`; scarta replay, righe manomesse o con firma non valida */
+export async function rowToReaction(row: MessageRow, keyring: RoomKeyring, seen?: Set<string>): Promise<Reaction | null> {
+  const dec = await decryptMessage(row.content, keyring, { id: row.id, room: row.room, author: row.author }, seen);
+  const reaction = dec.body.reaction;
+  if (dec.integrity !== "ok" || !reaction || (dec.signer && !dec.signer.valid)) return null;
+  return {
+    id: row.id,
+    room: row.room,
+    author: row.author,
+    to: reaction.to,
+    emoji: reaction.emoji,
+    pk: dec.signer?.pk,
+    sid: dec.signer ? await participantId(row.room, dec.signer.pk) : undefined,
+    created_at: row.created_at,
+  };
+}
+
+/**
+ * messaggio → gruppi di reazioni, nell'ordine della prima reazione per emoji.
+ * `me` e i duplicati si confrontano per id del partecipante (`authorId`), non per nickname.
+ */
+export function groupReactions(
+  reactions: Reaction[],
+  me: string,
+  nameOf: (r: Reaction) => string = (r) => r.author
+): Map<string, ReactionGroup[]> {
+  const byMessage = new Map<string, ReactionGroup[]>();
+  const counted = new Set<string>();
+  for (const r of reactions) {
+    const groups = byMessage.get(r.to) ?? [];
+    let group = groups.find((g) => g.emoji === r.emoji);
+    if (!group) {
+      group = { emoji: r.emoji, authors: [] };
+      groups.push(group);
+    }
+    const key = `${r.to}\n${r.emoji}\n${authorId(r)}`;
+    if (counted.has(key)) continue; // una reazione per persona ed emoji
+    counted.add(key);
+    group.authors.push(nameOf(r));
+    if (authorId(r) === me) group.mine = r;
+    byMessage.set(r.to, groups);
+  }
+  return byMessage;
+}
@@ -0,0 +1,42 @@
+/* ========== Silenziati e bloccati: scelte di questo dispositivo, per stanza ========== */
+import { idbGet, idbPut } from "@/lib/idb";
+
+/**
+ * Liste per id del partecipante (lo stesso id in tutte le sessioni della stanza, anche se cambia
+ * nickname). Silenziato: i suoi messaggi restano chiusi finché non li apri. Bloccato: messaggi,
+ * reazioni e righe di ingresso/uscita spariscono. Per entrambi si ignora "sta scrivendo…".
+ * Restano solo su questo dispositivo: gli altri non ne sanno nulla.
+ */
+export type ModerationLevel = "muted" | "blocked";
+
+export type ModerationEntry = { nick: string; at: string }; // nickname al momento della scelta
+
+export type ModerationLists = Record<ModerationLevel, Record<string, ModerationEntry>>;
+
+export const EMPTY_MODERATION: ModerationLists = { muted: {}, blocked: {} };
+
+export function moderationOf(lists: ModerationLists, id: string): ModerationLevel | null {
+  if (lists.blocked[id]) return "blocked";
+  return lists.muted[id] ? "muted" : null;
+}
+
+/** Sposta un id in una lista (o lo toglie con `null`): un partecipante sta in una sola delle due */
+export function applyModeration(lists: ModerationLists, id: string, nick: string, level: ModerationLevel | null): ModerationLists {
+  const next: ModerationLists = { muted: { ...lists.muted }, blocked: { ...lists.blocked } };
+  delete next.muted[id];
+  delete next.blocked[id];
+  if (level) next[level] = { ...next[level], [id]: { nick, at: new Date().toISOString() } };
+  return next;
+}
+
+export async function loadModeration(room: string): Promise<ModerationLists> {
+  try {
+    return { ...EMPTY_MODERATION, ...(await idbGet<Partial<ModerationLists>>("moderation", room)) };
+  } catch {
+    return EMPTY_MODERATION;
+  }
+}
+
+export function saveModeration(room: string, lists: ModerationLists): Promise<void> {
+  return idbPut("moderation", room, lists).catch(() => undefined);
+}
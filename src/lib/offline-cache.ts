@@ -0,0 +1,137 @@
+/* ========== Cache locale della cronologia: riapertura immediata e uso offline ========== */
+import { idbDelete, idbGet, idbGetAll, idbPut } from "@/lib/idb";
+import { fromB64, toB64 } from "@/lib/encoding";
+import { deriveLocalCacheKey, type RoomKeyring } from "@/lib/e2ee";
+import { FRESH_REACTIONS, rowCursor, type ReactionCursor } from "@/lib/history";
+import type { RowCursor } from "@/lib/transport";
+import type { Message, Reaction } from "@/lib/messages";
+
+/**
+ * Per stanza: messaggi e reazioni già decifrati, cifrati a riposo (AES-GCM) con una chiave
+ * HKDF derivata dalla password (`deriveLocalCacheKey`). Restano in chiaro solo i metadati per
+ * riaprire la stanza: il salt e `verifierCheck` (SHA-256 del verifier), che permette di
+ * rifiutare una password sbagliata senza poter contattare `/api/rooms/join`.
+ */
+export type CachedHistory = {
+  room: string;
+  kdfSalt: string;
+  verifierCheck: string;
+  ttlSeconds: number | null;
+  clearedAt: string | null; // `clearedAt` di /api/rooms/join quando la copia è stata salvata
+  sealed: { iv: string; ct: string }; // HistorySnapshot cifrato
+  bytes: number;
+  savedAt: string;
+};
+
+/** Contenuto di `sealed` */
+export type HistorySnapshot = {
+  messages: Message[];
+  reactions: Reaction[];
+  olderCursor: RowCursor | null; // da dove continuare all'indietro (null = inizio della stanza)
+  reactionCursor: ReactionCursor;
+};
+
+export type HistoryMeta = Pick<CachedHistory, "room" | "kdfSalt" | "verifierCheck" | "ttlSeconds" | "clearedAt">;
+
+const MAX_MESSAGES = 1_000;              // per stanza, i più recenti
+const MAX_TOTAL_BYTES = 20 * 1024 * 1024; // fra tutte le stanze: oltre si eliminano le meno usate
+
+const textEncoder = new TextEncoder();
+
+function additionalData(room: string) {
+  return textEncoder.encode(`chat-anonima/cache/${room}`);
+}
+
+export async function verifierCheck(verifier: string): Promise<string> {
+  return toB64(await crypto.subtle.digest("SHA-256", textEncoder.encode(verifier)));
+}
+
+export async function loadHistory(room: string): Promise<CachedHistory | undefined> {
+  try {
+    const entry = await idbGet<CachedHistory>("history", room);
+    return entry?.sealed ? entry : undefined; // copie del formato precedente (righe cifrate): si rifanno
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * La copia vale per la stanza com'è ora solo con stesso salt e verifier (niente cambio password
+ * nel frattempo) e senza un "Elimina cronologia" successivo al salvataggio
+ */
+export function historyMatches(entry: CachedHistory, meta: HistoryMeta): boolean {
+  return entry.kdfSalt === meta.kdfSalt && entry.verifierCheck === meta.verifierCheck
+    && (entry.clearedAt ?? null) === meta.clearedAt; // copie salvate prima del campo: undefined
+}
+
+/** Copia superata (password cambiata, cronologia cancellata): via subito, non solo ignorata */
+export async function forgetHistory(room: string): Promise<void> {
+  try {
+    await idbDelete("history", room);
+  } catch {
+    // IndexedDB non disponibile: la copia verrà comunque riscritta al prossimo salvataggio
+  }
+}
+
+/** `null` se la chiave non corrisponde (password cambiata) o la copia è danneggiata */
+export async function openHistory(entry: CachedHistory, keyring: RoomKeyring): Promise<HistorySnapshot | null> {
+  try {
+    const plain = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromB64(entry.sealed.iv), additionalData: additionalData(entry.room) },
+      await deriveLocalCacheKey(keyring),
+      fromB64(entry.sealed.ct)
+    );
+    return JSON.parse(new TextDecoder().decode(plain)) as HistorySnapshot;
+  } catch {
+    return null;
+  }
+}
+
+/** Tiene i MAX_MESSAGES più recenti (senza quelli ancora nell'outbox) e le loro reazioni */
+function trim(snapshot: HistorySnapshot): HistorySnapshot {
+  const sent = snapshot.messages.filter((m) => !m.delivery);
+  if (sent.length <= MAX_MESSAGES) return { ...snapshot, messages: sent };
+  const messages = sent.slice(-MAX_MESSAGES);
+  const kept = new Set(messages.map((m) => m.id));
+  return {
+    messages,
+    reactions: snapshot.reactions.filter((r) => kept.has(r.to)),
+    olderCursor: rowCursor(messages[0]),
+    // le reazioni scartate potrebbero servire a pagine caricate dopo: si rileggono da capo
+    reactionCursor: FRESH_REACTIONS,
+  };
+}
+
+async function writeHistory(meta: HistoryMeta, keyring: RoomKeyring, snapshot: HistorySnapshot): Promise<void> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ct = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: additionalData(meta.room) },
+    await deriveLocalCacheKey(keyring),
+    textEncoder.encode(JSON.stringify(trim(snapshot)))
+  );
+  const entry: CachedHistory = {
+    ...meta,
+    sealed: { iv: toB64(iv), ct: toB64(ct) },
+    bytes: ct.byteLength,
+    savedAt: new Date().toISOString(),
+  };
+  await idbPut("history", meta.room, entry);
+
+  // tetto complessivo: via intere stanze, dalla usata meno di recente (mai quella appena salvata)
+  const all = await idbGetAll<CachedHistory>("history");
+  let total = all.reduce((n, e) => n + (e.bytes ?? 0), 0);
+  for (const old of all.sort((a, b) => a.savedAt.localeCompare(b.savedAt))) {
+    if (total <= MAX_TOTAL_BYTES) break;
+    if (old.room === meta.room) continue;
+    await idbDelete("history", old.room);
+    total -= old.bytes ?? 0;
+  }
+}
+
+// salvataggi in ordine: l'ultimo stato vince anche se una cifratura precedente è più lenta
+let saveQueue: Promise<void> = Promise.resolve();
+
+export function saveHistory(meta: HistoryMeta, keyring: RoomKeyring, snapshot: HistorySnapshot): Promise<void> {
+  saveQueue = saveQueue.then(() => writeHistory(meta, keyring, snapshot)).catch(() => undefined);
+  return saveQueue;
+}
@@ -0,0 +1,71 @@
+/* ========== Outbox: messaggi in uscita persistiti in IndexedDB ========== */
+import { transport, TransportError } from "@/lib/transport";
+import { idbDelete, idbGetAll, idbPut } from "@/lib/idb";
+
+/**
+ * Un messaggio entra nell'outbox già cifrato (in IndexedDB non finisce testo in chiaro)
+ * e ne esce quando l'INSERT riesce. Finché è lì viene ritentato con backoff esponenziale;
+ * dopo MAX_ATTEMPTS passa a `failed` e serve un reinvio manuale.
+ */
+export type OutboxEntry = {
+  id: string;      // = messages.id = mid della busta
+  room: string;
+  author: string;
+  content: string; // busta cifrata (JSON)
+  preview?: string; // anteprima push cifrata (vedi push.ts)
+  createdAt: string;
+  status: "pending" | "failed";
+  attempts: number;
+  nextAttemptAt: number; // epoch ms
+  lastError?: string;
+};
+
+export const MAX_ATTEMPTS = 6;
+const BASE_DELAY_MS = 1_000;
+const MAX_DELAY_MS = 60_000;
+
+export function backoffDelay(attempts: number): number {
+  const exp = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempts);
+  return exp / 2 + Math.random() * (exp / 2); // jitter: i client non ritentano tutti insieme
+}
+
+export async function loadOutbox(room: string): Promise<OutboxEntry[]> {
+  try {
+    const entries = await idbGetAll<OutboxEntry>("outbox", IDBKeyRange.bound([room, ""], [room, "\uffff"]));
+    return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  } catch {
+    return [];
+  }
+}
+
+export function saveOutboxEntry(entry: OutboxEntry): Promise<void> {
+  return idbPut("outbox", [entry.room, entry.id], entry).catch(() => undefined);
+}
+
+export function removeOutboxEntry(entry: Pick<OutboxEntry, "room" | "id">): Promise<void> {
+  return idbDelete("outbox", [entry.room, entry.id]).catch(() => undefined);
+}
+
+/**
+ * Esito di un tentativo: `retryAfter` (secondi) = il server ha applicato il rate limit, si riprova
+ * allo scadere senza contare il tentativo; `permanent` = inutile ritentare (messaggio troppo grande,
+ * mittente espulso dalla stanza).
+ */
+export type DeliveryResult = { ok: true } | { ok: false; error: string; retryAfter?: number; permanent?: boolean };
+
+/** Un tentativo di INSERT. Un id già presente (risposta persa al tentativo prima) conta come inviato */
+export async function deliver(entry: OutboxEntry): Promise<DeliveryResult> {
+  try {
+    const { id, room, author, content, preview } = entry;
+    await transport.insert("messages", { id, room, author, content, preview });
+    return { ok: true };
+  } catch (err) {
+    if (err instanceof TransportError && err.code === "duplicate") return { ok: true };
+    const error = err instanceof Error ? err.message : String(err);
+    if (err instanceof TransportError && err.code === "rate_limited") return { ok: false, error, retryAfter: err.retryAfter ?? 1 };
+    if (err instanceof TransportError && (err.code === "too_large" || err.code === "kicked")) {
+      return { ok: false, error, permanent: true };
+    }
+    return { ok: false, error };
+  }
+}
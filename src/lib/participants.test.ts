@@ -0,0 +1,29 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { assessTrust, buildRoster, type PinMap, type Sighting } from "./participants";
+
+/* ========== Partecipanti: nickname disambiguati e pin TOFU ========== */
+
+describe("participants", () => {
+  it("\"Luca #2\" è lo stesso partecipante qualunque parte della cronologia si sia vista", () => {
+    const full: Sighting[] = [
+      { id: "bbbb", nick: "Luca", at: "2026-10-19T09:00:00.000Z" },
+      { id: "aaaa", nick: "luca", at: "2026-10-19T10:00:00.000Z" },
+    ];
+    const recent: Sighting[] = [full[1], { id: "bbbb", nick: "Luca", at: "2026-10-19T11:00:00.000Z" }];
+    for (const sightings of [full, recent]) {
+      const roster = buildRoster(sightings);
+      assert.equal(roster.get("aaaa")?.label, "luca");
+      assert.equal(roster.get("bbbb")?.label, "Luca #2");
+    }
+  });
+
+  it("assessTrust non fissa nessuno: un id nuovo col nome libero è fidato finché non lo si fissa", () => {
+    const pins: PinMap = new Map();
+    const signer = { sid: "aaaa", pk: "pk", valid: true };
+    assert.equal(assessTrust(pins, "r", "ann", signer), "trusted");
+    assert.equal(pins.size, 0);
+    assert.equal(assessTrust(pins, "r", "ann", { ...signer, valid: false }), "invalid");
+    assert.equal(assessTrust(pins, "r", "ann", undefined), "unsigned");
+  });
+});
@@ -0,0 +1,246 @@
+/* ========== Partecipanti: id per stanza, nickname e colori ========== */
+import { fromB64 } from "@/lib/encoding";
+import { signBytes, verifyBytes, type DeviceIdentity, type TrustStatus } from "@/lib/identity";
+import { idbDelete, idbGetAll, idbPut } from "@/lib/idb";
+import type { PresenceState } from "@/lib/transport";
+
+/**
+ * L'id di un partecipante è l'hash di stanza + chiave pubblica del dispositivo: stabile finché il
+ * browser tiene la sua identità, diverso da una stanza all'altra e impossibile da prendere in
+ * prestito senza la chiave privata (vale solo per messaggi con firma valida). Il nickname è solo
+ * un'etichetta: si può cambiare senza perdere la paternità dei messaggi già scritti.
+ */
+export type Participant = {
+  id: string;
+  nick: string;      // ultimo nickname visto per questo id
+  label: string;     // nickname disambiguato: "Luca", "Luca #2"…
+  color: string;     // colore dell'avatar, uguale su tutti i client
+};
+
+/** Un nickname visto per un id (messaggio, reazione o presence) in un certo momento */
+export type Sighting = { id: string; nick: string; at: string };
+
+/**
+ * Metadati presence: la firma copre stanza, nickname e `at`; chi li riceve ricalcola l'id dalla
+ * chiave e la controlla. `idle` e `since` (da quando è inattivo) non sono firmati: sono solo stato.
+ */
+export type PresenceMeta = { sid: string; nick: string; pk: string; at: string; sig: string; idle?: boolean; since?: string };
+
+/** Partecipante collegato, dalla presence verificata (`pk`: chiave del dispositivo, serve per espellerlo) */
+export type PresenceSighting = Sighting & { pk: string; idle: boolean; since: string };
+
+export const MAX_NICK_LENGTH = 40;
+
+const PARTICIPANT_INFO = "chat-anonima/participant";
+const PRESENCE_INFO = "chat-anonima/presence";
+const textEncoder = new TextEncoder();
+
+const idCache = new Map<string, Promise<string>>();
+
+export function participantId(room: string, pk: string): Promise<string> {
+  const cacheKey = `${room}\n${pk}`;
+  let id = idCache.get(cacheKey);
+  if (!id) {
+    id = (async () => {
+      const data = new Uint8Array([...textEncoder.encode(`${PARTICIPANT_INFO}\n${room}\n`), ...new Uint8Array(fromB64(pk))]);
+      const hash = new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+      return Array.from(hash.slice(0, 8), (b) => b.toString(16).padStart(2, "0")).join("");
+    })();
+    idCache.set(cacheKey, id);
+  }
+  return id;
+}
+
+/** Id con cui raggruppare un autore: senza firma valida (client vecchi, legacy) resta il nickname */
+export function authorId(x: { sid?: string; author: string }): string {
+  return x.sid ?? `nick:${x.author}`;
+}
+
+/** Completa `sid` su messaggi e reazioni salvati prima che esistesse (copia locale, backup) */
+export async function withParticipantId<T extends { room: string; pk?: string; sid?: string; signatureValid?: boolean }>(
+  item: T
+): Promise<T> {
+  if (item.sid || !item.pk || item.signatureValid === false) return item;
+  return { ...item, sid: await participantId(item.room, item.pk) };
+}
+
+export function normalizeNick(nick: string): string {
+  return nick.trim().replace(/\s+/g, " ").slice(0, MAX_NICK_LENGTH);
+}
+
+/* ---------- elenco dei partecipanti ---------- */
+/** Tinta dall'id (FNV-1a): stesso colore per la stessa persona su ogni client */
+export function avatarColor(id: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < id.length; i++) {
+    h ^= id.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return `hsl(${(h >>> 0) % 360} 60% 45%)`;
+}
+
+/**
+ * Partecipanti per id, col nickname più recente. A parità di nickname (senza distinguere
+ * maiuscole) l'ordine è quello degli id, che dipendono solo da stanza e chiave: "Luca", "Luca #2",
+ * "Luca #3"… sono gli stessi su ogni client, qualunque parte della cronologia abbia caricato.
+ */
+export function buildRoster(sightings: Iterable<Sighting>): Map<string, Participant> {
+  const byId = new Map<string, { nick: string; lastAt: string }>();
+  for (const s of sightings) {
+    const cur = byId.get(s.id);
+    if (!cur || s.at >= cur.lastAt) byId.set(s.id, { nick: s.nick, lastAt: s.at });
+  }
+
+  const byNick = new Map<string, string[]>();
+  for (const [id, p] of byId) {
+    const key = p.nick.toLowerCase();
+    byNick.set(key, [...(byNick.get(key) ?? []), id]);
+  }
+
+  const roster = new Map<string, Participant>();
+  for (const ids of byNick.values()) {
+    ids.sort();
+    ids.forEach((id, i) => {
+      const { nick } = byId.get(id)!;
+      roster.set(id, { id, nick, label: i ? `${nick} #${i + 1}` : nick, color: avatarColor(id) });
+    });
+  }
+  return roster;
+}
+
+/** Nome da mostrare per un autore (il nickname della riga se l'id non è nell'elenco) */
+export function displayName(roster: Map<string, Participant>, x: { sid?: string; author: string }): string {
+  return roster.get(authorId(x))?.label ?? x.author;
+}
+
+/* ---------- trust-on-first-use (per stanza) ---------- */
+/** Partecipante fissato: l'id lega già la chiave, `author` è il nickname con cui è stato fissato */
+export type Pin = {
+  room: string;
+  sid: string;
+  author: string;
+  pk: string;
+  firstSeen: string;
+  verified: boolean;
+};
+
+export type PinMap = Map<string, Pin>; // id del partecipante → pin
+
+export async function loadPins(room: string): Promise<PinMap> {
+  try {
+    const stored = await idbGetAll<Omit<Pin, "sid"> & { sid?: string }>(
+      "trust",
+      IDBKeyRange.bound([room, ""], [room, "\uffff"])
+    );
+    const pins: PinMap = new Map();
+    const migrated = new Set<string>();
+    for (const p of stored) {
+      if (p.sid) {
+        pins.set(p.sid, { ...p, sid: p.sid, verified: p.verified || !!pins.get(p.sid)?.verified });
+        continue;
+      }
+      // pin delle versioni precedenti, salvati per nickname: passano sotto l'id della loro chiave
+      const sid = await participantId(room, p.pk);
+      const pin = pins.get(sid) ?? { ...p, sid };
+      pins.set(sid, { ...pin, verified: pin.verified || p.verified });
+      migrated.add(sid);
+      await idbDelete("trust", [room, p.author]);
+    }
+    for (const sid of migrated) await savePin(pins.get(sid)!);
+    return pins;
+  } catch {
+    return new Map();
+  }
+}
+
+export function savePin(pin: Pin): Promise<void> {
+  return idbPut("trust", [pin.room, pin.sid], pin).catch(() => undefined);
+}
+
+/** Pin di un altro partecipante che usa già questo nickname (senza distinguere maiuscole) */
+export function pinForNick(pins: PinMap, nick: string, except?: string): Pin | undefined {
+  const key = nick.toLowerCase();
+  for (const pin of pins.values()) if (pin.sid !== except && pin.author.toLowerCase() === key) return pin;
+  return undefined;
+}
+
+/**
+ * Trust-on-first-use: fissa (e salva) gli id con firma valida mai visti il cui nickname non è già
+ * di un altro partecipante fissato, nell'ordine dato. Va chiamata sui messaggi nuovi prima di
+ * valutarli; restituisce i pin aggiunti.
+ */
+export function pinFirstSeen(
+  pins: PinMap,
+  items: Iterable<{ room: string; author: string; sid?: string; pk?: string; signatureValid?: boolean }>
+): Pin[] {
+  const fresh: Pin[] = [];
+  for (const { room, author, sid, pk, signatureValid } of items) {
+    if (!sid || !pk || !signatureValid || pins.has(sid) || pinForNick(pins, author)) continue;
+    const pin: Pin = { room, sid, author, pk, firstSeen: new Date().toISOString(), verified: false };
+    pins.set(sid, pin);
+    fresh.push(pin);
+    void savePin(pin);
+  }
+  return fresh;
+}
+
+/**
+ * Valuta la firma di un messaggio rispetto ai pin della stanza, per id del partecipante, senza
+ * toccarli. Un id nuovo che usa il nome di uno già fissato → `changed` finché non lo si accetta;
+ * uno col nome libero è fidato (lo fissa `pinFirstSeen`). Rinominarsi non cambia lo stato.
+ */
+export function assessTrust(
+  pins: PinMap,
+  room: string,
+  author: string,
+  signer: { sid?: string; pk: string; valid: boolean } | undefined
+): TrustStatus {
+  if (!signer) return "unsigned";
+  if (!signer.valid || !signer.sid) return "invalid";
+  const pin = pins.get(signer.sid);
+  if (pin) return pin.verified ? "verified" : "trusted";
+  return pinForNick(pins, author) ? "changed" : "trusted";
+}
+
+/* ---------- presence ---------- */
+function presenceBytes(room: string, nick: string, at: string): BufferSource {
+  return textEncoder.encode(`${PRESENCE_INFO}\n${room}\n${nick}\n${at}`);
+}
+
+export async function signPresence(identity: DeviceIdentity, room: string, nick: string): Promise<PresenceMeta> {
+  const at = new Date().toISOString();
+  const sid = await participantId(room, identity.pk);
+  return { sid, nick, pk: identity.pk, at, sig: await signBytes(identity, presenceBytes(room, nick, at)) };
+}
+
+/**
+ * Presence → un avvistamento per id; scarta metadati senza firma valida o con un id non suo.
+ * Con più schede aperte vale la più recente, ed è inattivo solo se lo sono tutte.
+ */
+export async function verifyPresence(room: string, state: PresenceState): Promise<PresenceSighting[]> {
+  const metas = Object.values(state).flat() as Partial<PresenceMeta>[];
+  const checked = await Promise.all(
+    metas.map(async (m) => {
+      if (typeof m.sid !== "string" || typeof m.nick !== "string" || typeof m.pk !== "string"
+        || typeof m.at !== "string" || typeof m.sig !== "string") return null;
+      const nick = normalizeNick(m.nick);
+      if (!nick || (await participantId(room, m.pk).catch(() => "")) !== m.sid) return null;
+      if (!(await verifyBytes(m.pk, m.sig, presenceBytes(room, m.nick, m.at)))) return null;
+      const idle = m.idle === true;
+      return { id: m.sid, nick, pk: m.pk, at: m.at, idle, since: idle && typeof m.since === "string" ? m.since : m.at };
+    })
+  );
+  const latest = new Map<string, PresenceSighting>();
+  for (const s of checked) {
+    if (!s) continue;
+    const prev = latest.get(s.id);
+    if (!prev) {
+      latest.set(s.id, s);
+      continue;
+    }
+    const idle = prev.idle && s.idle;
+    const newer = s.at > prev.at ? s : prev;
+    latest.set(s.id, { ...newer, idle, since: idle ? (prev.since > s.since ? prev.since : s.since) : newer.since });
+  }
+  return Array.from(latest.values());
+}
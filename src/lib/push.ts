@@ -0,0 +1,161 @@
+/* ========== Notifiche Web Push per stanza (browser) ========== */
+import { fromB64 } from "@/lib/encoding";
+import { idbDelete, idbGet, idbGetAll, idbPut } from "@/lib/idb";
+import { deletePushSubscription, postPushSubscription } from "@/lib/api";
+import { derivePushPreviewKey, encryptPushPreview, type EnvelopeContext, type MessageBody, type RoomKeyring } from "@/lib/e2ee";
+import type { DeviceIdentity } from "@/lib/identity";
+import { signDeviceProof } from "@/lib/roles";
+
+const VAPID_PUBLIC = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+
+const PREVIEW_MAX = 120;
+
+/**
+ * Quello che arriva al service worker: nessun testo in chiaro. Autore e anteprima cifrata da chi
+ * scrive viaggiano insieme in `sealed`: il nome entra nei dati autenticati dell'anteprima e si
+ * mostra solo se l'anteprima si apre.
+ */
+export type PushPayload = {
+  room: string;
+  id: string;
+  createdAt: string;
+  sealed?: { author: string; preview: string };
+};
+
+/**
+ * Impostazioni per stanza (store `push`, chiave = room), lette anche dal service worker.
+ * `key` c'è solo con l'anteprima attiva: è la sottochiave HKDF delle anteprime
+ * (`derivePushPreviewKey`), non estraibile. Non apre messaggi né cache locale; cambia con la
+ * password e si toglie all'uscita dalla stanza.
+ */
+export type PushSettings = {
+  room: string;
+  endpoint: string;
+  muted: boolean;
+  preview: boolean;
+  key?: CryptoKey;
+};
+
+export function pushAvailable(): boolean {
+  return !!VAPID_PUBLIC && typeof window !== "undefined" && "serviceWorker" in navigator && "PushManager" in window;
+}
+
+export async function loadPushSettings(room: string): Promise<PushSettings | null> {
+  try {
+    return (await idbGet<PushSettings>("push", room)) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Al join: la chiave delle anteprime segue la password corrente. Sostituisce anche la chiave
+ * radice che le versioni precedenti salvavano qui.
+ */
+export async function syncPushKey(room: string, keyring: RoomKeyring): Promise<PushSettings | null> {
+  const settings = await loadPushSettings(room);
+  if (!settings) return null;
+  const next: PushSettings = { ...settings, key: settings.preview ? await derivePushPreviewKey(keyring) : undefined };
+  await idbPut("push", room, next).catch(() => {});
+  return next;
+}
+
+/** All'uscita dalla stanza: le notifiche restano, ma generiche fino al prossimo ingresso */
+export async function dropPushKey(room: string): Promise<void> {
+  const settings = await loadPushSettings(room);
+  if (!settings?.key) return;
+  await idbPut("push", room, { ...settings, key: undefined }).catch(() => {});
+}
+
+/**
+ * Anteprima per le notifiche degli altri, cifrata da chi scrive con la chiave delle anteprime.
+ * Viaggia con l'INSERT ma non si salva: il server la inoltra solo ai push service.
+ */
+export async function sealPushPreview(body: MessageBody, keyring: RoomKeyring, ctx: EnvelopeContext): Promise<string | undefined> {
+  if (!VAPID_PUBLIC) return undefined;
+  const text = body.attachment ? `📎 ${body.attachment.name}` : body.text;
+  const short = text.length > PREVIEW_MAX ? `${text.slice(0, PREVIEW_MAX)}…` : text;
+  return encryptPushPreview(short, await derivePushPreviewKey(keyring), ctx);
+}
+
+async function registration(): Promise<ServiceWorkerRegistration> {
+  // in `next dev` il service worker è disattivato: ready resterebbe in attesa per sempre
+  const reg = await navigator.serviceWorker.getRegistration();
+  if (!reg) throw new Error("Service worker non attivo: le notifiche funzionano solo col build di produzione.");
+  return reg;
+}
+
+function vapidKey(): Uint8Array {
+  const b64 = VAPID_PUBLIC!.replace(/-/g, "+").replace(/_/g, "/");
+  return new Uint8Array(fromB64(b64 + "=".repeat((4 - (b64.length % 4)) % 4)));
+}
+
+/** Chiede il permesso, iscrive il browser (una iscrizione condivisa fra stanze) e la registra per la stanza */
+export async function enablePush(opts: {
+  room: string;
+  identity: DeviceIdentity;
+  verifier: string;
+  keyring: RoomKeyring;
+  preview: boolean;
+}): Promise<PushSettings> {
+  if (!pushAvailable()) throw new Error("Notifiche push non disponibili in questo browser.");
+  if ((await Notification.requestPermission()) !== "granted") throw new Error("Permesso notifiche negato.");
+
+  const reg = await registration();
+  const sub =
+    (await reg.pushManager.getSubscription()) ??
+    (await reg.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: vapidKey() as BufferSource }));
+
+  await postPushSubscription({
+    room: opts.room,
+    verifier: opts.verifier,
+    device: await signDeviceProof(opts.identity, opts.room),
+    subscription: sub.toJSON(),
+    muted: false,
+  });
+  const settings: PushSettings = {
+    room: opts.room,
+    endpoint: sub.endpoint,
+    muted: false,
+    preview: opts.preview,
+    key: opts.preview ? await derivePushPreviewKey(opts.keyring) : undefined,
+  };
+  await idbPut("push", opts.room, settings);
+  return settings;
+}
+
+/** Silenzia/riattiva (lato server: niente invii) o cambia l'anteprima (solo locale) */
+export async function updatePush(
+  settings: PushSettings,
+  patch: Partial<Pick<PushSettings, "muted" | "preview">>,
+  verifier: string,
+  keyring: RoomKeyring,
+  identity: DeviceIdentity
+): Promise<PushSettings> {
+  const next: PushSettings = { ...settings, ...patch };
+  next.key = next.preview ? await derivePushPreviewKey(keyring) : undefined;
+
+  if (patch.muted !== undefined && patch.muted !== settings.muted) {
+    const sub = await (await registration()).pushManager.getSubscription();
+    if (!sub) throw new Error("Iscrizione push scaduta: disattiva e riattiva le notifiche.");
+    await postPushSubscription({
+      room: settings.room,
+      verifier,
+      device: await signDeviceProof(identity, settings.room),
+      subscription: sub.toJSON(),
+      muted: next.muted,
+    });
+  }
+  await idbPut("push", settings.room, next);
+  return next;
+}
+
+/** Toglie la stanza; se nessun'altra stanza usa l'iscrizione la cancello anche dal browser */
+export async function disablePush(settings: PushSettings, verifier: string): Promise<void> {
+  await deletePushSubscription({ room: settings.room, endpoint: settings.endpoint, verifier });
+  await idbDelete("push", settings.room);
+  const others = await idbGetAll<PushSettings>("push");
+  if (others.some((s) => s.endpoint === settings.endpoint)) return;
+  const sub = await (await registration()).pushManager.getSubscription();
+  await sub?.unsubscribe();
+}
@@ -0,0 +1,73 @@
+/* ========== Ruoli nella stanza: owner e admin ========== */
+import { signBytes, type DeviceIdentity } from "@/lib/identity";
+
+/**
+ * I ruoli sono legati alla chiave del dispositivo (la stessa che firma i messaggi):
+ * chi crea la stanza ne diventa owner, l'owner può nominare admin altri partecipanti.
+ * Le azioni riservate vanno alle route con una prova firmata, verificata dal server.
+ */
+export type RoomRole = "owner" | "admin" | "member";
+
+export type RoomAdmin = { pk: string; name: string };
+
+export type RoomRoles = {
+  ownerPk: string | null;
+  admins: RoomAdmin[];
+};
+
+export type AdminAction = "clear" | "grant" | "revoke" | "settings" | "kick" | "rotate";
+
+/** Prova allegata alle richieste riservate: accesso alla stanza + firma del dispositivo */
+export type AdminProof = {
+  verifier: string;
+  pk: string;
+  ts: number;   // ms; il server accetta solo prove recenti
+  sig: string;  // ECDSA su adminProofBytes(...)
+};
+
+/**
+ * Possesso della chiave del dispositivo, per join e rinnovo del token di stanza: la chiave finisce
+ * nel claim `pk` del token, quindi owner ed espulsioni valgono solo per chi la firma davvero.
+ */
+export type DeviceProof = {
+  pk: string;
+  ts: number;   // ms; stessa finestra delle prove riservate
+  sig: string;  // ECDSA su deviceProofBytes(...)
+};
+
+export const PROOF_MAX_AGE_MS = 5 * 60 * 1000;
+
+export function deviceProofBytes(room: string, ts: number): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify(["chat-anonima/device", room, ts]));
+}
+
+export function adminProofBytes(room: string, action: AdminAction, ts: number, params: unknown): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify(["chat-anonima/admin", room, action, ts, params ?? null]));
+}
+
+export function roleOf(roles: RoomRoles, pk: string | undefined): RoomRole {
+  if (!pk) return "member";
+  if (roles.ownerPk === pk) return "owner";
+  return roles.admins.some((a) => a.pk === pk) ? "admin" : "member";
+}
+
+export function canModerate(role: RoomRole): boolean {
+  return role === "owner" || role === "admin";
+}
+
+export async function signDeviceProof(identity: DeviceIdentity, room: string): Promise<DeviceProof> {
+  const ts = Date.now();
+  return { pk: identity.pk, ts, sig: await signBytes(identity, deviceProofBytes(room, ts) as BufferSource) };
+}
+
+export async function signAdminProof(
+  identity: DeviceIdentity,
+  room: string,
+  verifier: string,
+  action: AdminAction,
+  params: unknown
+): Promise<AdminProof> {
+  const ts = Date.now();
+  const sig = await signBytes(identity, adminProofBytes(room, action, ts, params) as BufferSource);
+  return { verifier, pk: identity.pk, ts, sig };
+}
@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { decryptMessage, deriveRoomKeyring, encryptMessage, generateRoomSalt, type RoomKeyring } from "./e2ee";
+import { loadDeviceIdentity, type DeviceIdentity } from "./identity";
+import type { RotateRequest } from "./api";
+import type { MessageRow } from "./messages";
+import type { ChatTable } from "./transport/types";
+
+/* ========== Rotazione della password: ripresa dopo un'interruzione ========== */
+
+// rotation → transport → client Supabase, che senza URL non si crea
+process.env.NEXT_PUBLIC_SUPABASE_URL ??= "http://localhost:54321";
+process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ??= "test";
+
+const ROOM = "stanza";
+
+/** `/api/rooms/rotate` in memoria, con le stesse risposte della route per `begin` ripetuto */
+class FakeRoom {
+  rows: (MessageRow & { table: ChatTable })[] = [];
+  pending: { kdfSalt: string; verifier: string } | null = null;
+  committed: { kdfSalt: string } | null = null;
+  failBatchOf: ChatTable | null = null;
+  batches: { table: ChatTable; ids: string[] }[] = [];
+
+  rotate({ step }: RotateRequest): { status: number; body: Record<string, unknown> } {
+    if (step.phase === "begin") {
+      if (this.pending && this.pending.kdfSalt !== step.kdfSalt) {
+        return { status: 409, body: { error: "Rotazione già avviata, riprova.", kdfSalt: this.pending.kdfSalt } };
+      }
+      if (this.pending && this.pending.verifier !== step.verifier) return { status: 409, body: { error: "altra password" } };
+      this.pending = { kdfSalt: step.kdfSalt, verifier: step.verifier };
+      return { status: 200, body: { ok: true } };
+    }
+    if (step.phase === "batch") {
+      const table = step.rows[0].table;
+      if (table === this.failBatchOf) return { status: 500, body: { error: "Errore UPDATE." } };
+      this.batches.push({ table, ids: step.rows.map((r) => r.id) });
+      for (const r of step.rows) this.rows.find((row) => row.table === r.table && row.id === r.id)!.content = r.content;
+      return { status: 200, body: { ok: true, updated: step.rows.length } };
+    }
+    if (this.pending?.verifier !== step.verifier) return { status: 401, body: { error: "Password nuova non corrispondente." } };
+    this.committed = { kdfSalt: this.pending.kdfSalt };
+    this.pending = null;
+    return { status: 200, body: { ok: true } };
+  }
+}
+
+describe("rotateRoomPassword", () => {
+  const realFetch = globalThis.fetch;
+  const fake = new FakeRoom();
+  let rotation: typeof import("./rotation");
+  let current: RoomKeyring;
+  let identity: DeviceIdentity;
+
+  before(async () => {
+    const { transport } = await import("./transport");
+    rotation = await import("./rotation");
+    transport.count = async (table) => fake.rows.filter((r) => r.table === table).length;
+    transport.history = async (table, room, { limit, offset = 0 }) =>
+      fake.rows.filter((r) => r.table === table && r.room === room).slice(offset, offset + limit);
+    globalThis.fetch = (async (_url: string, init?: RequestInit) => {
+      const { status, body } = fake.rotate(JSON.parse(String(init?.body)) as RotateRequest);
+      return new Response(JSON.stringify(body), { status });
+    }) as typeof fetch;
+
+    identity = await loadDeviceIdentity();
+    current = await deriveRoomKeyring("vecchia", generateRoomSalt());
+    for (const [table, id] of [["messages", "m1"], ["messages", "m2"], ["reactions", "r1"]] as const) {
+      const env = await encryptMessage({ text: id }, current, { room: ROOM, author: "ann", id }, identity);
+      fake.rows.push({ table, id, room: ROOM, author: "ann", content: JSON.stringify(env), created_at: "2026-10-19T10:00:00.000Z" });
+    }
+  });
+  after(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  it("riprende col salt della rotazione interrotta e non ricifra due volte le righe già fatte", async () => {
+    const options = { room: ROOM, identity, current, newPassword: "nuova", onProgress: () => {} };
+
+    fake.failBatchOf = "reactions";
+    await assert.rejects(rotation.rotateRoomPassword(options), /Errore UPDATE/);
+    assert.equal(fake.committed, null);
+    assert.deepEqual(fake.batches, [{ table: "messages", ids: ["m1", "m2"] }]);
+    const salt = fake.pending!.kdfSalt;
+
+    fake.failBatchOf = null;
+    fake.batches = [];
+    await rotation.rotateRoomPassword(options);
+    assert.deepEqual(fake.committed, { kdfSalt: salt });
+    assert.deepEqual(fake.batches, [{ table: "reactions", ids: ["r1"] }]);
+
+    const next = await deriveRoomKeyring("nuova", salt);
+    for (const row of fake.rows) {
+      const dec = await decryptMessage(row.content, next, row);
+      assert.equal(dec.integrity, "ok");
+      assert.equal(dec.body.text, row.id);
+    }
+  });
+});
@@ -0,0 +1,102 @@
+/* ========== Rotazione della password stanza (browser, solo owner) ========== */
+import { transport } from "@/lib/transport";
+import { deriveAccessVerifier, deriveRoomKeyring, generateRoomSalt, reencryptMessage, type RoomKeyring } from "@/lib/e2ee";
+import { ApiError, postRotateStep, type RekeyedRow, type RotateStep } from "@/lib/api";
+import { signAdminProof } from "@/lib/roles";
+import type { DeviceIdentity } from "@/lib/identity";
+
+const PAGE = 100;
+const TABLES = ["messages", "reactions"] as const;
+
+export type RotationProgress = { done: number; total: number };
+
+type RotateOptions = {
+  room: string;
+  identity: DeviceIdentity;
+  current: RoomKeyring;
+  newPassword: string;
+  onProgress: (p: RotationProgress) => void;
+  onBegun?: () => void; // rotazione registrata sul server: da qui gli avvisi agli altri si verificano
+};
+
+async function countRows(room: string): Promise<number> {
+  const counts = await Promise.all(TABLES.map((t) => transport.count(t, room)));
+  return counts.reduce((n, c) => n + c, 0);
+}
+
+/**
+ * Ricifra tutte le righe leggibili con `from`, a pagine. Le righe già ricifrate (o illeggibili)
+ * vengono saltate, quindi il passaggio si può ripetere e riprendere senza danni.
+ */
+async function rekeyAll(
+  room: string,
+  from: RoomKeyring,
+  to: RoomKeyring,
+  send: (rows: RekeyedRow[]) => Promise<void>,
+  onRow: () => void
+): Promise<void> {
+  for (const table of TABLES) {
+    for (let offset = 0; ; offset += PAGE) {
+      const page = await transport.history(table, room, { limit: PAGE, offset });
+
+      const rows: RekeyedRow[] = [];
+      for (const r of page) {
+        const content = await reencryptMessage(r.content, from, to, { id: r.id, room: r.room, author: r.author });
+        if (content) rows.push({ table, id: r.id, content });
+        onRow();
+      }
+      if (rows.length) await send(rows);
+      if (page.length < PAGE) break;
+    }
+  }
+}
+
+/**
+ * Avvia (o riprende) la rotazione, ricifra la cronologia e la conferma sul server.
+ * Dopo il commit fa un secondo passaggio per le righe arrivate con la vecchia chiave nel frattempo.
+ */
+export async function rotateRoomPassword({
+  room,
+  identity,
+  current,
+  newPassword,
+  onProgress,
+  onBegun,
+}: RotateOptions): Promise<void> {
+  const currentVerifier = await deriveAccessVerifier(current);
+  const step = async (s: RotateStep, verifier = currentVerifier) =>
+    postRotateStep({ room, proof: await signAdminProof(identity, room, verifier, "rotate", s), step: s });
+
+  // begin: su 409 con salt c'è una rotazione interrotta → riderivo col suo salt e riprovo
+  let kdfSalt = generateRoomSalt();
+  let next: RoomKeyring;
+  for (let attempt = 0; ; attempt++) {
+    next = await deriveRoomKeyring(newPassword, kdfSalt);
+    try {
+      await step({ phase: "begin", kdfSalt, verifier: await deriveAccessVerifier(next) });
+      break;
+    } catch (err) {
+      const pendingSalt = err instanceof ApiError ? err.body.kdfSalt : undefined;
+      if (typeof pendingSalt !== "string" || attempt >= 1) throw err;
+      kdfSalt = pendingSalt;
+    }
+  }
+  onBegun?.();
+
+  const total = await countRows(room);
+  let done = 0;
+  onProgress({ done, total });
+  await rekeyAll(
+    room,
+    current,
+    next,
+    async (rows) => void (await step({ phase: "batch", rows })),
+    () => onProgress({ done: ++done, total: Math.max(total, done) })
+  );
+
+  const nextVerifier = await deriveAccessVerifier(next);
+  await step({ phase: "commit", verifier: nextVerifier });
+
+  // da qui le prove si firmano col verifier nuovo: quello vecchio non apre più la stanza
+  await rekeyAll(room, current, next, async (rows) => void (await step({ phase: "batch", rows }, nextVerifier)), () => {});
+}
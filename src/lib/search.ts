@@ -0,0 +1,116 @@
+/* ========== Ricerca nella cronologia decifrata (solo in memoria, mai fuori dal dispositivo) ========== */
+import type { Message } from "@/lib/messages";
+
+export type SearchQuery = {
+  text: string;
+  author?: string;
+  from?: string; // yyyy-mm-dd, ora locale
+  to?: string;
+};
+
+export type SearchHit = { id: string; author: string; at: string; text: string };
+
+/**
+ * Indice invertito: termine normalizzato → id dei messaggi. Si ricostruisce dai messaggi
+ * caricati (copia locale + pagine lette), vive solo nello stato della pagina e sparisce con lei.
+ */
+export type SearchIndex = {
+  docs: Map<string, SearchHit>;
+  terms: Map<string, Set<string>>;
+};
+
+export const MAX_HITS = 100;
+
+/** Minuscole e senza accenti: "Perché" trova "perche" */
+function fold(text: string): string {
+  return text.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase();
+}
+
+export function tokenize(text: string): string[] {
+  return fold(text).match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+export function buildSearchIndex(messages: Message[]): SearchIndex {
+  const docs = new Map<string, SearchHit>();
+  const terms = new Map<string, Set<string>>();
+  for (const m of messages) {
+    if (m.deleted || m.integrity === "tampered") continue;
+    const text = [m.content, m.attachment?.name].filter(Boolean).join(" ");
+    if (!text) continue;
+    docs.set(m.id, { id: m.id, author: m.author, at: m.sent_at ?? m.created_at, text });
+    for (const term of tokenize(text)) {
+      let ids = terms.get(term);
+      if (!ids) terms.set(term, (ids = new Set()));
+      ids.add(m.id);
+    }
+  }
+  return { docs, terms };
+}
+
+function inDateRange(at: string, from?: string, to?: string): boolean {
+  const t = Date.parse(at);
+  if (from && t < new Date(`${from}T00:00:00`).getTime()) return false;
+  if (to && t > new Date(`${to}T23:59:59.999`).getTime()) return false;
+  return true;
+}
+
+/** Tutti i termini della query, ognuno come prefisso di una parola; i più recenti prima */
+export function searchIndex(index: SearchIndex, query: SearchQuery): SearchHit[] {
+  const words = tokenize(query.text);
+  let ids = null as Set<string> | null; // null = nessun termine ancora applicato
+  for (const word of words) {
+    const matching = new Set<string>();
+    for (const [term, termIds] of index.terms) {
+      if (term.startsWith(word)) for (const id of termIds) matching.add(id);
+    }
+    ids = ids ? new Set([...ids].filter((id) => matching.has(id))) : matching;
+    if (!ids.size) return [];
+  }
+  // senza testo bastano i filtri (autore e/o date)
+  if (!ids && !query.author && !query.from && !query.to) return [];
+  const candidates = ids ? [...ids].map((id) => index.docs.get(id)!) : [...index.docs.values()];
+  return candidates
+    .filter((d) => (!query.author || d.author === query.author) && inDateRange(d.at, query.from, query.to))
+    .sort((a, b) => b.at.localeCompare(a.at))
+    .slice(0, MAX_HITS);
+}
+
+/**
+ * Divide `text` in pezzi evidenziati e non: ogni termine conta dall'inizio di una parola,
+ * ignorando maiuscole e accenti come la ricerca.
+ */
+export function highlightSegments(text: string, terms: string[]): { text: string; match: boolean }[] {
+  if (!terms.length || !text) return [{ text, match: false }];
+  // testo "piegato" carattere per carattere, con la posizione originale di ogni carattere
+  let folded = "";
+  const origin: number[] = [];
+  for (let i = 0; i < text.length; ) {
+    const ch = String.fromCodePoint(text.codePointAt(i)!);
+    const f = fold(ch);
+    folded += f;
+    for (let k = 0; k < f.length; k++) origin.push(i);
+    i += ch.length;
+  }
+  origin.push(text.length);
+
+  const ranges: [number, number][] = [];
+  for (const term of terms) {
+    for (let at = folded.indexOf(term); at >= 0; at = folded.indexOf(term, at + 1)) {
+      if (at > 0 && /[\p{L}\p{N}]/u.test(folded[at - 1])) continue; // solo a inizio parola
+      ranges.push([origin[at], origin[at + term.length]]);
+    }
+  }
+  if (!ranges.length) return [{ text, match: false }];
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const segments: { text: string; match: boolean }[] = [];
+  let pos = 0;
+  for (const [start, end] of ranges) {
+    if (end <= pos) continue;
+    if (start > pos) segments.push({ text: text.slice(pos, start), match: false });
+    segments.push({ text: text.slice(Math.max(start, pos), end), match: true });
+    pos = end;
+  }
+  if (pos < text.length) segments.push({ text: text.slice(pos), match: false });
+  return segments;
+}
@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { NextRequest } from "next/server";
+import { roomFolder } from "../encoding";
+
+/* ========== Stand-in locale degli allegati: cartella per stanza e token ========== */
+
+// la route legge store, cartella e segreto dei token quando viene importata
+process.env.NEXT_PUBLIC_ATTACHMENT_STORE = "local";
+process.env.SUPABASE_JWT_SECRET ??= "segreto-di-test";
+
+const ROOM = "caffè ☕ del lunedì";
+
+describe("/api/attachments", () => {
+  let dir: string;
+  let route: typeof import("../../app/api/attachments/[...path]/route");
+  let sign: typeof import("./room-token").signRoomToken;
+
+  before(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "allegati-"));
+    process.env.ATTACHMENTS_DIR = dir;
+    route = await import("../../app/api/attachments/[...path]/route");
+    sign = (await import("./room-token")).signRoomToken;
+  });
+  after(() => rm(dir, { recursive: true, force: true }));
+
+  const call = (method: "GET" | "PUT", segments: string[], room: string, body?: Uint8Array) => {
+    const url = `http://localhost/api/attachments/${segments.map(encodeURIComponent).join("/")}`;
+    const req = new NextRequest(url, {
+      method,
+      headers: { Authorization: `Bearer ${sign(room, "pk")!.token}` },
+      body: body as BodyInit | undefined,
+    });
+    return route[method](req, { params: Promise.resolve({ path: segments }) });
+  };
+
+  it("una stanza con nome non ASCII carica e rilegge nella sua cartella", async () => {
+    const folder = await roomFolder(ROOM);
+    assert.match(folder, /^[0-9a-f]{64}$/);
+    const segments = [folder, crypto.randomUUID()];
+    const bytes = new Uint8Array([1, 2, 3, 250]);
+
+    assert.equal((await call("PUT", segments, ROOM, bytes)).status, 200);
+    const res = await call("GET", segments, ROOM);
+    assert.equal(res.status, 200);
+    assert.deepEqual(new Uint8Array(await res.arrayBuffer()), bytes);
+  });
+
+  it("il token di un'altra stanza non apre la cartella, e col nome in chiaro non si scrive", async () => {
+    const segments = [await roomFolder(ROOM), crypto.randomUUID()];
+    assert.equal((await call("PUT", segments, ROOM, new Uint8Array([1]))).status, 200);
+    assert.equal((await call("GET", segments, "altra stanza")).status, 403);
+    assert.equal((await call("PUT", ["lunedi", crypto.randomUUID()], "lunedi", new Uint8Array([1]))).status, 403);
+  });
+});
@@ -0,0 +1,26 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { bearerToken, normalizeRoom, secretMatches } from "./http";
+
+/* ========== Helper delle route: segreti condivisi e nomi stanza ========== */
+
+describe("http", () => {
+  it("il segreto condiviso passa solo identico, e mai se non è configurato", () => {
+    assert.equal(secretMatches("s3greto", "s3greto"), true);
+    assert.equal(secretMatches("s3greto!", "s3greto"), false);
+    assert.equal(secretMatches("", ""), false);
+    assert.equal(secretMatches("qualcosa", undefined), false);
+  });
+
+  it("il token va preso solo da `Bearer …`", () => {
+    assert.equal(bearerToken("Bearer abc.def"), "abc.def");
+    assert.equal(bearerToken("Basic abc"), undefined);
+    assert.equal(bearerToken(null), undefined);
+    assert.equal(secretMatches(bearerToken("s3greto"), "s3greto"), false);
+  });
+
+  it("il nome stanza si confronta senza spazi ai bordi e in minuscolo", () => {
+    assert.equal(normalizeRoom("  Caffè Lunedì "), "caffè lunedì");
+    assert.equal(normalizeRoom(42), "");
+  });
+});
@@ -0,0 +1,35 @@
+import { timingSafeEqual } from "node:crypto";
+import { NextResponse } from "next/server";
+
+/* ========== Helper comuni delle route: risposte d'errore, input e segreti condivisi ========== */
+
+/** Verifier, salt, chiavi pubbliche e firme viaggiano in base64 standard */
+export const B64_RE = /^[A-Za-z0-9+/]+={0,2}$/;
+/** Id di messaggi e reazioni (`crypto.randomUUID()` nel browser) */
+export const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Risposta d'errore di tutte le route: `{ error, ...extra }`, letta dal client come `ApiError` */
+export function fail(status: number, error: string, extra?: Record<string, unknown>, headers?: HeadersInit) {
+  return NextResponse.json({ error, ...extra }, { status, headers });
+}
+
+/** Nome della stanza come sta in `rooms.room`: senza spazi ai bordi e minuscolo */
+export function normalizeRoom(room: unknown): string {
+  return typeof room === "string" ? room.trim().toLowerCase() : "";
+}
+
+/** Token di `Authorization: Bearer …`, se c'è */
+export function bearerToken(header: string | null | undefined): string | undefined {
+  return header?.startsWith("Bearer ") ? header.slice("Bearer ".length) : undefined;
+}
+
+/**
+ * Confronto a tempo costante con un segreto condiviso (cron, webhook push, server chat).
+ * Senza segreto configurato non passa nessuno.
+ */
+export function secretMatches(given: string | null | undefined, secret: string | undefined): boolean {
+  if (!secret || !given) return false;
+  const a = Buffer.from(given);
+  const b = Buffer.from(secret);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
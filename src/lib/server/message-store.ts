@@ -0,0 +1,68 @@
+import { supabaseAdmin } from "@/lib/server/supabase-admin";
+import { CHAT_BACKEND, DEFAULT_CHAT_SERVER_URL, type ChatTable } from "@/lib/transport";
+
+/* ========== Righe cifrate lato server: stesso backend scelto per il trasporto chat ========== */
+
+export interface MessageStore {
+  /** Cancella le righe della stanza (solo quelle create prima di `before`, se indicato); ritorna quante */
+  deleteRows(table: ChatTable, room: string, before?: Date): Promise<number>;
+  replaceContent(table: ChatTable, room: string, id: string, content: string): Promise<void>;
+  /** Chiude fuori dal backend chat una chiave espulsa (su Supabase basta `room_kicks`) */
+  kick(room: string, pk: string): Promise<void>;
+}
+
+const supabaseStore: MessageStore = {
+  async deleteRows(table, room, before) {
+    let q = supabaseAdmin.from(table).delete({ count: "exact" }).eq("room", room);
+    if (before) q = q.lt("created_at", before.toISOString());
+    const { count, error } = await q;
+    if (error) throw new Error(`Errore DELETE (${table}): ${error.message}`);
+    return count ?? 0;
+  },
+
+  async replaceContent(table, room, id, content) {
+    const { error } = await supabaseAdmin.from(table).update({ content }).eq("room", room).eq("id", id);
+    if (error) throw new Error(`Errore UPDATE (${table}): ${error.message}`);
+  },
+
+  async kick() {
+    // `jwt_room()` legge già `room_kicks`: le policy escludono la chiave da sole
+  },
+};
+
+/**
+ * Il server WebSocket espone `/admin/*` sulla stessa porta, protetto da CHAT_SERVER_SECRET:
+ * così cancellazioni e ricifrature arrivano anche ai client iscritti, e le espulsioni valgono anche lì.
+ */
+const ADMIN_URL = (
+  process.env.CHAT_SERVER_ADMIN_URL ||
+  (process.env.NEXT_PUBLIC_CHAT_SERVER_URL || DEFAULT_CHAT_SERVER_URL).replace(/^ws/, "http")
+).replace(/\/+$/, "");
+
+async function admin<T>(path: string, body: unknown): Promise<T> {
+  const res = await fetch(`${ADMIN_URL}/admin/${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${process.env.CHAT_SERVER_SECRET ?? ""}` },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(`Errore server chat (${path}): ${data.error ?? res.status}`);
+  return data as T;
+}
+
+const wsStore: MessageStore = {
+  async deleteRows(table, room, before) {
+    const { deleted } = await admin<{ deleted: number }>("delete", { table, room, before: before?.toISOString() });
+    return deleted;
+  },
+
+  async replaceContent(table, room, id, content) {
+    await admin("update", { table, room, id, content });
+  },
+
+  async kick(room, pk) {
+    await admin("kick", { room, pk });
+  },
+};
+
+export const messageStore: MessageStore = CHAT_BACKEND === "ws" ? wsStore : supabaseStore;
@@ -0,0 +1,78 @@
+import { readdir, rm, stat } from "node:fs/promises";
+import path from "node:path";
+import { supabaseAdmin } from "@/lib/server/supabase-admin";
+import { messageStore } from "@/lib/server/message-store";
+import { roomFolder } from "@/lib/encoding";
+
+/* ========== Purge dei messaggi scaduti (TTL per stanza) ========== */
+
+const BUCKET = "attachments";
+const LOCAL_ROOT = path.resolve(process.env.ATTACHMENTS_DIR ?? ".data/attachments");
+// le cartelle col nome in chiaro esistevano solo per i nomi validi come chiave dello Storage
+const LEGACY_FOLDER_RE = /^[A-Za-z0-9._-]+$/;
+
+export type PurgeResult = { rooms: number; messages: number; reactions: number; attachments: number };
+
+/**
+ * Gli allegati non sono collegati ai messaggi lato server (il path sta nella busta cifrata):
+ * si cancellano i file della cartella della stanza (`roomFolder(room)`, e `${room}/` per i file
+ * caricati prima) più vecchi della stessa soglia.
+ */
+export async function purgeAttachments(room: string, cutoff: Date): Promise<number> {
+  const folders = [await roomFolder(room)];
+  if (LEGACY_FOLDER_RE.test(room) && room !== "." && room !== "..") folders.push(room);
+  let removed = 0;
+  for (const folder of folders) removed += await purgeFolder(folder, cutoff);
+  return removed;
+}
+
+async function purgeFolder(folder: string, cutoff: Date): Promise<number> {
+  if (process.env.NEXT_PUBLIC_ATTACHMENT_STORE === "local") {
+    const dir = path.join(LOCAL_ROOT, folder);
+    const files = await readdir(dir).catch(() => [] as string[]);
+    let removed = 0;
+    for (const f of files) {
+      const file = path.join(dir, f);
+      if ((await stat(file)).mtime < cutoff) {
+        await rm(file, { force: true });
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  const { data, error } = await supabaseAdmin.storage.from(BUCKET).list(folder, { limit: 1000 });
+  if (error) throw new Error(`Errore Storage (list): ${error.message}`);
+  const expired = (data ?? [])
+    .filter((o) => o.created_at && new Date(o.created_at) < cutoff)
+    .map((o) => `${folder}/${o.name}`);
+  if (!expired.length) return 0;
+  const { error: rmErr } = await supabaseAdmin.storage.from(BUCKET).remove(expired);
+  if (rmErr) throw new Error(`Errore Storage (remove): ${rmErr.message}`);
+  return expired.length;
+}
+
+/** Cancella messaggi, reazioni e allegati più vecchi del TTL di ogni stanza */
+export async function purgeExpired(now = new Date()): Promise<PurgeResult> {
+  const { data: rooms, error } = await supabaseAdmin
+    .from("rooms")
+    .select("room, ttl_seconds")
+    .not("ttl_seconds", "is", null);
+  if (error) throw new Error(`Errore DB (rooms): ${error.message}`);
+
+  const result: PurgeResult = { rooms: 0, messages: 0, reactions: 0, attachments: 0 };
+  for (const { room, ttl_seconds } of rooms ?? []) {
+    if (ttl_seconds === null) continue;
+    const cutoff = new Date(now.getTime() - ttl_seconds * 1000);
+    const [msgs, reacts] = await Promise.all([
+      messageStore.deleteRows("messages", room, cutoff),
+      messageStore.deleteRows("reactions", room, cutoff),
+    ]);
+
+    result.rooms++;
+    result.messages += msgs;
+    result.reactions += reacts;
+    result.attachments += await purgeAttachments(room, cutoff);
+  }
+  return result;
+}
@@ -0,0 +1,75 @@
+import webpush, { WebPushError, type PushSubscription } from "web-push";
+import { supabaseAdmin } from "@/lib/server/supabase-admin";
+import type { PushPayload } from "@/lib/push";
+import type { Json } from "@/lib/database.types";
+
+/* ========== Web Push (lato server) ========== */
+
+/**
+ * Chiavi VAPID da env (`npm run push:keys` ne genera una coppia locale).
+ * La notifica parte verso il push service del browser: stanza e id, più autore e anteprima cifrata
+ * da chi scrive (`sealed`). Il nome è contesto autenticato dell'anteprima: il service worker lo
+ * mostra solo accanto al testo decifrato, cioè solo con l'anteprima attiva.
+ */
+const VAPID_PUBLIC = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+const VAPID_PRIVATE = process.env.VAPID_PRIVATE_KEY;
+const VAPID_SUBJECT = process.env.VAPID_SUBJECT ?? "mailto:admin@localhost";
+
+export const pushConfigured = !!VAPID_PUBLIC && !!VAPID_PRIVATE;
+if (pushConfigured) webpush.setVapidDetails(VAPID_SUBJECT, VAPID_PUBLIC!, VAPID_PRIVATE!);
+
+/** `subscription` è jsonb (`Json` nei tipi generati): la scrive solo `POST /api/push`, qui la ricontrollo */
+function toSubscription(json: Json): PushSubscription | null {
+  if (typeof json !== "object" || json === null || Array.isArray(json)) return null;
+  const { endpoint, keys } = json;
+  if (typeof endpoint !== "string" || typeof keys !== "object" || keys === null || Array.isArray(keys)) return null;
+  const { p256dh, auth } = keys;
+  return typeof p256dh === "string" && typeof auth === "string" ? { endpoint, keys: { p256dh, auth } } : null;
+}
+
+type InsertedMessage = { id: string; room: string; author: string; created_at: string; pk: string | null; preview: string | null };
+
+/**
+ * Notifica i membri iscritti alla stanza, tranne chi ha silenziato e i dispositivi con la chiave
+ * di chi ha scritto (`messages.pk`). Righe e iscrizioni senza chiave (precedenti) non escludono nessuno.
+ */
+export async function notifyRoom(msg: InsertedMessage): Promise<{ sent: number; removed: number }> {
+  let q = supabaseAdmin
+    .from("push_subscriptions")
+    .select("endpoint, subscription")
+    .eq("room", msg.room)
+    .eq("muted", false);
+  if (msg.pk) q = q.or(`pk.is.null,pk.neq."${msg.pk}"`);
+  const { data, error } = await q;
+  if (error) throw new Error(`Errore DB (push_subscriptions): ${error.message}`);
+
+  const payload: PushPayload = {
+    room: msg.room,
+    id: msg.id,
+    createdAt: msg.created_at,
+    sealed: msg.preview ? { author: msg.author, preview: msg.preview } : undefined,
+  };
+  const body = JSON.stringify(payload);
+
+  let sent = 0;
+  const gone: string[] = [];
+  await Promise.all(
+    (data ?? []).map(async (row) => {
+      const subscription = toSubscription(row.subscription);
+      if (!subscription) {
+        gone.push(row.endpoint); // riga illeggibile: come un'iscrizione scaduta
+        return;
+      }
+      try {
+        await webpush.sendNotification(subscription, body, { TTL: 60 * 60, urgency: "high" });
+        sent++;
+      } catch (err) {
+        // 404/410: l'iscrizione non esiste più sul push service
+        if (err instanceof WebPushError && (err.statusCode === 404 || err.statusCode === 410)) gone.push(row.endpoint);
+        else console.error("[push] invio fallito", err);
+      }
+    })
+  );
+  if (gone.length) await supabaseAdmin.from("push_subscriptions").delete().in("endpoint", gone);
+  return { sent, removed: gone.length };
+}
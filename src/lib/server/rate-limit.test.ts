@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { clientKey, createCooldown, createPasswordGuard, createRateLimiter } from "./rate-limit";
+
+/* ========== Token bucket, pausa dopo password sbagliate e indirizzo del client ========== */
+
+beforeEach(() => mock.timers.enable({ apis: ["Date"], now: Date.parse("2026-10-19T10:00:00.000Z") }));
+afterEach(() => mock.timers.reset());
+
+describe("createRateLimiter", () => {
+  it("concede una raffica di `capacity`, poi chiede di aspettare il prossimo gettone", () => {
+    const limiter = createRateLimiter({ capacity: 3, refillPerSec: 0.5 });
+    for (let i = 0; i < 3; i++) assert.deepEqual(limiter.take("ip"), { ok: true });
+    assert.deepEqual(limiter.take("ip"), { ok: false, retryAfter: 2 });
+    mock.timers.tick(1000);
+    assert.deepEqual(limiter.take("ip"), { ok: false, retryAfter: 1 });
+    mock.timers.tick(1000);
+    assert.deepEqual(limiter.take("ip"), { ok: true });
+  });
+
+  it("ogni chiave ha il suo bucket e non si ricarica oltre la capacità", () => {
+    const limiter = createRateLimiter({ capacity: 2, refillPerSec: 1 });
+    limiter.take("a");
+    limiter.take("a");
+    assert.equal(limiter.take("a").ok, false);
+    assert.equal(limiter.take("b").ok, true);
+    mock.timers.tick(60_000);
+    assert.equal(limiter.take("a").ok, true);
+    assert.equal(limiter.take("a").ok, true);
+    assert.equal(limiter.take("a").ok, false);
+  });
+
+  it("una richiesta respinta non consuma gettoni", () => {
+    const limiter = createRateLimiter({ capacity: 1, refillPerSec: 1 });
+    limiter.take("ip");
+    for (let i = 0; i < 5; i++) limiter.take("ip");
+    mock.timers.tick(1000);
+    assert.equal(limiter.take("ip").ok, true);
+  });
+});
+
+describe("createCooldown", () => {
+  it("lascia liberi i primi tentativi, poi raddoppia l'attesa fino al massimo", () => {
+    const cooldown = createCooldown({ freeAttempts: 2, baseSeconds: 10, maxSeconds: 30 });
+    cooldown.fail("k");
+    cooldown.fail("k");
+    assert.equal(cooldown.check("k"), 0);
+    cooldown.fail("k");
+    assert.equal(cooldown.check("k"), 10);
+    cooldown.fail("k");
+    assert.equal(cooldown.check("k"), 20);
+    cooldown.fail("k");
+    assert.equal(cooldown.check("k"), 30);
+    mock.timers.tick(30_000);
+    assert.equal(cooldown.check("k"), 0);
+  });
+
+  it("un accesso riuscito azzera il conteggio solo per quella chiave", () => {
+    const cooldown = createCooldown({ freeAttempts: 0, baseSeconds: 5 });
+    cooldown.fail("a");
+    cooldown.fail("b");
+    cooldown.reset("a");
+    assert.equal(cooldown.check("a"), 0);
+    assert.equal(cooldown.check("b"), 5);
+  });
+});
+
+describe("createRateLimiter.peek", () => {
+  it("dice se c'è un gettone senza consumarlo", () => {
+    const limiter = createRateLimiter({ capacity: 1, refillPerSec: 1 });
+    assert.deepEqual(limiter.peek("ip"), { ok: true });
+    assert.deepEqual(limiter.peek("ip"), { ok: true });
+    limiter.take("ip");
+    assert.deepEqual(limiter.peek("ip"), { ok: false, retryAfter: 1 });
+  });
+});
+
+describe("createPasswordGuard", () => {
+  it("un x-forwarded-for diverso a ogni tentativo non aggira il budget della stanza", () => {
+    const guard = createPasswordGuard({ capacity: 3, refillPerSec: 1 / 60 });
+    for (let i = 0; i < 3; i++) {
+      // caso peggiore: proxy configurato male, l'header del client passa e cambia a ogni tentativo
+      const spoofed = clientKey(`10.0.0.${i}`, "unknown", 1);
+      assert.equal(spoofed, `10.0.0.${i}`);
+      assert.equal(guard.check(spoofed, "stanza"), 0);
+      guard.fail(spoofed, "stanza");
+    }
+    assert.equal(guard.check("10.0.0.99", "stanza"), 60);
+    assert.equal(guard.check("10.0.0.99", "altra"), 0);
+    mock.timers.tick(60_000);
+    assert.equal(guard.check("10.0.0.99", "stanza"), 0);
+  });
+
+  it("un accesso riuscito toglie la pausa del client ma non restituisce il budget della stanza", () => {
+    const guard = createPasswordGuard({ capacity: 1, refillPerSec: 1 / 60 });
+    guard.fail("a", "stanza");
+    guard.reset("a", "stanza");
+    assert.equal(guard.check("a", "stanza"), 60);
+  });
+});
+
+describe("clientKey", () => {
+  it("conta i proxy fidati da destra: le voci aggiunte dal client non valgono", () => {
+    assert.equal(clientKey("6.6.6.6, 203.0.113.7", "unknown", 1), "203.0.113.7");
+    assert.equal(clientKey("6.6.6.6, 203.0.113.7, 10.0.0.1", "unknown", 2), "203.0.113.7");
+    assert.equal(clientKey("203.0.113.7", "unknown", 2), "unknown");
+  });
+
+  it("senza proxy fidati (o senza header) vale il fallback, cioè il socket", () => {
+    assert.equal(clientKey("6.6.6.6", "198.51.100.1", 0), "198.51.100.1");
+    assert.equal(clientKey(null, "198.51.100.1", 1), "198.51.100.1");
+    assert.equal(clientKey(undefined), "unknown");
+  });
+});
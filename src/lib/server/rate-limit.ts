@@ -0,0 +1,148 @@
+/* ========== Rate limit e anti-spam (lato server) ========== */
+// niente import "@/": lo usa anche il server chat self-hosted (server/chat-server.ts)
+
+/**
+ * Token bucket in memoria, una chiave per client (IP) o per stanza: si consumano fino a `capacity`
+ * richieste di fila, poi se ne recupera `refillPerSec` al secondo. I bucket vivono nel processo:
+ * con più istanze dietro un load balancer ognuna conta per conto suo.
+ */
+export type BucketSpec = { capacity: number; refillPerSec: number };
+
+export const LIMITS = {
+  sendPerClient: { capacity: 20, refillPerSec: 1 },        // raffica di 20, poi uno al secondo
+  sendPerRoom: { capacity: 60, refillPerSec: 5 },          // tutta la stanza insieme
+  createPerClient: { capacity: 3, refillPerSec: 1 / 600 }, // 3 stanze, poi una ogni 10 minuti
+  createGlobal: { capacity: 60, refillPerSec: 1 / 10 },    // tetto per tutte le stanze nuove
+  wrongPasswordPerRoom: { capacity: 30, refillPerSec: 1 / 60 }, // errori per stanza, da qualunque client
+  broadcastPerClient: { capacity: 20, refillPerSec: 2 },   // typing e avvisi (server chat `ws`)
+} satisfies Record<string, BucketSpec>;
+
+/** Busta cifrata di un messaggio o di una reazione (testo + metadati dell'allegato, non il file) */
+export const MAX_CONTENT_BYTES = 32 * 1024;
+export const MAX_AUTHOR_LENGTH = 64;
+/** Anteprima push cifrata che accompagna un messaggio (120 caratteri + AES-GCM + base64) */
+export const MAX_PREVIEW_BYTES = 2 * 1024;
+
+/** `retryAfter` in secondi interi, da mettere anche nell'header `Retry-After` */
+export type LimitResult = { ok: true } | { ok: false; retryAfter: number };
+
+const MAX_KEYS = 10_000; // oltre si buttano i bucket già pieni (client inattivi)
+
+export function createRateLimiter(spec: BucketSpec) {
+  const buckets = new Map<string, { tokens: number; at: number }>();
+
+  function refill(key: string, now: number) {
+    const b = buckets.get(key) ?? { tokens: spec.capacity, at: now };
+    b.tokens = Math.min(spec.capacity, b.tokens + ((now - b.at) / 1000) * spec.refillPerSec);
+    b.at = now;
+    return b;
+  }
+
+  function sweep(now: number) {
+    for (const key of buckets.keys()) {
+      if (refill(key, now).tokens >= spec.capacity) buckets.delete(key);
+    }
+  }
+
+  const wait = (tokens: number, cost: number) => Math.ceil((cost - tokens) / spec.refillPerSec);
+
+  return {
+    take(key: string, cost = 1): LimitResult {
+      const now = Date.now();
+      if (buckets.size > MAX_KEYS) sweep(now);
+      const b = refill(key, now);
+      buckets.set(key, b);
+      if (b.tokens >= cost) {
+        b.tokens -= cost;
+        return { ok: true };
+      }
+      return { ok: false, retryAfter: wait(b.tokens, cost) };
+    },
+    /** come `take`, ma senza consumare: per i budget che si spendono solo sugli errori */
+    peek(key: string, cost = 1): LimitResult {
+      const b = buckets.has(key) ? refill(key, Date.now()) : null;
+      return !b || b.tokens >= cost ? { ok: true } : { ok: false, retryAfter: wait(b.tokens, cost) };
+    },
+  };
+}
+
+/**
+ * Pausa dopo password sbagliate ripetute (chiave client + stanza): le prime `freeAttempts` sono
+ * libere, poi l'attesa raddoppia a ogni errore fino a `maxSeconds`. Un accesso riuscito azzera.
+ */
+export function createCooldown({ freeAttempts = 5, baseSeconds = 30, maxSeconds = 15 * 60 } = {}) {
+  const failures = new Map<string, { count: number; until: number }>();
+
+  return {
+    /** secondi da attendere (0 = si può provare) */
+    check(key: string): number {
+      const f = failures.get(key);
+      if (!f) return 0;
+      const wait = Math.ceil((f.until - Date.now()) / 1000);
+      return wait > 0 ? wait : 0;
+    },
+    fail(key: string) {
+      if (failures.size > MAX_KEYS) {
+        const now = Date.now();
+        for (const [k, f] of failures) if (f.until < now - maxSeconds * 1000) failures.delete(k);
+      }
+      const count = (failures.get(key)?.count ?? 0) + 1;
+      const extra = count - freeAttempts;
+      const seconds = extra > 0 ? Math.min(maxSeconds, baseSeconds * 2 ** (extra - 1)) : 0;
+      failures.set(key, { count, until: Date.now() + seconds * 1000 });
+    },
+    reset(key: string) {
+      failures.delete(key);
+    },
+  };
+}
+
+/**
+ * Password sbagliate per stanza: pausa per client e stanza (`createCooldown`) più un budget della
+ * stanza che si consuma a ogni errore, da chiunque arrivi. L'identità del client è solo un indirizzo
+ * e si può falsificare o cambiare; il budget della stanza no, quindi limita comunque chi prova
+ * password a caso (al prezzo di rallentare anche gli altri membri durante un attacco).
+ */
+export function createPasswordGuard(perRoomSpec: BucketSpec = LIMITS.wrongPasswordPerRoom) {
+  const perClient = createCooldown();
+  const perRoom = createRateLimiter(perRoomSpec);
+  const key = (client: string, room: string) => `${client}|${room}`;
+
+  return {
+    /** secondi da attendere (0 = si può provare) */
+    check(client: string, room: string): number {
+      const roomLimit = perRoom.peek(room);
+      return Math.max(perClient.check(key(client, room)), roomLimit.ok ? 0 : roomLimit.retryAfter);
+    },
+    fail(client: string, room: string) {
+      perClient.fail(key(client, room));
+      perRoom.take(room);
+    },
+    /** accesso riuscito: azzera la pausa del client, non il budget della stanza */
+    reset(client: string, room: string) {
+      perClient.reset(key(client, room));
+    },
+  };
+}
+
+/**
+ * Indirizzo del client da `x-forwarded-for`, contando `trustedHops` proxy fidati da destra: ogni
+ * proxy aggiunge in fondo l'indirizzo da cui riceve, quindi le voci più a sinistra le sceglie il
+ * client e non valgono nulla. Con 0 proxy (o un header troppo corto) vale il fallback, di solito
+ * l'indirizzo del socket.
+ */
+export function clientKey(forwardedFor: string | null | undefined, fallback = "unknown", trustedHops = 0): string {
+  const hops = (forwardedFor ?? "").split(",").map((s) => s.trim()).filter(Boolean);
+  if (trustedHops < 1 || hops.length < trustedHops) return fallback;
+  return hops[hops.length - trustedHops];
+}
+
+/** `TRUSTED_PROXY_HOPS`: proxy fidati davanti al server (Vercel o un reverse proxy = 1) */
+export function trustedProxyHops(fallback: number): number {
+  const n = Number(process.env.TRUSTED_PROXY_HOPS ?? fallback);
+  return Number.isInteger(n) && n >= 0 ? n : fallback;
+}
+
+export function slowDownMessage(retryAfter: number): string {
+  return `Stai andando troppo veloce: riprova tra ${retryAfter} s.`;
+}
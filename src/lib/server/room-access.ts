@@ -0,0 +1,43 @@
+import { supabaseAdmin } from "@/lib/server/supabase-admin";
+import { checkVerifier } from "@/lib/server/verifier";
+import { clientKey, createPasswordGuard, trustedProxyHops } from "@/lib/server/rate-limit";
+import { B64_RE } from "@/lib/server/http";
+
+/* ========== Accesso stanza per le route che agiscono "da membro" ========== */
+
+export type RoomAccess = { ok: true } | { ok: false; status: number; error: string };
+
+/** Password sbagliate per client e per stanza: condivisa da `/api/rooms/join` e da tutte le route col verifier */
+export const wrongPassword = createPasswordGuard();
+
+// su Vercel (o dietro un reverse proxy) c'è un proxy fidato che aggiunge l'indirizzo vero
+const PROXY_HOPS = trustedProxyHops(1);
+
+export function requestClient(req: Request): string {
+  return clientKey(req.headers.get("x-forwarded-for"), "unknown", PROXY_HOPS);
+}
+
+export function cooldownMessage(wait: number): string {
+  return `Troppi tentativi con la password sbagliata: riprova tra ${wait} s.`;
+}
+
+/**
+ * Stesso controllo di `/api/rooms/join` senza creazione né migrazione:
+ * la stanza deve esistere e avere già un verifier (le stanze legacy passano prima dal join).
+ */
+export async function checkRoomAccess(room: string, verifier: unknown, client: string): Promise<RoomAccess> {
+  if (!room || typeof verifier !== "string" || !B64_RE.test(verifier)) {
+    return { ok: false, status: 400, error: "Richiesta non valida." };
+  }
+  const wait = wrongPassword.check(client, room);
+  if (wait) return { ok: false, status: 429, error: cooldownMessage(wait) };
+
+  const { data, error } = await supabaseAdmin.from("rooms").select("verifier").eq("room", room).maybeSingle();
+  if (error) return { ok: false, status: 500, error: `Errore DB (rooms): ${error.message}` };
+  if (!data?.verifier || !(await checkVerifier(verifier, data.verifier))) {
+    wrongPassword.fail(client, room);
+    return { ok: false, status: 401, error: "Password stanza sbagliata" };
+  }
+  wrongPassword.reset(client, room);
+  return { ok: true };
+}
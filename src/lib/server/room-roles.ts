@@ -0,0 +1,107 @@
+import { webcrypto } from "node:crypto";
+import { supabaseAdmin } from "@/lib/server/supabase-admin";
+import { checkRoomAccess, type RoomAccess } from "@/lib/server/room-access";
+import { B64_RE } from "@/lib/server/http";
+import {
+  PROOF_MAX_AGE_MS,
+  adminProofBytes,
+  deviceProofBytes,
+  roleOf,
+  type AdminAction,
+  type AdminProof,
+  type DeviceProof,
+  type RoomRole,
+  type RoomRoles,
+} from "@/lib/roles";
+
+/* ========== Ruoli stanza (lato server) ========== */
+
+const ALG = { name: "ECDSA", namedCurve: "P-256" } as const;
+const SIGN_ALG = { name: "ECDSA", hash: "SHA-256" } as const;
+
+export async function loadRoomRoles(room: string): Promise<RoomRoles> {
+  const [{ data: roomRow, error }, { data: admins, error: admErr }] = await Promise.all([
+    supabaseAdmin.from("rooms").select("owner_pk").eq("room", room).maybeSingle(),
+    supabaseAdmin.from("room_admins").select("pk, name").eq("room", room).order("created_at", { ascending: true }),
+  ]);
+  if (error || admErr) throw new Error(`Errore DB (ruoli): ${(error ?? admErr)!.message}`);
+  return { ownerPk: roomRow?.owner_pk ?? null, admins: admins ?? [] };
+}
+
+async function verifySignature(pk: string, sig: string, data: Uint8Array): Promise<boolean> {
+  try {
+    const key = await webcrypto.subtle.importKey("raw", Buffer.from(pk, "base64"), ALG, false, ["verify"]);
+    return await webcrypto.subtle.verify(SIGN_ALG, key, Buffer.from(sig, "base64"), data);
+  } catch {
+    return false;
+  }
+}
+
+/** Chiave del dispositivo, se la prova è recente e firmata da quella chiave (join e rinnovo del token) */
+export async function checkDeviceProof(
+  room: string,
+  proof: Partial<DeviceProof> | undefined
+): Promise<{ ok: true; pk: string } | { ok: false; status: number; error: string }> {
+  if (typeof proof?.pk !== "string" || !B64_RE.test(proof.pk) || typeof proof.sig !== "string"
+    || typeof proof.ts !== "number") {
+    return { ok: false, status: 400, error: "Richiesta non valida." };
+  }
+  if (Math.abs(Date.now() - proof.ts) > PROOF_MAX_AGE_MS) {
+    return { ok: false, status: 401, error: "Richiesta scaduta, riprova." };
+  }
+  if (!(await verifySignature(proof.pk, proof.sig, deviceProofBytes(room, proof.ts)))) {
+    return { ok: false, status: 401, error: "Firma del dispositivo non valida." };
+  }
+  return { ok: true, pk: proof.pk };
+}
+
+/**
+ * Controlla accesso alla stanza, freschezza e firma della prova, poi il ruolo:
+ * `required: "owner"` ammette solo l'owner, `"admin"` owner e admin.
+ */
+export async function authorizeRoomAction(
+  room: string,
+  proof: Partial<AdminProof> | undefined,
+  action: AdminAction,
+  params: unknown,
+  required: Exclude<RoomRole, "member">,
+  client: string
+): Promise<RoomAccess & { roles?: RoomRoles }> {
+  const access = await checkRoomAccess(room, proof?.verifier, client);
+  if (!access.ok) return access;
+  if (typeof proof?.pk !== "string" || typeof proof.sig !== "string" || typeof proof.ts !== "number") {
+    return { ok: false, status: 400, error: "Richiesta non valida." };
+  }
+  if (Math.abs(Date.now() - proof.ts) > PROOF_MAX_AGE_MS) {
+    return { ok: false, status: 401, error: "Richiesta scaduta, riprova." };
+  }
+  if (!(await verifySignature(proof.pk, proof.sig, adminProofBytes(room, action, proof.ts, params)))) {
+    return { ok: false, status: 401, error: "Firma non valida." };
+  }
+
+  const roles = await loadRoomRoles(room);
+  const role = roleOf(roles, proof.pk);
+  if (role === "member" || (required === "owner" && role !== "owner")) {
+    return {
+      ok: false,
+      status: 403,
+      error: required === "owner" ? "Solo l'owner della stanza può farlo." : "Serve il ruolo di owner o admin.",
+    };
+  }
+  return { ok: true, roles };
+}
+
+/** Stanze create prima dei ruoli: il primo membro che entra (con la prova della chiave) ne diventa owner */
+export async function claimOwnership(room: string, pk: string): Promise<void> {
+  const { error } = await supabaseAdmin.from("rooms").update({ owner_pk: pk }).eq("room", room).is("owner_pk", null);
+  if (error) throw new Error(`Errore DB (rooms): ${error.message}`);
+}
+
+/** Chiave espulsa dall'owner: niente token, niente invii, e `jwt_room()` la esclude dalle policy */
+export async function isKicked(room: string, pk: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin.from("room_kicks").select("pk").eq("room", room).eq("pk", pk).maybeSingle();
+  if (error) throw new Error(`Errore DB (room_kicks): ${error.message}`);
+  return !!data;
+}
+
+export const KICKED_MESSAGE = "L'owner ha rimosso il tuo accesso a questa stanza.";
@@ -0,0 +1,47 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { RoomToken } from "@/lib/api";
+
+/* ========== JWT di stanza per le policy RLS di Supabase e per il server chat ========== */
+
+/**
+ * Dopo il controllo del verifier il server firma (HS256, segreto JWT del progetto) un token con
+ * ruolo `anon` e claim `room`: le policy di `supabase/migrations` ammettono letture e scritture
+ * solo su quella stanza. Il claim `pk` (chiave del dispositivo) lega le righe al loro autore e
+ * chiude fuori chi è stato espulso. `server/chat-server.ts` verifica gli stessi token con lo
+ * stesso segreto. Senza `SUPABASE_JWT_SECRET` non si emette nulla.
+ */
+const SECRET = process.env.SUPABASE_JWT_SECRET;
+export const TOKEN_TTL_SECONDS = 60 * 60;
+
+const b64url = (data: string | Buffer) => Buffer.from(data).toString("base64url");
+
+export type RoomClaims = { room: string; pk: string };
+
+/** `pk` solo dopo `checkDeviceProof`: il claim vale come prova di possesso della chiave */
+export function signRoomToken(room: string, pk: string): RoomToken | null {
+  if (!SECRET) return null;
+  const iat = Math.floor(Date.now() / 1000);
+  const exp = iat + TOKEN_TTL_SECONDS;
+  const header = b64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const payload = b64url(JSON.stringify({ role: "anon", room, pk, iat, exp, iss: "chat-anonima" }));
+  const signature = createHmac("sha256", SECRET).update(`${header}.${payload}`).digest("base64url");
+  return { token: `${header}.${payload}.${signature}`, expiresAt: new Date(exp * 1000).toISOString() };
+}
+
+/** Stanza e chiave del token se firma e scadenza sono valide (le route che scrivono al posto del client) */
+export function verifyRoomToken(token: string | null | undefined): RoomClaims | null {
+  if (!SECRET || !token) return null;
+  const [header, payload, signature] = token.split(".");
+  if (!header || !payload || !signature) return null;
+  const expected = createHmac("sha256", SECRET).update(`${header}.${payload}`).digest();
+  const given = Buffer.from(signature, "base64url");
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString()) as { room?: unknown; pk?: unknown; exp?: unknown };
+    if (typeof claims.room !== "string" || typeof claims.pk !== "string" || typeof claims.exp !== "number"
+      || claims.exp * 1000 <= Date.now()) return null;
+    return { room: claims.room, pk: claims.pk };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,9 @@
+import { createClient } from "@supabase/supabase-js";
+import type { Database } from "@/lib/database.types";
+
+/** Client con service role: SOLO lato server (route handler), mai importato da componenti client */
+export const supabaseAdmin = createClient<Database>(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  { auth: { persistSession: false } }
+);
@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { deriveAccessVerifier, deriveRoomKeyring, generateRoomSalt, legacyPasswordHash } from "../e2ee";
+import { checkLegacyHash, checkVerifier, hashVerifier } from "./verifier";
+
+/* ========== Verifier di accesso: scrypt e migrazione delle stanze legacy ========== */
+
+describe("verifier", () => {
+  it("il verifier salvato con scrypt accetta solo lo stesso verifier", async () => {
+    const right = await deriveAccessVerifier(await deriveRoomKeyring("password", generateRoomSalt()));
+    const stored = await hashVerifier(right);
+    assert.match(stored, /^scrypt\$32768\$8\$1\$[A-Za-z0-9+/=]+\$[A-Za-z0-9+/=]+$/);
+    assert.equal(await checkVerifier(right, stored), true);
+    const wrong = await deriveAccessVerifier(await deriveRoomKeyring("sbagliata", generateRoomSalt()));
+    assert.equal(await checkVerifier(wrong, stored), false);
+  });
+
+  it("due hash dello stesso verifier hanno salt diversi", async () => {
+    const verifier = Buffer.alloc(32, 7).toString("base64");
+    assert.notEqual(await hashVerifier(verifier), await hashVerifier(verifier));
+  });
+
+  it("un valore salvato che non è scrypt non apre la stanza", async () => {
+    const verifier = Buffer.alloc(32, 7).toString("base64");
+    assert.equal(await checkVerifier(verifier, "sha256$abc"), false);
+    assert.equal(await checkVerifier(verifier, ""), false);
+  });
+
+  it("migrazione: l'hash legacy del client combacia con `pass_hash`, poi vale solo il verifier nuovo", async () => {
+    const passHash = await legacyPasswordHash("password"); // come lo salvavano i client legacy
+    assert.equal(checkLegacyHash(await legacyPasswordHash("password"), passHash), true);
+    assert.equal(checkLegacyHash(await legacyPasswordHash("sbagliata"), passHash), false);
+    assert.equal(checkLegacyHash("", ""), false);
+
+    // il join migra la stanza: salt nuovo, verifier con scrypt e `pass_hash` azzerato
+    const keyring = await deriveRoomKeyring("password", generateRoomSalt());
+    const stored = await hashVerifier(await deriveAccessVerifier(keyring));
+    assert.equal(await checkVerifier(await deriveAccessVerifier(keyring), stored), true);
+  });
+});
@@ -0,0 +1,46 @@
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from "node:crypto";
+
+/* ========== Verifier di accesso stanza (lato server) ========== */
+
+/**
+ * Il client invia un verifier derivato via HKDF dalla chiave radice della stanza
+ * (sottochiave separata da quelle dei messaggi). Qui lo salviamo con salt e scrypt,
+ * così chi legge `rooms` non ha un hash veloce da attaccare offline.
+ *
+ * Formato: `scrypt$N$r$p$salt_b64$hash_b64`
+ */
+const PARAMS = { N: 1 << 15, r: 8, p: 1 };
+const KEY_LEN = 32;
+
+function scryptAsync(secret: Buffer, salt: Buffer, opts: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(secret, salt, KEY_LEN, { ...opts, maxmem: 128 * opts.N! * opts.r! * 2 }, (err, key) =>
+      err ? reject(err) : resolve(key)
+    );
+  });
+}
+
+export async function hashVerifier(verifier: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(Buffer.from(verifier, "base64"), salt, PARAMS);
+  return ["scrypt", PARAMS.N, PARAMS.r, PARAMS.p, salt.toString("base64"), hash.toString("base64")].join("$");
+}
+
+export async function checkVerifier(verifier: string, stored: string): Promise<boolean> {
+  const [scheme, N, r, p, saltB64, hashB64] = stored.split("$");
+  if (scheme !== "scrypt" || !saltB64 || !hashB64) return false;
+  const expected = Buffer.from(hashB64, "base64");
+  const actual = await scryptAsync(Buffer.from(verifier, "base64"), Buffer.from(saltB64, "base64"), {
+    N: Number(N),
+    r: Number(r),
+    p: Number(p),
+  });
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/** Confronto dell'hash SHA-256 legacy (`rooms.pass_hash`), solo per la migrazione */
+export function checkLegacyHash(legacyHash: string, stored: string): boolean {
+  const a = Buffer.from(legacyHash, "hex");
+  const b = Buffer.from(stored, "hex");
+  return a.length === b.length && a.length > 0 && timingSafeEqual(a, b);
+}
@@ -1,6 +1,47 @@
 import { createClient } from "@supabase/supabase-js";
+import type { Database } from "@/lib/database.types";
+import type { RoomToken } from "@/lib/api";
 
-export const supabase = createClient(
+/**
+ * Token della stanza aperta (da `/api/rooms/join`): le policy RLS ammettono solo quella stanza.
+ * Senza token le richieste partono con la chiave anon, che da sola non legge né scrive nulla.
+ */
+type RoomSession = {
+  access: RoomToken;
+  refresh: () => Promise<RoomToken | null>;
+  refreshing?: Promise<void>;
+};
+
+const REFRESH_MARGIN_MS = 5 * 60 * 1000; // si rinnova quando mancano 5 minuti alla scadenza
+
+let session: RoomSession | null = null;
+
+export async function roomAccessToken(): Promise<string | null> {
+  const current = session;
+  if (!current) return null;
+  if (new Date(current.access.expiresAt).getTime() - Date.now() < REFRESH_MARGIN_MS) {
+    current.refreshing ??= current
+      .refresh()
+      .then((next) => {
+        if (next) current.access = next;
+      })
+      .catch(() => {}) // rete o verifier non più valido: si tiene il vecchio finché scade
+      .finally(() => {
+        current.refreshing = undefined;
+      });
+    await current.refreshing;
+  }
+  return current.access.token;
+}
+
+export const supabase = createClient<Database>(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+  { accessToken: roomAccessToken }
 );
+
+/** Da chiamare al join (`access` null = server senza JWT di stanza) e con `null` all'uscita */
+export function setRoomAccess(access: RoomToken | null, refresh?: () => Promise<RoomToken | null>) {
+  session = access && refresh ? { access, refresh } : null;
+  void supabase.realtime.setAuth(); // i canali già aperti passano al nuovo token
+}
@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import type { Message } from "./messages";
+
+/* ========== Esportazione: Markdown con escape e JSON senza chiavi degli allegati ========== */
+
+// transcript → attachments → client Supabase, che senza URL non si crea
+process.env.NEXT_PUBLIC_SUPABASE_URL ??= "http://localhost:54321";
+process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ??= "test";
+
+let lib: typeof import("./transcript");
+
+const message = (over: Partial<Message>): Message => ({
+  id: "m1",
+  room: "r",
+  author: "ann",
+  content: "",
+  created_at: "2026-10-19T10:00:00.000Z",
+  integrity: "ok",
+  trust: "trusted",
+  ...over,
+});
+
+describe("transcript", () => {
+  before(async () => {
+    lib = await import("./transcript");
+  });
+
+  it("il testo dei partecipanti non diventa link, immagini, HTML o titoli", () => {
+    const md = lib.transcriptToMarkdown(lib.buildTranscript("r", { id: "x", name: "ann" }, [
+      message({ author: "**boss**", content: "[clic](https://evil.example) ![x](y) <img src=x>\n# titolo\n1. uno\n===" }),
+    ], []));
+    assert.ok(md.includes("**\\*\\*boss\\*\\***"));
+    assert.ok(md.includes("\\[clic\\]\\(https://evil.example\\) \\!\\[x\\]\\(y\\) \\<img src=x\\>"));
+    assert.ok(md.includes("\n\\# titolo\n1\\. uno\n\\==="));
+    assert.ok(md.includes("- Partecipanti: \\*\\*boss\\*\\*"));
+  });
+
+  it("il JSON omette chiave e iv degli allegati se non richiesti", () => {
+    const attachment = { path: "r/f", name: "a.png", type: "image/png", size: 3, key: "SECRET", iv: "IV" };
+    const t = lib.buildTranscript("r", { id: "x", name: "ann" }, [message({ attachment })], []);
+    const plain = JSON.parse(lib.transcriptToJson(t)) as { messages: Message[] };
+    assert.deepEqual(plain.messages[0].attachment, { path: "r/f", name: "a.png", type: "image/png", size: 3 });
+    assert.ok(lib.transcriptToJson(t, true).includes("SECRET"));
+  });
+});
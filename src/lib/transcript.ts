@@ -0,0 +1,243 @@
+/* ========== Esportazione / importazione della cronologia ========== */
+import { fromB64, toB64 } from "@/lib/encoding";
+import { formatBytes } from "@/lib/attachments";
+import { snippet, type Message, type Reaction } from "@/lib/messages";
+
+/**
+ * Trascrizione della stanza com'è sul dispositivo (solo messaggi già decifrati e inviati).
+ * Le tre esportazioni partono da qui: Markdown leggibile, JSON dei `Message` e backup cifrato.
+ */
+export type Transcript = {
+  format: typeof TRANSCRIPT_FORMAT;
+  v: 1;
+  room: string;
+  exportedAt: string;
+  exportedBy: string;
+  exportedById?: string; // id del partecipante che ha esportato (assente nei backup più vecchi)
+  participants: string[];
+  range: { from: string; to: string } | null; // null = nessun messaggio
+  messages: Message[];
+  reactions: Reaction[];
+};
+
+/**
+ * Backup cifrato con una passphrase scelta all'esportazione (indipendente dalla password
+ * della stanza): PBKDF2 → AES-GCM sull'intera `Transcript`. Si riapre solo in locale.
+ */
+export type ArchiveBundle = {
+  format: typeof ARCHIVE_FORMAT;
+  v: 1;
+  kdf: { name: "PBKDF2"; hash: "SHA-256"; iterations: number; salt: string };
+  iv: string; // base64
+  ct: string; // base64
+};
+
+export type ExportFormat = "markdown" | "json" | "archive";
+
+const TRANSCRIPT_FORMAT = "chat-anonima/transcript";
+const ARCHIVE_FORMAT = "chat-anonima/archive";
+const ARCHIVE_ITERATIONS = 310_000;
+export const MIN_PASSPHRASE = 8;
+
+const textEncoder = new TextEncoder();
+
+const sentAt = (m: Message) => m.sent_at ?? m.created_at;
+
+export function buildTranscript(
+  room: string,
+  me: { id: string; name: string },
+  messages: Message[],
+  reactions: Reaction[]
+): Transcript {
+  // i messaggi ancora nell'outbox non sono (ancora) parte della stanza
+  const sent = messages.filter((m) => !m.delivery);
+  const ids = new Set(sent.map((m) => m.id));
+  return {
+    format: TRANSCRIPT_FORMAT,
+    v: 1,
+    room,
+    exportedAt: new Date().toISOString(),
+    exportedBy: me.name,
+    exportedById: me.id,
+    participants: Array.from(new Set(sent.map((m) => m.author))).sort((a, b) => a.localeCompare(b)),
+    range: sent.length ? { from: sentAt(sent[0]), to: sentAt(sent[sent.length - 1]) } : null,
+    messages: sent,
+    reactions: reactions.filter((r) => ids.has(r.to)),
+  };
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+export function describeRange(range: Transcript["range"]): string {
+  return range ? `${formatDate(range.from)} – ${formatDate(range.to)}` : "nessun messaggio";
+}
+
+/* ---------- Markdown ---------- */
+/**
+ * Testo scritto dai partecipanti → Markdown letterale: niente link, immagini, HTML o titoli
+ * inventati da chi scrive. Si esegue l'escape della punteggiatura che CommonMark interpreta e dei
+ * marcatori di inizio riga (elenchi numerati, titoli con "="); gli a capo restano.
+ */
+export function escapeMarkdown(text: string): string {
+  return text
+    .replace(/[\\`*_{}[\]()<>#+\-!|~&]/g, "\\$&")
+    .replace(/^(\s*\d+)([.)])/gm, "$1\\$2")
+    .replace(/^(\s*)=/gm, "$1\\=");
+}
+
+export function transcriptToMarkdown(t: Transcript): string {
+  const byId = new Map(t.messages.map((m) => [m.id, m]));
+  const reactionsOf = new Map<string, Map<string, string[]>>();
+  for (const r of t.reactions) {
+    const groups = reactionsOf.get(r.to) ?? new Map<string, string[]>();
+    groups.set(r.emoji, [...(groups.get(r.emoji) ?? []), escapeMarkdown(r.author)]);
+    reactionsOf.set(r.to, groups);
+  }
+
+  const lines = [
+    `# Stanza ${escapeMarkdown(t.room)}`,
+    "",
+    `- Esportata il ${formatDate(t.exportedAt)} da ${escapeMarkdown(t.exportedBy)}`,
+    `- Partecipanti: ${t.participants.map(escapeMarkdown).join(", ") || "—"}`,
+    `- Periodo: ${describeRange(t.range)}`,
+    `- Messaggi: ${t.messages.length}`,
+    "",
+    "---",
+  ];
+
+  for (const m of t.messages) {
+    lines.push("", `**${escapeMarkdown(m.author)}** · ${formatDate(sentAt(m))}`, "");
+    if (m.integrity === "tampered") {
+      lines.push("_⚠️ messaggio manomesso_");
+      continue;
+    }
+    if (m.deleted) {
+      lines.push("_🚫 messaggio eliminato_");
+      continue;
+    }
+    if (m.replyTo) {
+      const quoted = byId.get(m.replyTo);
+      const quote = quoted ? `${escapeMarkdown(quoted.author)}: ${escapeMarkdown(snippet(quoted, 60))}` : "messaggio non incluso";
+      lines.push(`> ↩︎ ${quote}`, "");
+    }
+    if (m.content) lines.push(escapeMarkdown(m.content));
+    if (m.attachment) lines.push(`📎 ${escapeMarkdown(m.attachment.name)} (${formatBytes(m.attachment.size)})`);
+    const notes = [
+      m.edited ? `_modificato il ${formatDate(m.edited)}_` : "",
+      ...Array.from(reactionsOf.get(m.id) ?? [], ([emoji, authors]) => `${emoji} ${authors.join(", ")}`),
+    ].filter(Boolean);
+    if (notes.length) lines.push("", notes.join(" · "));
+  }
+  return lines.join("\n") + "\n";
+}
+
+/* ---------- JSON ---------- */
+/**
+ * Il JSON esce in chiaro: chiave e iv degli allegati (che aprono i file sul backend) si includono
+ * solo se chi esporta lo chiede. Il backup cifrato li tiene sempre.
+ */
+export function transcriptToJson(t: Transcript, includeKeys = false): string {
+  if (includeKeys) return JSON.stringify(t, null, 2);
+  const withoutKeys = (m: Message) => {
+    if (!m.attachment) return m;
+    const { path, name, type, size } = m.attachment;
+    return { ...m, attachment: { path, name, type, size } };
+  };
+  return JSON.stringify({ ...t, messages: t.messages.map(withoutKeys) }, null, 2);
+}
+
+/* ---------- backup cifrato ---------- */
+async function deriveArchiveKey(passphrase: string, salt: BufferSource, iterations: number): Promise<CryptoKey> {
+  const keyMaterial = await crypto.subtle.importKey("raw", textEncoder.encode(passphrase), { name: "PBKDF2" }, false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    keyMaterial,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+export async function sealTranscript(t: Transcript, passphrase: string): Promise<ArchiveBundle> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveArchiveKey(passphrase, salt, ARCHIVE_ITERATIONS);
+  const ct = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: textEncoder.encode(ARCHIVE_FORMAT) },
+    key,
+    textEncoder.encode(JSON.stringify(t))
+  );
+  return {
+    format: ARCHIVE_FORMAT,
+    v: 1,
+    kdf: { name: "PBKDF2", hash: "SHA-256", iterations: ARCHIVE_ITERATIONS, salt: toB64(salt) },
+    iv: toB64(iv),
+    ct: toB64(ct),
+  };
+}
+
+/** Riapre un backup esportato con `sealTranscript`; tutto avviene nel browser, nessuna richiesta al server */
+export async function openArchive(text: string, passphrase: string): Promise<Transcript> {
+  let bundle: ArchiveBundle;
+  try {
+    bundle = JSON.parse(text) as ArchiveBundle;
+  } catch {
+    throw new Error("Il file non è un backup di Chat Anonima.");
+  }
+  if (
+    bundle?.format !== ARCHIVE_FORMAT || bundle.v !== 1 || bundle.kdf?.name !== "PBKDF2" ||
+    !(bundle.kdf.iterations >= 100_000 && bundle.kdf.iterations <= 5_000_000) // niente file che bloccano il browser
+  ) {
+    throw new Error("Il file non è un backup di Chat Anonima.");
+  }
+
+  let plain: ArrayBuffer;
+  try {
+    const key = await deriveArchiveKey(passphrase, fromB64(bundle.kdf.salt), bundle.kdf.iterations);
+    plain = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromB64(bundle.iv), additionalData: textEncoder.encode(ARCHIVE_FORMAT) },
+      key,
+      fromB64(bundle.ct)
+    );
+  } catch {
+    throw new Error("Passphrase errata o backup danneggiato.");
+  }
+
+  const t = JSON.parse(new TextDecoder().decode(plain)) as Transcript;
+  if (t.format !== TRANSCRIPT_FORMAT || !Array.isArray(t.messages)) {
+    throw new Error("Contenuto del backup non riconosciuto.");
+  }
+  return { ...t, reactions: Array.isArray(t.reactions) ? t.reactions : [] };
+}
+
+/* ---------- file ---------- */
+const EXTENSIONS: Record<ExportFormat, { suffix: string; type: string }> = {
+  markdown: { suffix: ".md", type: "text/markdown" },
+  json: { suffix: ".json", type: "application/json" },
+  archive: { suffix: ".backup.json", type: "application/json" },
+};
+
+export async function exportTranscript(
+  t: Transcript,
+  format: ExportFormat,
+  { passphrase = "", includeKeys = false }: { passphrase?: string; includeKeys?: boolean } = {}
+): Promise<void> {
+  const body =
+    format === "markdown"
+      ? transcriptToMarkdown(t)
+      : format === "json"
+      ? transcriptToJson(t, includeKeys)
+      : JSON.stringify(await sealTranscript(t, passphrase));
+  const { suffix, type } = EXTENSIONS[format];
+  const day = t.exportedAt.slice(0, 10);
+  downloadText(`chat-${t.room}-${day}${suffix}`, body, type);
+}
+
+function downloadText(filename: string, body: string, type: string) {
+  const url = URL.createObjectURL(new Blob([body], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,19 @@
+/* ========== Scelta del trasporto chat (NEXT_PUBLIC_CHAT_BACKEND) ========== */
+import { roomAccessToken } from "@/lib/supabase";
+import { supabaseTransport } from "@/lib/transport/supabase";
+import { createWsTransport } from "@/lib/transport/ws";
+import type { ChatTransport } from "@/lib/transport/types";
+
+export * from "@/lib/transport/types";
+
+export type ChatBackend = "supabase" | "ws";
+
+export const CHAT_BACKEND: ChatBackend = process.env.NEXT_PUBLIC_CHAT_BACKEND === "ws" ? "ws" : "supabase";
+
+export const DEFAULT_CHAT_SERVER_URL = "ws://localhost:8787";
+
+/** "supabase" (default): Postgres + Realtime. "ws": server/chat-server.ts con SQLite */
+export const transport: ChatTransport =
+  CHAT_BACKEND === "ws"
+    ? createWsTransport(process.env.NEXT_PUBLIC_CHAT_SERVER_URL || DEFAULT_CHAT_SERVER_URL, () => roomAccessToken())
+    : supabaseTransport;
@@ -0,0 +1,41 @@
+/* ========== Protocollo JSON tra il trasporto "ws" e server/chat-server.ts ========== */
+// import relativi: il file è condiviso con il server Node, che gira fuori da Next
+import type { MessageRow } from "../messages";
+import type { ChatTable, HistoryQuery, NewRow, PresenceState } from "./types";
+
+/**
+ * Richieste con `req`: il server risponde con un `reply` dallo stesso `req`. `token` è il JWT
+ * di stanza di `/api/rooms/join`; il suo claim `room` deve coincidere con la stanza della richiesta.
+ */
+export type ClientRequest =
+  | { op: "history"; req: number; token: string; table: ChatTable; room: string; query: HistoryQuery }
+  | { op: "count"; req: number; token: string; table: ChatTable; room: string }
+  | { op: "insert"; req: number; token: string; table: ChatTable; row: NewRow }
+  | { op: "update"; req: number; token: string; table: ChatTable; room: string; id: string; author: string; content: string }
+  | { op: "delete"; req: number; token: string; table: ChatTable; room: string; id: string };
+
+/** Iscrizioni e join: servono il token di stanza, come le richieste */
+export type RoomNotice =
+  | { op: "subscribe"; room: string; token: string }
+  | { op: "join"; room: string; key: string; token: string };
+
+/** Messaggi senza risposta: iscrizioni, presence e broadcast */
+export type ClientNotice =
+  | RoomNotice
+  | { op: "unsubscribe"; room: string }
+  | { op: "track"; room: string; meta: Record<string, unknown> }
+  | { op: "leave"; room: string }
+  | { op: "broadcast"; room: string; event: string; payload: unknown };
+
+export type ClientFrame = ClientRequest | ClientNotice;
+
+export type ServerFrame =
+  | { op: "reply"; req: number; ok: true; data?: unknown }
+  | { op: "reply"; req: number; ok: false; error: string; code?: string; retryAfter?: number }
+  | { op: "change"; room: string; table: ChatTable; type: "INSERT" | "UPDATE"; row: MessageRow }
+  | { op: "change"; room: string; table: ChatTable; type: "DELETE"; id: string }
+  | { op: "presence"; room: string; state: PresenceState }
+  | { op: "broadcast"; room: string; event: string; payload: unknown }
+  | { op: "kicked"; room: string }; // subito prima che il server chiuda la connessione
+
+export const CHAT_TABLES: readonly ChatTable[] = ["messages", "reactions"];
@@ -0,0 +1,107 @@
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { roomAccessToken, supabase } from "@/lib/supabase";
+import { ApiError, postChatRow } from "@/lib/api";
+import type { MessageRow } from "@/lib/messages";
+import { TransportError, type ChatTable, type ChatTransport, type RowCursor } from "@/lib/transport/types";
+
+/* ========== Trasporto Supabase: tabelle Postgres + Realtime ========== */
+
+const COLUMNS = "id, room, author, content, created_at";
+const TABLES: ChatTable[] = ["messages", "reactions"];
+
+/** `created_at op X or (created_at = X and id op Y)` come albero logico di PostgREST */
+function keyset(op: "lt" | "gt", { created_at, id }: RowCursor) {
+  return `or(created_at.${op}."${created_at}",and(created_at.eq."${created_at}",id.${op}.${id}))`;
+}
+
+function fail(op: string, error: { message: string; code?: string }): never {
+  throw new TransportError(`Errore Supabase ${op}: ${error.message}`, error.code === "23505" ? "duplicate" : error.code);
+}
+
+export const supabaseTransport: ChatTransport = {
+  async history(table, room, { limit, order = "asc", offset = 0, before, after }) {
+    let q = supabase.from(table).select(COLUMNS).eq("room", room);
+    const bounds = [before && keyset("lt", before), after && keyset("gt", after)].filter(Boolean);
+    if (bounds.length) q = q.or(`and(${bounds.join(",")})`);
+    const { data, error } = await q
+      .order("created_at", { ascending: order === "asc" })
+      .order("id", { ascending: order === "asc" })
+      .range(offset, offset + limit - 1);
+    if (error) fail("SELECT", error);
+    return data ?? [];
+  },
+
+  async count(table, room) {
+    const { count, error } = await supabase.from(table).select("id", { count: "exact", head: true }).eq("room", room);
+    if (error) fail("SELECT", error);
+    return count ?? 0;
+  },
+
+  // gli INSERT passano da /api/messages (limiti di frequenza e dimensione): la chiave anon non può farli
+  async insert(table, row) {
+    try {
+      await postChatRow({ table, row }, await roomAccessToken());
+    } catch (err) {
+      if (!(err instanceof ApiError)) throw new TransportError(err instanceof Error ? err.message : String(err));
+      const { code, retryAfter } = err.body as { code?: string; retryAfter?: number };
+      throw new TransportError(err.message, code, retryAfter);
+    }
+  },
+
+  async update(table, { room, id, author }, content) {
+    const { data, error } = await supabase
+      .from(table)
+      .update({ content })
+      .eq("room", room)
+      .eq("id", id)
+      .eq("author", author)
+      // le policy filtrano in silenzio: zero righe = riga altrui o scritta prima della colonna `pk`
+      .select("id");
+    if (error) fail("UPDATE", error);
+    if (!data?.length) throw new TransportError("Questo messaggio non si può più modificare da qui.");
+  },
+
+  async remove(table, { id }) {
+    const { error } = await supabase.from(table).delete().eq("id", id);
+    if (error) fail("DELETE", error);
+  },
+
+  subscribe(room, { onInsert, onUpdate, onDelete }) {
+    const ch = supabase.channel(`room:${room}`);
+    for (const table of TABLES) {
+      ch.on(
+        "postgres_changes",
+        { event: "*", schema: "public", table, filter: `room=eq.${room}` },
+        (payload: RealtimePostgresChangesPayload<MessageRow>) => {
+          if (payload.eventType === "INSERT") onInsert?.(table, payload.new);
+          else if (payload.eventType === "UPDATE") onUpdate?.(table, payload.new);
+        }
+      ).on(
+        // i DELETE di Realtime non sono filtrabili per colonna: basta l'id (uuid) per toccare solo quella riga
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table },
+        (payload: RealtimePostgresChangesPayload<MessageRow>) => {
+          const id = payload.eventType === "DELETE" ? payload.old.id : undefined;
+          if (id) onDelete?.(table, id);
+        }
+      );
+    }
+    ch.subscribe();
+    return { unsubscribe: () => void ch.unsubscribe() };
+  },
+
+  openRoomChannel(room, presenceKey, { onPresence, onBroadcast, onSubscribed }) {
+    // canale privato: le policy su `realtime.messages` lo aprono solo col token della stanza
+    const ch = supabase.channel(`presence:${room}`, { config: { private: true, presence: { key: presenceKey } } });
+    ch.on("presence", { event: "sync" }, () => onPresence?.(ch.presenceState()))
+      .on("broadcast", { event: "*" }, ({ event, payload }) => onBroadcast?.(event, payload))
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED") onSubscribed?.();
+      });
+    return {
+      track: (meta) => void ch.track(meta),
+      broadcast: (event, payload) => void ch.send({ type: "broadcast", event, payload }),
+      unsubscribe: () => void ch.unsubscribe(),
+    };
+  },
+};
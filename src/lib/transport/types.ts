@@ -0,0 +1,71 @@
+/* ========== ChatTransport: storage + realtime dietro un'unica interfaccia ========== */
+import type { MessageRow } from "@/lib/messages";
+
+/** Tabelle con righe cifrate (stesse colonne): messaggi e reazioni */
+export type ChatTable = "messages" | "reactions";
+
+/** `preview`: anteprima push cifrata (solo messaggi), inoltrata alle notifiche e mai salvata */
+export type NewRow = Omit<MessageRow, "created_at"> & { preview?: string };
+
+/** Posizione di una riga nell'ordine (created_at, id): più righe possono avere lo stesso istante */
+export type RowCursor = Pick<MessageRow, "created_at" | "id">;
+
+export type HistoryQuery = {
+  limit: number;
+  order?: "asc" | "desc"; // per created_at, poi id; default "asc"
+  offset?: number;
+  before?: RowCursor;     // solo righe che vengono prima nello stesso ordine
+  after?: RowCursor;      // solo righe che vengono dopo
+};
+
+/** Stato presence: per chiave (nome) le sessioni aperte con i loro metadati */
+export type PresenceState = Record<string, Record<string, unknown>[]>;
+
+export type ChangeHandlers = {
+  onInsert?: (table: ChatTable, row: MessageRow) => void;
+  onUpdate?: (table: ChatTable, row: MessageRow) => void;
+  onDelete?: (table: ChatTable, id: string) => void;
+};
+
+export type RoomChannelHandlers = {
+  onPresence?: (state: PresenceState) => void;
+  onBroadcast?: (event: string, payload: unknown) => void;
+  onSubscribed?: () => void;
+  onKicked?: () => void; // il server ha chiuso fuori questa chiave (solo trasporto ws)
+};
+
+export type Subscription = { unsubscribe(): void };
+
+/** Canale effimero della stanza: presence e broadcast (typing, avvisi), niente persistenza */
+export type RoomChannel = Subscription & {
+  track(meta: Record<string, unknown>): void;
+  broadcast(event: string, payload: unknown): void;
+};
+
+/**
+ * `code`: "duplicate" = id già presente (come il 23505 di Postgres); "rate_limited" = troppi invii,
+ * riprovare dopo `retryAfter` secondi; "too_large" = busta oltre il limite del server; "kicked" = chiave
+ * espulsa dall'owner.
+ */
+export class TransportError extends Error {
+  constructor(
+    message: string,
+    public code?: "duplicate" | "rate_limited" | "too_large" | "kicked" | string,
+    public retryAfter?: number
+  ) {
+    super(message);
+    this.name = "TransportError";
+  }
+}
+
+export interface ChatTransport {
+  history(table: ChatTable, room: string, query: HistoryQuery): Promise<MessageRow[]>;
+  count(table: ChatTable, room: string): Promise<number>;
+  insert(table: ChatTable, row: NewRow): Promise<void>;
+  /** Sostituisce il ciphertext di una riga propria: stesso `author` e stessa chiave del token di stanza */
+  update(table: ChatTable, match: { room: string; id: string; author: string }, content: string): Promise<void>;
+  /** Toglie una riga propria (oggi solo le reazioni) */
+  remove(table: ChatTable, match: { room: string; id: string }): Promise<void>;
+  subscribe(room: string, handlers: ChangeHandlers): Subscription;
+  openRoomChannel(room: string, presenceKey: string, handlers: RoomChannelHandlers): RoomChannel;
+}
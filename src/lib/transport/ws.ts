@@ -0,0 +1,237 @@
+import type { MessageRow } from "@/lib/messages";
+import type { ClientFrame, ClientRequest, RoomNotice, ServerFrame } from "@/lib/transport/protocol";
+import {
+  TransportError,
+  type ChangeHandlers,
+  type ChatTransport,
+  type RoomChannelHandlers,
+} from "@/lib/transport/types";
+
+/* ========== Trasporto WebSocket: server self-hosted (server/chat-server.ts) ========== */
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+type Pending = { resolve: (data: unknown) => void; reject: (err: Error) => void };
+
+/** Token di stanza firmato da `/api/rooms/join` (lo stesso che Supabase legge nelle policy RLS) */
+export type RoomTokenSource = (room: string) => Promise<string | null>;
+
+const RECONNECT_MIN_MS = 500;
+const RECONNECT_MAX_MS = 15_000;
+
+/**
+ * Una sola connessione per scheda, riaperta con backoff. Alla riconnessione si
+ * rimandano iscrizioni, join e track: il server non ricorda nulla dei client caduti.
+ * Le richieste in volo quando cade la connessione falliscono (l'outbox ritenta).
+ * Richieste, iscrizioni e join portano il token della stanza: il server non accetta nulla senza.
+ */
+class WsConnection {
+  private ws: WebSocket | null = null;
+  private nextReq = 1;
+  private pending = new Map<number, Pending>();
+  private queue: string[] = [];
+  private retry = RECONNECT_MIN_MS;
+  private timer: number | null = null;
+
+  readonly changes = new Map<string, Set<ChangeHandlers>>();
+  readonly channels = new Map<string, { key: string; meta?: Record<string, unknown>; handlers: RoomChannelHandlers }>();
+
+  constructor(private url: string, private token: RoomTokenSource) {}
+
+  async request(frame: DistributiveOmit<ClientRequest, "req" | "token">): Promise<unknown> {
+    // senza token il server risponde con l'errore: un solo percorso per "sessione scaduta"
+    const token = (await this.token(frame.op === "insert" ? frame.row.room : frame.room)) ?? "";
+    const req = this.nextReq++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(req, { resolve, reject });
+      const data = JSON.stringify({ ...frame, token, req });
+      if (this.open) this.ws!.send(data);
+      else {
+        this.queue.push(data);
+        this.connect();
+      }
+    });
+  }
+
+  get open(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Iscrizioni, presence e broadcast non si accodano: a connessione chiusa le prime
+   * vengono rimandate da `onopen`, i broadcast (typing, avvisi) sono effimeri e si perdono
+   */
+  notify(frame: ClientFrame) {
+    if (this.open) this.ws!.send(JSON.stringify(frame));
+    else this.connect();
+  }
+
+  /**
+   * `subscribe` e `join` col token della stanza. `true` se è partito ora; `false` se la connessione
+   * era chiusa (lo rimanda `onopen`) o se nel frattempo `current()` dice che non serve più.
+   */
+  async notifyRoom(frame: DistributiveOmit<RoomNotice, "token">, current: () => boolean): Promise<boolean> {
+    const token = (await this.token(frame.room)) ?? "";
+    if (!current()) return false;
+    if (this.open) {
+      this.ws!.send(JSON.stringify({ ...frame, token } satisfies ClientFrame));
+      return true;
+    }
+    this.connect();
+    return false;
+  }
+
+  /** Nessuna iscrizione né richiesta in volo: la connessione può chiudersi */
+  release() {
+    if (this.changes.size || this.channels.size || this.pending.size) return;
+    if (this.timer !== null) window.clearTimeout(this.timer);
+    this.timer = null;
+    const ws = this.ws;
+    this.ws = null;
+    ws?.close();
+  }
+
+  private connect() {
+    if (this.ws || this.timer !== null) return;
+    const ws = new WebSocket(this.url);
+    this.ws = ws;
+
+    ws.onopen = async () => {
+      this.retry = RECONNECT_MIN_MS;
+      const rooms = [...new Set([...this.changes.keys(), ...this.channels.keys()])];
+      const tokens = new Map(await Promise.all(rooms.map(async (room) => [room, (await this.token(room)) ?? ""] as const)));
+      if (this.ws !== ws || ws.readyState !== WebSocket.OPEN) return;
+      for (const room of this.changes.keys()) {
+        ws.send(JSON.stringify({ op: "subscribe", room, token: tokens.get(room) ?? "" } satisfies ClientFrame));
+      }
+      for (const [room, ch] of this.channels) {
+        ws.send(JSON.stringify({ op: "join", room, key: ch.key, token: tokens.get(room) ?? "" } satisfies ClientFrame));
+        if (ch.meta) ws.send(JSON.stringify({ op: "track", room, meta: ch.meta } satisfies ClientFrame));
+        ch.handlers.onSubscribed?.();
+      }
+      for (const data of this.queue.splice(0)) ws.send(data);
+    };
+
+    ws.onmessage = (ev) => {
+      let frame: ServerFrame;
+      try {
+        frame = JSON.parse(String(ev.data));
+      } catch {
+        return;
+      }
+      this.dispatch(frame);
+    };
+
+    ws.onclose = () => {
+      if (this.ws !== ws) return; // chiusa da release()
+      this.ws = null;
+      for (const p of this.pending.values()) p.reject(new TransportError("Connessione al server chat persa"));
+      this.pending.clear();
+      if (!this.changes.size && !this.channels.size && !this.queue.length) return;
+      this.timer = window.setTimeout(() => {
+        this.timer = null;
+        this.connect();
+      }, this.retry);
+      this.retry = Math.min(RECONNECT_MAX_MS, this.retry * 2);
+    };
+  }
+
+  private dispatch(frame: ServerFrame) {
+    switch (frame.op) {
+      case "reply": {
+        const p = this.pending.get(frame.req);
+        if (!p) return;
+        this.pending.delete(frame.req);
+        if (frame.ok) p.resolve(frame.data);
+        else p.reject(new TransportError(frame.error, frame.code, frame.retryAfter));
+        return;
+      }
+      case "change":
+        for (const h of this.changes.get(frame.room) ?? []) {
+          if (frame.type === "DELETE") h.onDelete?.(frame.table, frame.id);
+          else if (frame.type === "INSERT") h.onInsert?.(frame.table, frame.row);
+          else h.onUpdate?.(frame.table, frame.row);
+        }
+        return;
+      case "presence":
+        this.channels.get(frame.room)?.handlers.onPresence?.(frame.state);
+        return;
+      case "broadcast":
+        this.channels.get(frame.room)?.handlers.onBroadcast?.(frame.event, frame.payload);
+        return;
+      case "kicked":
+        this.channels.get(frame.room)?.handlers.onKicked?.();
+        return;
+    }
+  }
+}
+
+export function createWsTransport(url: string, token: RoomTokenSource): ChatTransport {
+  const conn = new WsConnection(url, token);
+
+  return {
+    async history(table, room, query) {
+      return (await conn.request({ op: "history", table, room, query })) as MessageRow[];
+    },
+
+    async count(table, room) {
+      return (await conn.request({ op: "count", table, room })) as number;
+    },
+
+    async insert(table, row) {
+      await conn.request({ op: "insert", table, row });
+    },
+
+    async update(table, { room, id, author }, content) {
+      await conn.request({ op: "update", table, room, id, author, content });
+    },
+
+    async remove(table, { room, id }) {
+      await conn.request({ op: "delete", table, room, id });
+    },
+
+    subscribe(room, handlers) {
+      let set = conn.changes.get(room);
+      if (!set) {
+        const created = new Set<ChangeHandlers>();
+        conn.changes.set(room, (set = created));
+        void conn.notifyRoom({ op: "subscribe", room }, () => conn.changes.get(room) === created);
+      }
+      set.add(handlers);
+      return {
+        unsubscribe() {
+          const s = conn.changes.get(room);
+          if (!s?.delete(handlers) || s.size) return;
+          conn.changes.delete(room);
+          conn.notify({ op: "unsubscribe", room });
+          conn.release();
+        },
+      };
+    },
+
+    openRoomChannel(room, presenceKey, handlers) {
+      // un solo canale per stanza, come su Supabase: l'ultimo che apre sostituisce il precedente
+      const entry: { key: string; meta?: Record<string, unknown>; handlers: RoomChannelHandlers } = { key: presenceKey, handlers };
+      conn.channels.set(room, entry);
+      // a connessione già aperta `onopen` non scatta più: si avvisa appena parte il join
+      void conn.notifyRoom({ op: "join", room, key: presenceKey }, () => conn.channels.get(room) === entry).then((sent) => {
+        if (sent) handlers.onSubscribed?.();
+      });
+      return {
+        track(meta) {
+          entry.meta = meta;
+          conn.notify({ op: "track", room, meta });
+        },
+        broadcast(event, payload) {
+          conn.notify({ op: "broadcast", room, event, payload });
+        },
+        unsubscribe() {
+          if (conn.channels.get(room) !== entry) return;
+          conn.channels.delete(room);
+          conn.notify({ op: "leave", room });
+          conn.release();
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,24 @@
+/* ========== Messaggi a scadenza (TTL per stanza) ========== */
+
+/** Scelte offerte alla creazione della stanza; le stanze create prima del TTL hanno `null` */
+export const ROOM_TTLS = [
+  { seconds: 60 * 60, label: "1 ora" },
+  { seconds: 24 * 60 * 60, label: "1 giorno" },
+  { seconds: 7 * 24 * 60 * 60, label: "1 settimana" },
+] as const;
+
+export const DEFAULT_ROOM_TTL = 24 * 60 * 60;
+
+export function isAllowedTtl(seconds: unknown): seconds is number {
+  return ROOM_TTLS.some((t) => t.seconds === seconds);
+}
+
+export function ttlLabel(seconds: number | null): string {
+  if (seconds === null) return "nessuna scadenza";
+  return ROOM_TTLS.find((t) => t.seconds === seconds)?.label ?? `${Math.round(seconds / 3600)} h`;
+}
+
+/** Il client nasconde i messaggi scaduti anche prima che il purge lato server li cancelli */
+export function isExpired(createdAt: string, ttlSeconds: number | null, now = Date.now()): boolean {
+  return ttlSeconds !== null && Date.parse(createdAt) + ttlSeconds * 1000 <= now;
+}
@@ -0,0 +1,18 @@
+// next-pwa 5.x non ha tipi propri (e @types/next-pwa si porta dietro un'altra versione di next)
+declare module "next-pwa" {
+  import type { NextConfig } from "next";
+
+  type PWAConfig = {
+    dest: string;
+    disable?: boolean;
+    register?: boolean;
+    skipWaiting?: boolean;
+    scope?: string;
+    sw?: string;
+    fallbacks?: Record<string, string>;
+    runtimeCaching?: unknown[];
+    buildExcludes?: (string | RegExp)[];
+  };
+
+  export default function withPWAInit(config: PWAConfig): (nextConfig: NextConfig) => NextConfig;
+}
@@ -0,0 +1,69 @@
+/* ========== Service worker: notifiche push (next-pwa lo unisce a sw.js) ========== */
+// import relativi: il build del worker di next-pwa non risolve l'alias "@/"
+import { decryptPushPreview } from "../lib/e2ee";
+import { idbGet } from "../lib/idb";
+import type { PushPayload, PushSettings } from "../lib/push";
+
+// tipi minimi del contesto service worker (il progetto compila con la lib "dom")
+type ExtendableEvent = Event & { waitUntil(p: Promise<unknown>): void };
+type PushEvent = ExtendableEvent & { data: { json(): unknown } | null };
+type NotificationEvent = ExtendableEvent & { notification: Notification };
+type WindowClient = { focused: boolean; focus(): Promise<WindowClient> };
+
+declare const self: {
+  registration: ServiceWorkerRegistration;
+  clients: {
+    matchAll(opts: { type: "window"; includeUncontrolled: boolean }): Promise<readonly WindowClient[]>;
+    openWindow(url: string): Promise<WindowClient | null>;
+  };
+  addEventListener(type: "push", listener: (e: PushEvent) => void): void;
+  addEventListener(type: "notificationclick", listener: (e: NotificationEvent) => void): void;
+};
+
+/**
+ * Testo della notifica: autore e anteprima solo se l'anteprima si apre con la chiave salvata
+ * (il nome è verificato dall'additional data); altrimenti generico, senza nome
+ */
+async function previewText(p: PushPayload, settings: PushSettings | undefined): Promise<string> {
+  const generic = "Nuovo messaggio";
+  // le impostazioni delle versioni precedenti tenevano qui la chiave radice: non la uso più
+  if (!settings?.preview || settings.muted || !(settings.key instanceof CryptoKey) || !p.sealed) return generic;
+  const { author, preview } = p.sealed;
+  const text = await decryptPushPreview(preview, settings.key, { id: p.id, room: p.room, author });
+  return text === null ? generic : `${author}: ${text}`;
+}
+
+/**
+ * Ogni push mostra una notifica: i browser revocano l'iscrizione a chi ne riceve senza mostrare
+ * nulla. Silenziata qui, disattivata o senza anteprima diventa generica; con la chat in primo
+ * piano arriva senza suono.
+ */
+async function handlePush(p: PushPayload): Promise<void> {
+  const settings = await idbGet<PushSettings>("push", p.room).catch(() => undefined);
+  const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+  const focused = windows.some((w) => w.focused);
+
+  await self.registration.showNotification(`Stanza ${p.room}`, {
+    body: await previewText(p, settings),
+    tag: `room:${p.room}`, // una notifica per stanza, aggiornata ai nuovi messaggi
+    icon: "/icon-192.png",
+    badge: "/icon-192.png",
+    silent: focused || !settings || settings.muted,
+    data: { room: p.room },
+  });
+}
+
+self.addEventListener("push", (event) => {
+  const payload = event.data?.json() as PushPayload | undefined;
+  if (!payload?.room || !payload.id) return;
+  event.waitUntil(handlePush(payload));
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) =>
+      windows.length ? windows[0].focus() : self.clients.openWindow("/")
+    )
+  );
+});
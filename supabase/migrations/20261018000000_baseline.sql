@@ -0,0 +1,112 @@
+-- Baseline: lo schema che esisteva prima delle migrazioni versionate (stanze, messaggi, reazioni,
+-- allegati, push, scadenza, ruoli, rotazione, inviti), creato finora a mano dalla dashboard.
+-- Tutto idempotente. Su un progetto già in uso va segnata come applicata, non rieseguita:
+--   npx supabase migration repair --status applied 20261018000000
+
+-- ---------- rooms and messages ----------
+-- Stanze e messaggi cifrati: il server vede solo ciphertext (buste JSON in `content`).
+create table if not exists rooms (
+  room text primary key,
+  pass_hash text, -- SHA-256 legacy della password, azzerato alla migrazione al verifier
+  created_at timestamptz not null default now()
+);
+
+create table if not exists messages (
+  id uuid primary key default gen_random_uuid(), -- generato dal client, entra nella busta v2
+  room text not null,
+  author text not null,
+  content text not null,
+  created_at timestamptz not null default now()
+);
+create index if not exists messages_room_created_idx on messages (room, created_at, id);
+
+alter table rooms enable row level security;
+alter table messages enable row level security;
+
+-- Realtime (postgres_changes) sui messaggi
+do $$
+begin
+  if not exists (select 1 from pg_publication_tables where pubname = 'supabase_realtime' and tablename = 'messages') then
+    alter publication supabase_realtime add table messages;
+  end if;
+end $$;
+
+-- ---------- room key schedule ----------
+-- Salt KDF per-stanza e verifier scrypt (al posto di pass_hash), vedi "E2EE: key schedule" e
+-- "Accesso alle stanze" nel README. Nullable: le stanze legacy li ricevono al primo join.
+alter table rooms add column if not exists kdf_salt text;
+alter table rooms add column if not exists verifier text;
+
+-- ---------- reactions ----------
+-- Reazioni: stesse colonne e stessa busta cifrata di `messages`
+create table if not exists reactions (
+  id uuid primary key default gen_random_uuid(),
+  room text not null,
+  author text not null,
+  content text not null,
+  created_at timestamptz not null default now()
+);
+create index if not exists reactions_room_created_idx on reactions (room, created_at, id);
+alter table reactions enable row level security;
+
+do $$
+begin
+  if not exists (select 1 from pg_publication_tables where pubname = 'supabase_realtime' and tablename = 'reactions') then
+    alter publication supabase_realtime add table reactions;
+  end if;
+end $$;
+
+-- ---------- attachments bucket ----------
+-- Bucket privato per gli allegati (solo ciphertext, path `${room}/${uuid}`)
+insert into storage.buckets (id, name, public)
+values ('attachments', 'attachments', false)
+on conflict (id) do nothing;
+
+-- ---------- push subscriptions ----------
+-- Iscrizioni Web Push per stanza: le gestiscono solo le route con la service role
+create table if not exists push_subscriptions (
+  endpoint text not null,
+  room text not null,
+  author text not null,
+  subscription jsonb not null,
+  muted boolean not null default false,
+  created_at timestamptz not null default now(),
+  primary key (endpoint, room)
+);
+create index if not exists push_subscriptions_room_idx on push_subscriptions (room);
+alter table push_subscriptions enable row level security; -- nessuna policy: solo service role
+
+-- ---------- room ttl ----------
+-- Scadenza dei messaggi in secondi (null = stanza creata prima del TTL, non scade)
+alter table rooms add column if not exists ttl_seconds integer;
+
+-- ---------- room roles ----------
+-- Owner (chiave del dispositivo che ha creato la stanza) e admin nominati dall'owner
+alter table rooms add column if not exists owner_pk text;
+
+create table if not exists room_admins (
+  room text not null references rooms(room) on delete cascade,
+  pk text not null,
+  name text not null,
+  created_at timestamptz not null default now(),
+  primary key (room, pk)
+);
+alter table room_admins enable row level security; -- nessuna policy: solo service role
+
+-- ---------- room rotation ----------
+-- Rotazione della password in corso: { kdfSalt, verifier, startedAt }
+alter table rooms add column if not exists rotation jsonb;
+
+-- ---------- room invites ----------
+-- Inviti a scadenza: il server custodisce solo la password cifrata con un segreto del fragment
+create table if not exists room_invites (
+  id text primary key,
+  room text not null references rooms(room) on delete cascade,
+  sealed text not null,
+  expires_at timestamptz not null,
+  max_uses integer,            -- null = illimitato fino alla scadenza
+  uses integer not null default 0,
+  created_at timestamptz not null default now()
+);
+create index if not exists room_invites_room_idx on room_invites (room);
+alter table room_invites enable row level security; -- nessuna policy: solo service role
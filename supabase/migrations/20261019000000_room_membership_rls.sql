@@ -0,0 +1,54 @@
+-- Appartenenza alla stanza imposta dal database.
+-- Dopo il controllo del verifier, /api/rooms/join (e /api/rooms/token per il rinnovo) firma un JWT
+-- con ruolo `anon` e claim `room`; il client lo usa al posto della chiave anon. Chi ha solo la
+-- chiave anon non legge, non scrive e non cancella niente. Le route con la service role restano
+-- le uniche a toccare stanze, ruoli, inviti, iscrizioni push e a cancellare messaggi.
+
+create or replace function public.jwt_room() returns text
+language sql stable
+as $$ select nullif(auth.jwt() ->> 'room', '') $$;
+
+-- via le policy create a mano dalla dashboard (es. "anon delete messages")
+do $$
+declare p record;
+begin
+  for p in
+    select policyname, tablename from pg_policies
+    where schemaname = 'public' and tablename in ('rooms', 'messages', 'reactions')
+  loop
+    execute format('drop policy %I on public.%I', p.policyname, p.tablename);
+  end loop;
+end $$;
+
+revoke all on rooms, room_admins, room_invites, push_subscriptions from anon, authenticated;
+revoke all on messages, reactions from anon, authenticated;
+
+-- messaggi: lettura e invio nella propria stanza, modifica del solo `content` (edit / ritiro)
+grant select, insert on messages to anon;
+grant update (content) on messages to anon;
+create policy "room members read messages" on messages
+  for select to anon using (room = public.jwt_room());
+create policy "room members send messages" on messages
+  for insert to anon with check (room = public.jwt_room());
+create policy "room members edit messages" on messages
+  for update to anon using (room = public.jwt_room()) with check (room = public.jwt_room());
+
+-- reazioni: lettura, aggiunta e rimozione (secondo click) nella propria stanza
+grant select, insert, delete on reactions to anon;
+create policy "room members read reactions" on reactions
+  for select to anon using (room = public.jwt_room());
+create policy "room members add reactions" on reactions
+  for insert to anon with check (room = public.jwt_room());
+create policy "room members remove reactions" on reactions
+  for delete to anon using (room = public.jwt_room());
+
+-- allegati: solo la cartella della propria stanza (`${room}/…`)
+drop policy if exists "room members read attachments" on storage.objects;
+drop policy if exists "room members upload attachments" on storage.objects;
+drop policy if exists "room members remove attachments" on storage.objects;
+create policy "room members read attachments" on storage.objects
+  for select to anon using (bucket_id = 'attachments' and (storage.foldername(name))[1] = public.jwt_room());
+create policy "room members upload attachments" on storage.objects
+  for insert to anon with check (bucket_id = 'attachments' and (storage.foldername(name))[1] = public.jwt_room());
+create policy "room members remove attachments" on storage.objects
+  for delete to anon using (bucket_id = 'attachments' and (storage.foldername(name))[1] = public.jwt_room());
@@ -0,0 +1,15 @@
+-- Invii solo dalle route Next.
+-- Messaggi e reazioni nuovi passano da /api/messages, che applica i rate limit per client e per
+-- stanza e scrive con la service role: il token della stanza non basta più per un INSERT diretto.
+-- Lettura, modifica del `content` e rimozione delle proprie reazioni restano come prima.
+
+revoke insert on messages, reactions from anon, authenticated;
+drop policy if exists "room members send messages" on messages;
+drop policy if exists "room members add reactions" on reactions;
+
+-- stesso tetto di MAX_CONTENT_BYTES (src/lib/server/rate-limit.ts), anche per gli UPDATE dal client;
+-- `not valid`: le righe già presenti non vengono ricontrollate
+alter table messages drop constraint if exists messages_content_size;
+alter table messages add constraint messages_content_size check (octet_length(content) <= 32768) not valid;
+alter table reactions drop constraint if exists reactions_content_size;
+alter table reactions add constraint reactions_content_size check (octet_length(content) <= 32768) not valid;
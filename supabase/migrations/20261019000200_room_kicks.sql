@@ -0,0 +1,25 @@
+-- Espulsioni decise dall'owner, per chiave del dispositivo.
+-- Il token di stanza porta anche il claim `pk`: `jwt_room()` non restituisce la stanza a una chiave
+-- espulsa, quindi tutte le policy di `…_room_membership_rls.sql` (lettura, modifica, reazioni,
+-- allegati, Realtime) la chiudono fuori senza toccarle una per una.
+
+create table if not exists room_kicks (
+  room text not null references rooms(room) on delete cascade,
+  pk text not null,
+  kicked_by text not null,
+  created_at timestamptz not null default now(),
+  primary key (room, pk)
+);
+alter table room_kicks enable row level security; -- nessuna policy: solo service role
+revoke all on room_kicks from anon, authenticated;
+
+-- security definer: il ruolo anon non legge `room_kicks`. Un token senza `pk` (emesso prima della
+-- prova di possesso della chiave) non vale più: la chiave è ciò che rende efficace l'espulsione.
+create or replace function public.jwt_room() returns text
+language sql stable security definer set search_path = public
+as $$
+  select t.room
+  from (select nullif(auth.jwt() ->> 'room', '') as room, nullif(auth.jwt() ->> 'pk', '') as pk) t
+  where t.pk is not null
+    and not exists (select 1 from room_kicks k where k.room = t.room and k.pk = t.pk)
+$$;
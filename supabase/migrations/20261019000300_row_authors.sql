@@ -0,0 +1,18 @@
+-- Ogni riga legata alla chiave di chi l'ha scritta.
+-- /api/messages copia in `pk` il claim del token di stanza (chiave provata al join): solo quella
+-- chiave può poi modificare il `content` di un messaggio (edit / ritiro) o rimuovere una reazione.
+-- Le righe scritte prima di questa migrazione restano senza `pk`: si leggono, ma non si modificano
+-- più dal client (lo fanno solo le route con la service role, es. la rotazione della password).
+
+alter table messages add column if not exists pk text;
+alter table reactions add column if not exists pk text;
+
+drop policy if exists "room members edit messages" on messages;
+create policy "room members edit own messages" on messages
+  for update to anon
+  using (room = public.jwt_room() and pk = auth.jwt() ->> 'pk')
+  with check (room = public.jwt_room() and pk = auth.jwt() ->> 'pk');
+
+drop policy if exists "room members remove reactions" on reactions;
+create policy "room members remove own reactions" on reactions
+  for delete to anon using (room = public.jwt_room() and pk = auth.jwt() ->> 'pk');
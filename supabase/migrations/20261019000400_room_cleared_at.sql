@@ -0,0 +1,5 @@
+-- Quando è stata cancellata l'ultima volta la cronologia della stanza.
+-- `/api/rooms/clear` lo aggiorna e `/api/rooms/join` lo restituisce: il client conserva il valore
+-- nella copia locale e, se al rientro è cambiato, la elimina prima di mostrarla.
+
+alter table rooms add column if not exists cleared_at timestamptz;
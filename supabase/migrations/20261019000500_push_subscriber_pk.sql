@@ -0,0 +1,8 @@
+-- Iscrizioni push legate alla chiave del dispositivo, non al nickname.
+-- `POST /api/push` registra in `pk` la chiave provata dalla firma del dispositivo e il webhook
+-- esclude chi ha scritto confrontandola con `messages.pk`: due persone con lo stesso nome ricevono
+-- entrambe le notifiche dell'altra. `author` non si scrive più; le iscrizioni precedenti restano
+-- senza `pk` e ricevono tutto, anche i propri messaggi, finché non vengono rinnovate.
+
+alter table push_subscriptions add column if not exists pk text;
+alter table push_subscriptions alter column author drop not null;
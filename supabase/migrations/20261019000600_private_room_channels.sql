@@ -0,0 +1,25 @@
+-- Presence e broadcast della stanza su un canale Realtime privato (`presence:<room>`, `private: true`).
+-- Realtime Authorization controlla ogni join, track e send con le policy di `realtime.messages`:
+-- solo il token della stanza (e non di una chiave espulsa, vedi `jwt_room()`) legge nickname e
+-- chiavi dei presenti o manda avvisi (`typing`, `kicked`, `room_cleared`, `password_rotating`…).
+-- Da Settings → Realtime va spento "Allow public access", così nessuno apre lo stesso topic come
+-- canale pubblico.
+
+alter table realtime.messages enable row level security;
+
+drop policy if exists "room members receive room signals" on realtime.messages;
+drop policy if exists "room members send room signals" on realtime.messages;
+
+create policy "room members receive room signals" on realtime.messages
+  for select to anon
+  using (
+    realtime.messages.extension in ('presence', 'broadcast')
+    and realtime.topic() = 'presence:' || public.jwt_room()
+  );
+
+create policy "room members send room signals" on realtime.messages
+  for insert to anon
+  with check (
+    realtime.messages.extension in ('presence', 'broadcast')
+    and realtime.topic() = 'presence:' || public.jwt_room()
+  );
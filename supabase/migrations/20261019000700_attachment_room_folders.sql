@@ -0,0 +1,24 @@
+-- Allegati in una cartella per stanza derivata dal nome: `room_folder(room)` = SHA-256 esadecimale.
+-- Il nome della stanza è testo libero (spazi, accenti, emoji), la chiave di un oggetto dello
+-- Storage no. I file caricati prima, sotto `${room}/`, restano leggibili e rimovibili.
+create or replace function public.room_folder(room text) returns text
+  language sql immutable
+  as $$ select encode(sha256(convert_to(room, 'UTF8')), 'hex') $$;
+
+drop policy if exists "room members read attachments" on storage.objects;
+drop policy if exists "room members upload attachments" on storage.objects;
+drop policy if exists "room members remove attachments" on storage.objects;
+create policy "room members read attachments" on storage.objects
+  for select to anon using (
+    bucket_id = 'attachments'
+    and (storage.foldername(name))[1] in (public.room_folder(public.jwt_room()), public.jwt_room())
+  );
+create policy "room members upload attachments" on storage.objects
+  for insert to anon with check (
+    bucket_id = 'attachments' and (storage.foldername(name))[1] = public.room_folder(public.jwt_room())
+  );
+create policy "room members remove attachments" on storage.objects
+  for delete to anon using (
+    bucket_id = 'attachments'
+    and (storage.foldername(name))[1] in (public.room_folder(public.jwt_room()), public.jwt_room())
+  );